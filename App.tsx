@@ -21,6 +21,8 @@ import { usePreference } from './contexts/PreferenceContext';
 import HistoryDeletionModal from './components/HistoryDeletionModal';
 import SearchHistoryDeletionModal from './components/SearchHistoryDeletionModal';
 import UpdateAnnouncementModal from './components/UpdateAnnouncementModal';
+import SubscriptionImportModal from './components/SubscriptionImportModal';
+import DataImportModal from './components/DataImportModal';
 
 const App: React.FC = () => {
   const { theme } = useTheme();
@@ -33,6 +35,8 @@ const App: React.FC = () => {
   const [isHistoryDeletionModalOpen, setIsHistoryDeletionModalOpen] = useState(false);
   const [isSearchHistoryDeletionModalOpen, setIsSearchHistoryDeletionModalOpen] = useState(false);
   const [showUpdateModal, setShowUpdateModal] = useState(false);
+  const [subscriptionImportFile, setSubscriptionImportFile] = useState<File | null>(null);
+  const [dataImportFiles, setDataImportFiles] = useState<File[] | null>(null);
 
   useEffect(() => {
     // Check for updates on mount
@@ -70,6 +74,10 @@ const App: React.FC = () => {
   const openSearchHistoryDeletionModal = useCallback(() => setIsSearchHistoryDeletionModalOpen(true), []);
   const closeHistoryDeletionModal = useCallback(() => setIsHistoryDeletionModalOpen(false), []);
   const closeSearchHistoryDeletionModal = useCallback(() => setIsSearchHistoryDeletionModalOpen(false), []);
+  const openSubscriptionImportModal = useCallback((file: File) => setSubscriptionImportFile(file), []);
+  const closeSubscriptionImportModal = useCallback(() => setSubscriptionImportFile(null), []);
+  const openDataImportModal = useCallback((files: File[]) => setDataImportFiles(files), []);
+  const closeDataImportModal = useCallback(() => setDataImportFiles(null), []);
 
   const getMargin = () => {
     if (isShortsPage) return ''; 
@@ -99,6 +107,8 @@ const App: React.FC = () => {
             toggleSidebar={toggleSidebar} 
             openHistoryDeletionModal={openHistoryDeletionModal}
             openSearchHistoryDeletionModal={openSearchHistoryDeletionModal}
+            openSubscriptionImportModal={openSubscriptionImportModal}
+            openDataImportModal={openDataImportModal}
         />
         <div className="flex">
             {shouldShowSidebar() && <Sidebar isOpen={isSidebarOpen} />}
@@ -133,6 +143,18 @@ const App: React.FC = () => {
             onClose={closeSearchHistoryDeletionModal} 
             />
         )}
+        {subscriptionImportFile && (
+            <SubscriptionImportModal
+            file={subscriptionImportFile}
+            onClose={closeSubscriptionImportModal}
+            />
+        )}
+        {dataImportFiles && (
+            <DataImportModal
+            files={dataImportFiles}
+            onClose={closeDataImportModal}
+            />
+        )}
         {showUpdateModal && (
             <UpdateAnnouncementModal onClose={() => setShowUpdateModal(false)} />
         )}
@@ -0,0 +1,46 @@
+// -------------------------------------------------------------------
+// チャンネル情報 (youtubei.js の YT.Channel) を API のレスポンスの形にする
+// -------------------------------------------------------------------
+export const buildChannelMetadata = (channel) => {
+    const title = channel.metadata?.title || channel.header?.title?.text || channel.header?.author?.name || null;
+    let avatar = channel.metadata?.avatar || channel.header?.avatar || channel.header?.author?.thumbnails || null;
+    
+    if (Array.isArray(avatar) && avatar.length > 0) {
+        avatar = avatar[0].url;
+    } else if (typeof avatar === 'object' && avatar?.url) {
+        avatar = avatar.url;
+    }
+
+    let banner = channel.metadata?.banner || channel.header?.banner || null;
+    if (Array.isArray(banner) && banner.length > 0) {
+        banner = banner[0].url;
+    } else if (typeof banner === 'object' && banner?.url) {
+        banner = banner.url;
+    } else if (typeof banner !== 'string') {
+        banner = null; 
+    }
+
+    return {
+        // YT.Channel 自体には id が無いので、メタデータの externalId (無ければヘッダーの作者) から取る
+        id: channel.metadata?.external_id || channel.header?.author?.id || null, 
+        name: title, 
+        description: channel.metadata?.description || null,
+        avatar: avatar, 
+        banner: banner,
+        subscriberCount: channel.metadata?.subscriber_count?.pretty || '非公開', 
+        videoCount: channel.metadata?.videos_count?.text ?? channel.metadata?.videos_count ?? '0'
+    };
+};
+
+// /api/v2/channels/:id の ChannelDetails
+// channelId はリクエストされたID (メタデータから取れなかった場合に使う)
+export const toChannelDetailsDto = (meta, channelId) => ({
+  id: meta.id ?? channelId,
+  name: meta.name ?? 'No Name',
+  avatarUrl: typeof meta.avatar === 'string' ? meta.avatar : '',
+  subscriberCount: meta.subscriberCount ?? '非公開',
+  bannerUrl: meta.banner ?? undefined,
+  description: meta.description ?? '',
+  videoCount: parseInt(String(meta.videoCount).replace(/,/g, ''), 10) || 0,
+  handle: meta.name ?? undefined,
+});
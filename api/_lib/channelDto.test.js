@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { YT } from 'youtubei.js';
+import { assertValid } from '../../utils/apiContract.js';
+import { buildChannelMetadata, toChannelDetailsDto } from './channelDto.js';
+
+const CHANNEL_ID = 'UCBR8-60-B28hp2BmDPdntcQ';
+
+// /browse のレスポンス (チャンネルのトップ) を最小限の形で再現する (YT.Channel は { data } を受け取って解析する)
+const channelResponse = {
+  metadata: {
+    channelMetadataRenderer: {
+      title: 'YouTube',
+      description: 'The official YouTube channel',
+      externalId: CHANNEL_ID,
+      channelUrl: `https://www.youtube.com/channel/${CHANNEL_ID}`,
+      avatar: { thumbnails: [{ url: 'https://yt3.ggpht.com/avatar=s900', width: 900, height: 900 }] },
+    },
+  },
+  contents: {
+    twoColumnBrowseResultsRenderer: {
+      tabs: [{ tabRenderer: { title: 'Home', selected: true, content: { sectionListRenderer: { contents: [] } } } }],
+    },
+  },
+};
+
+describe('channel details', () => {
+  it('takes the channel id from the parsed youtubei.js channel and satisfies the contract', () => {
+    const channel = new YT.Channel(null, { data: channelResponse });
+    const dto = toChannelDetailsDto(buildChannelMetadata(channel), CHANNEL_ID);
+
+    expect(() => assertValid('ChannelDetails', dto)).not.toThrow();
+    expect(dto).toMatchObject({ id: CHANNEL_ID, name: 'YouTube', avatarUrl: 'https://yt3.ggpht.com/avatar=s900' });
+  });
+
+  it('falls back to the requested id when the metadata has none', () => {
+    const { externalId, ...metadata } = channelResponse.metadata.channelMetadataRenderer;
+    const channel = new YT.Channel(null, { data: { ...channelResponse, metadata: { channelMetadataRenderer: metadata } } });
+    const dto = toChannelDetailsDto(buildChannelMetadata(channel), CHANNEL_ID);
+
+    expect(() => assertValid('ChannelDetails', dto)).not.toThrow();
+    expect(dto.id).toBe(CHANNEL_ID);
+  });
+});
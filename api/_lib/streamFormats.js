@@ -0,0 +1,119 @@
+// -------------------------------------------------------------------
+// ストリームのフォーマット (youtubei.js と外部APIの結果を StreamData の形にそろえる) と、ダウンロード用の選択
+// -------------------------------------------------------------------
+export const getContainer = (mimeType) => mimeType?.split(';')[0].split('/')[1] ?? 'unknown';
+
+export const toStreamFormat = (format, url) => {
+  const isAudioOnly = format.has_audio && !format.has_video;
+  return {
+    quality: format.quality_label || (isAudioOnly ? `${Math.round(format.bitrate / 1000)}kbps` : format.quality) || 'unknown',
+    container: getContainer(format.mime_type),
+    url,
+    itag: format.itag,
+    mimeType: format.mime_type,
+    bitrate: format.bitrate,
+    width: format.width,
+    height: format.height,
+    fps: format.fps,
+    hasVideo: format.has_video,
+    hasAudio: format.has_audio,
+    audioLanguage: format.language ?? null,
+    audioTrackName: format.audio_track?.display_name ?? null,
+    isOriginalAudio: format.audio_track ? format.audio_track.audio_is_default : true,
+    contentLength: format.content_length,
+    initRange: format.init_range ?? null,
+    indexRange: format.index_range ?? null,
+    approxDurationMs: format.approx_duration_ms,
+  };
+};
+
+export const byQualityDesc = (a, b) => (b.height || 0) - (a.height || 0) || (b.fps || 0) - (a.fps || 0) || (b.bitrate || 0) - (a.bitrate || 0);
+
+export const pickBestAudio = (formats) => {
+  return [...formats].sort((a, b) => {
+    // 吹き替えではない元の音声、次に MP4 (m4a) を優先し、最後にビットレートで比較
+    if (a.isOriginalAudio !== b.isOriginalAudio) return a.isOriginalAudio ? -1 : 1;
+    if ((a.container === 'mp4') !== (b.container === 'mp4')) return a.container === 'mp4' ? -1 : 1;
+    return (b.bitrate || 0) - (a.bitrate || 0);
+  })[0] ?? null;
+};
+
+// googlevideo の URL は itag をクエリに含むため、外部APIの結果もメディア中継で扱える
+export const getItagFromUrl = (url) => {
+  try {
+    const itag = Number(new URL(url).searchParams.get('itag'));
+    return Number.isInteger(itag) && itag > 0 ? itag : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// 外部APIの type2 形式 ({ videourl: { '360p': { video, audio } } }) を StreamData に変換する
+export const toFallbackStreamData = (data) => {
+  const videourl = data?.videourl ?? {};
+
+  const combinedFormats = [];
+  const adaptiveFormats = [];
+  let audioOnlyFormat = null;
+  for (const [quality, entry] of Object.entries(videourl)) {
+    if (entry?.video?.url) {
+      // 外部APIでは360pのみ音声付きで返される
+      const hasAudio = quality === '360p';
+      const format = { quality, container: 'mp4', url: entry.video.url, itag: getItagFromUrl(entry.video.url), hasVideo: true, hasAudio };
+      (hasAudio ? combinedFormats : adaptiveFormats).push(format);
+    }
+    if (entry?.audio?.url && !audioOnlyFormat) {
+      audioOnlyFormat = { quality: 'audio', container: 'mp4', mimeType: 'audio/mp4', url: entry.audio.url, itag: getItagFromUrl(entry.audio.url), hasVideo: false, hasAudio: true };
+    }
+  }
+  if (audioOnlyFormat) adaptiveFormats.push(audioOnlyFormat);
+  if (combinedFormats.length === 0 && adaptiveFormats.length === 0) throw new Error('No playable formats');
+
+  const video1080p = adaptiveFormats.find(f => f.quality === '1080p');
+  return {
+    source: 'fallback',
+    title: null,
+    streamingUrl: null,
+    streamType: 'mp4',
+    combinedFormats,
+    adaptiveFormats,
+    audioOnlyFormat,
+    separate1080p: video1080p
+      ? { video: video1080p, audio: audioOnlyFormat }
+      : null,
+  };
+};
+
+export const getCodecs = (mimeType) => mimeType?.match(/codecs="([^"]+)"/)?.[1] ?? null;
+
+export const DOWNLOAD_FORMATS = {
+  mp4: { container: 'mp4', hasVideo: true, muxer: 'mp4', contentType: 'video/mp4' },
+  webm: { container: 'webm', hasVideo: true, muxer: 'webm', contentType: 'video/webm' },
+  m4a: { container: 'mp4', hasVideo: false, muxer: 'ipod', contentType: 'audio/mp4' },
+  opus: { container: 'webm', hasVideo: false, muxer: 'opus', contentType: 'audio/ogg' },
+};
+
+export const getFormatHeight = (format) => format.height || parseInt(format.quality, 10) || 0;
+
+// 互換性の高い H.264 (avc1) を AV1 より優先する
+const byVideoCompatibility = (a, b) => {
+  const aAvc = getCodecs(a.mimeType)?.startsWith('avc1') ?? false;
+  const bAvc = getCodecs(b.mimeType)?.startsWith('avc1') ?? false;
+  if (aAvc !== bAvc) return aAvc ? -1 : 1;
+  return byQualityDesc(a, b);
+};
+
+// ffmpeg に渡す入力 (1本の muxed ストリーム、または映像+音声) を選ぶ
+export const selectDownloadInputs = (data, target, height) => {
+  const audio = pickBestAudio(data.adaptiveFormats.filter(f => f.hasAudio && !f.hasVideo && f.container === target.container));
+  if (!target.hasVideo) return audio ? { audio } : null;
+
+  const matchesHeight = (f) => !height || getFormatHeight(f) === height;
+  const video = data.adaptiveFormats
+    .filter(f => f.hasVideo && !f.hasAudio && f.container === target.container && matchesHeight(f))
+    .sort(byVideoCompatibility)[0];
+  if (video && audio) return { video, audio };
+
+  const combined = data.combinedFormats.find(f => f.container === target.container && matchesHeight(f));
+  return combined ? { combined } : null;
+};
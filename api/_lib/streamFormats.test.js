@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DOWNLOAD_FORMATS, selectDownloadInputs, toFallbackStreamData } from './streamFormats.js';
+
+const googlevideoUrl = (itag) => `https://rr1---sn-example.googlevideo.com/videoplayback?itag=${itag}&id=abc`;
+
+// 外部APIの type2 形式: 360p だけが音声付きで、他の画質は映像のみ。音声は各画質に同じものが付く
+const fallbackData = toFallbackStreamData({
+  videourl: {
+    '1080p': { video: { url: googlevideoUrl(137) }, audio: { url: googlevideoUrl(140) } },
+    '720p': { video: { url: googlevideoUrl(136) }, audio: { url: googlevideoUrl(140) } },
+    '360p': { video: { url: googlevideoUrl(18) }, audio: { url: googlevideoUrl(140) } },
+  },
+});
+
+describe('download inputs from fallback stream data', () => {
+  it('labels the fallback audio as MP4 so that downloads can use it', () => {
+    expect(fallbackData.audioOnlyFormat).toMatchObject({ container: 'mp4', mimeType: 'audio/mp4', itag: 140 });
+  });
+
+  it('muxes the separate video with the fallback audio for mp4 downloads', () => {
+    const inputs = selectDownloadInputs(fallbackData, DOWNLOAD_FORMATS.mp4, 1080);
+    expect(inputs?.video).toMatchObject({ quality: '1080p', itag: 137 });
+    expect(inputs?.audio).toMatchObject({ itag: 140 });
+  });
+
+  it('uses the muxed 360p stream when it is requested', () => {
+    expect(selectDownloadInputs(fallbackData, DOWNLOAD_FORMATS.mp4, 360)).toEqual({ combined: expect.objectContaining({ itag: 18 }) });
+  });
+
+  it('extracts the fallback audio for m4a downloads', () => {
+    expect(selectDownloadInputs(fallbackData, DOWNLOAD_FORMATS.m4a, null)).toEqual({ audio: expect.objectContaining({ itag: 140 }) });
+  });
+});
@@ -1,13 +1,242 @@
 import express from "express";
-import { Innertube } from "youtubei.js";
+import { Innertube, YT, YTNodes } from "youtubei.js";
 import path from "path";
 import { fileURLToPath } from "url";
+import { Readable } from "stream";
+import { spawn } from "child_process";
+import fs from "fs";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import os from "os";
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import ffmpegPath from "ffmpeg-static";
+import sharp from "sharp";
+import dayjs from "dayjs";
+import "dayjs/locale/ja.js";
+import relativeTime from "dayjs/plugin/relativeTime.js";
+import { buildChannelMetadata, toChannelDetailsDto } from "./_lib/channelDto.js";
+import { DOWNLOAD_FORMATS, byQualityDesc, getCodecs, getFormatHeight, pickBestAudio, selectDownloadInputs, toFallbackStreamData, toStreamFormat } from "./_lib/streamFormats.js";
+import { schemas, endpoints, assertValid, validateResponse, parseQuery, ContractError, SEARCH_UPLOAD_DATES, SEARCH_TYPES, SEARCH_DURATIONS, SEARCH_SORTS, SEARCH_FEATURES } from "../utils/apiContract.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 
+// Render / Vercel のリバースプロキシ1段分だけ X-Forwarded-For を信頼し、req.ip をクライアントの IP にする
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
+// -------------------------------------------------------------------
+// 構造化ログ
+// 1行1JSONで出力し (warn / error は標準エラー)、リクエスト中のログには自動でリクエストIDを付ける。
+// リクエストごとの文脈は AsyncLocalStorage で引き回すため、ハンドラーに引数を追加する必要はない
+// -------------------------------------------------------------------
+const LOG_LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_LEVEL = LOG_LEVELS[process.env.LOG_LEVEL] ?? LOG_LEVELS.info;
+
+const requestContext = new AsyncLocalStorage();
+
+const serializeError = (err) => {
+  if (!(err instanceof Error)) return { type: typeof err, message: String(err) };
+  return {
+    type: err.name,
+    message: err.message,
+    ...(err.status ? { status: err.status } : {}),
+    ...(err.stack ? { stack: err.stack } : {}),
+  };
+};
+
+const log = (level, msg, fields = {}) => {
+  if (LOG_LEVELS[level] < LOG_LEVEL) return;
+  const context = requestContext.getStore();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(context ? { requestId: context.requestId } : {}),
+    ...fields,
+  });
+  (LOG_LEVELS[level] >= LOG_LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+// -------------------------------------------------------------------
+// メトリクス (Prometheus テキスト形式)
+// カウンターとヒストグラムはリクエストのたびに更新し、キャッシュやプロバイダーの状態のような
+// 既に他で集計している値は、スクレイプ時に collect で読み出してゲージとして出力する
+// -------------------------------------------------------------------
+const METRICS_PREFIX = 'xeroxyt_';
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabelValue = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+const createMetricsRegistry = () => {
+  const metrics = new Map();
+
+  // ラベルの組み合わせごとに系列を持つ
+  const getSeries = (metric, labels, init) => {
+    const key = JSON.stringify(labels);
+    if (!metric.series.has(key)) metric.series.set(key, { labels, ...init() });
+    return metric.series.get(key);
+  };
+
+  const define = (name, type, help, extra = {}) => {
+    const metric = { name: `${METRICS_PREFIX}${name}`, type, help, series: new Map(), ...extra };
+    metrics.set(metric.name, metric);
+    return metric;
+  };
+
+  const renderMetric = (metric) => {
+    const lines = [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`];
+    if (metric.type === 'histogram') {
+      for (const { labels, counts, sum, count } of metric.series.values()) {
+        metric.buckets.forEach((bucket, i) => {
+          lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: bucket })} ${counts[i]}`);
+        });
+        lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${metric.name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${metric.name}_count${formatLabels(labels)} ${count}`);
+      }
+    } else {
+      const samples = metric.collect ? metric.collect() : [...metric.series.values()];
+      for (const { labels, value } of samples) lines.push(`${metric.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  };
+
+  return {
+    counter: (name, help) => {
+      const metric = define(name, 'counter', help);
+      return {
+        inc: (labels = {}, value = 1) => { getSeries(metric, labels, () => ({ value: 0 })).value += value; },
+      };
+    },
+    histogram: (name, help, buckets = LATENCY_BUCKETS) => {
+      const metric = define(name, 'histogram', help, { buckets });
+      return {
+        observe: (labels, value) => {
+          const series = getSeries(metric, labels, () => ({ counts: buckets.map(() => 0), sum: 0, count: 0 }));
+          // 各バケットは「上限以下」の累積件数
+          buckets.forEach((bucket, i) => { if (value <= bucket) series.counts[i]++; });
+          series.sum += value;
+          series.count++;
+        },
+      };
+    },
+    // collect は [{ labels, value }] を返す関数
+    collected: (name, type, help, collect) => {
+      define(name, type, help, { collect });
+    },
+    render: () => `${[...metrics.values()].map(renderMetric).join('\n')}\n`,
+  };
+};
+
+const metrics = createMetricsRegistry();
+
+const httpRequestsTotal = metrics.counter('http_requests_total', 'HTTP requests by route and status code.');
+const httpRequestDuration = metrics.histogram('http_request_duration_seconds', 'HTTP request latency by route.');
+const errorsTotal = metrics.counter('errors_total', 'Errors handled by route handlers, by error type.');
+const upstreamRequestsTotal = metrics.counter('upstream_requests_total', 'Upstream calls by upstream and outcome.');
+const upstreamRequestDuration = metrics.histogram('upstream_request_duration_seconds', 'Upstream call latency.');
+
+// ルートハンドラーで捕捉したエラーを記録する (ログとエラーカウンター)
+const logError = (route, err, fields = {}) => {
+  errorsTotal.inc({ route, type: err instanceof Error ? err.name : typeof err });
+  log('error', `Error in ${route}`, { route, ...fields, error: serializeError(err) });
+};
+
+// 上流ごとの直近の結果。/api/metrics の upstream_up と /api/health で使う
+const upstreamState = new Map();
+
+const recordUpstreamCall = (upstream, ok, durationMs) => {
+  upstreamRequestsTotal.inc({ upstream, outcome: ok ? 'success' : 'failure' });
+  upstreamRequestDuration.observe({ upstream }, durationMs / 1000);
+  const state = upstreamState.get(upstream) ?? { consecutiveFailures: 0, lastSuccessAt: null, lastFailureAt: null };
+  if (ok) {
+    state.consecutiveFailures = 0;
+    state.lastSuccessAt = Date.now();
+  } else {
+    state.consecutiveFailures++;
+    state.lastFailureAt = Date.now();
+  }
+  upstreamState.set(upstream, state);
+  // リクエストのログに上流呼び出しの内訳を含める
+  requestContext.getStore()?.upstream.push({ upstream, ok, durationMs: Math.round(durationMs) });
+};
+
+const trackUpstream = async (upstream, fn) => {
+  const startedAt = performance.now();
+  try {
+    const result = await fn();
+    recordUpstreamCall(upstream, true, performance.now() - startedAt);
+    return result;
+  } catch (err) {
+    // HTTP ステータスが 4xx のエラーは上流が応答した結果なので失敗に数えない
+    recordUpstreamCall(upstream, err?.status > 0 && err.status < 500, performance.now() - startedAt);
+    throw err;
+  }
+};
+
+// fetch 互換の関数を返す。5xx とネットワークエラーを失敗として数える (4xx は上流が応答しているので成功扱い)
+const createTrackedFetch = (upstream, baseFetch = fetch) => async (input, init) => {
+  const startedAt = performance.now();
+  try {
+    const response = await baseFetch(input, init);
+    recordUpstreamCall(upstream, response.status < 500, performance.now() - startedAt);
+    return response;
+  } catch (err) {
+    recordUpstreamCall(upstream, false, performance.now() - startedAt);
+    throw err;
+  }
+};
+
+// -------------------------------------------------------------------
+// リクエストID とアクセスログ
+// X-Request-Id が付いていれば引き継ぎ (形式が不正なら振り直す)、レスポンスヘッダーでも返す
+// -------------------------------------------------------------------
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+// 監視系のエンドポイントはポーリングされるため debug レベルで記録する
+const QUIET_ROUTES = new Set(['/api/health', '/api/health/live', '/api/metrics']);
+
+app.use((req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  const context = { requestId, upstream: [] };
+  const startedAt = performance.now();
+  res.setHeader('X-Request-Id', requestId);
+
+  res.once('close', () => {
+    const durationMs = performance.now() - startedAt;
+    // ルートに一致しなかったリクエスト (静的ファイル・404) はラベルの種類が増えないようまとめる
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    // 応答を返し切る前にクライアントが切断した場合は 499 として扱う
+    const status = res.writableFinished ? res.statusCode : 499;
+    httpRequestsTotal.inc({ method: req.method, route, status });
+    httpRequestDuration.observe({ method: req.method, route }, durationMs / 1000);
+
+    const level = status >= 500 ? 'error' : QUIET_ROUTES.has(route) ? 'debug' : 'info';
+    requestContext.run(context, () => log(level, 'request', {
+      method: req.method,
+      route,
+      path: req.path,
+      status,
+      durationMs: Math.round(durationMs),
+      cache: res.getHeader('X-Cache'),
+      upstream: context.upstream.length > 0 ? context.upstream : undefined,
+    }));
+  });
+
+  requestContext.run(context, next);
+});
+
 // 本番環境で静的ファイルを配信
 if (process.env.NODE_ENV === 'production') {
   app.use(express.static(path.join(__dirname, '../dist')));
@@ -16,79 +245,815 @@ if (process.env.NODE_ENV === 'production') {
 // CORS設定
 app.use((req, res, next) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Range, X-Request-Id');
+  res.setHeader('Access-Control-Expose-Headers', 'Content-Range, Content-Length, Accept-Ranges, X-Request-Id');
   next();
 });
 
-// ヘルスチェック用エンドポイント
-app.get('/api/health', (req, res) => {
-  res.status(200).json({ status: 'ok', timestamp: Date.now() });
+// -------------------------------------------------------------------
+// 共有YouTubeクライアント
+// Innertube.create は毎回ハンドシェイクが走るため、1つのセッションを使い回し、
+// 一定時間が経過したら次のリクエスト時に作り直す
+// -------------------------------------------------------------------
+const YOUTUBE_SESSION_TTL = 30 * 60 * 1000; // 30 minutes
+
+let youtubeSession = null;
+
+const getYoutube = () => {
+  const now = Date.now();
+  if (!youtubeSession || now - youtubeSession.createdAt > YOUTUBE_SESSION_TTL) {
+    const client = Innertube.create({ 
+      lang: "ja", 
+      location: "JP",
+      fetch: createTrackedFetch('youtubei'),
+    });
+    youtubeSession = { client, createdAt: now };
+    // 作成に失敗したセッションは保持せず、次のリクエストで再作成する
+    client.catch((err) => {
+      log('error', 'Failed to create Innertube session', { error: serializeError(err) });
+      if (youtubeSession?.client === client) youtubeSession = null;
+    });
+  }
+  return youtubeSession.client;
+};
+
+// -------------------------------------------------------------------
+// レスポンスキャッシュ (LRU + TTL)
+// ルートとクエリの組み合わせごとにJSONレスポンスをメモリに保持する
+// -------------------------------------------------------------------
+const CACHE_MAX_ENTRIES = 500;
+const CACHE_MAX_BYTES = 64 * 1024 * 1024; // 64MB
+
+const createResponseCache = ({ maxEntries, maxBytes }) => {
+  // Map は挿入順を保持するので、先頭が最も古く使われたエントリになる
+  const entries = new Map();
+  const routeStats = new Map();
+  let totalBytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const recordStat = (route, field) => {
+    if (!routeStats.has(route)) routeStats.set(route, { hits: 0, misses: 0 });
+    routeStats.get(route)[field]++;
+  };
+
+  const remove = (key) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.size;
+  };
+
+  return {
+    get: (key, route) => {
+      const entry = entries.get(key);
+      if (!entry || Date.now() > entry.expiry) {
+        if (entry) remove(key);
+        misses++;
+        recordStat(route, 'misses');
+        return null;
+      }
+      // 最近使われたエントリとして末尾に移動
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      recordStat(route, 'hits');
+      return entry;
+    },
+    set: (key, body, ttl) => {
+      const size = Buffer.byteLength(body);
+      if (size > maxBytes) return;
+      remove(key);
+      entries.set(key, { body, size, expiry: Date.now() + ttl });
+      totalBytes += size;
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        const oldestKey = entries.keys().next().value;
+        remove(oldestKey);
+        evictions++;
+      }
+    },
+    stats: () => {
+      const lookups = hits + misses;
+      return {
+        entries: entries.size,
+        bytes: totalBytes,
+        hits,
+        misses,
+        evictions,
+        hitRatio: lookups > 0 ? hits / lookups : 0,
+        routes: Object.fromEntries(routeStats),
+      };
+    },
+  };
+};
+
+const responseCache = createResponseCache({
+  maxEntries: CACHE_MAX_ENTRIES,
+  maxBytes: CACHE_MAX_BYTES,
+});
+
+// 200レスポンスのみキャッシュし、Cache-Control と X-Cache ヘッダーを付与するミドルウェア
+const withCache = (ttlSeconds) => (req, res, next) => {
+  const route = req.route?.path ?? req.path;
+  const query = new URLSearchParams(Object.entries(req.query).sort(([a], [b]) => a.localeCompare(b)));
+  const key = `${req.path}?${query.toString()}`;
+
+  const cached = responseCache.get(key, route);
+  if (cached) {
+    const remaining = Math.max(0, Math.floor((cached.expiry - Date.now()) / 1000));
+    res.setHeader('X-Cache', 'HIT');
+    res.setHeader('Cache-Control', `public, max-age=${remaining}`);
+    return res.type('application/json').send(cached.body);
+  }
+
+  res.setHeader('X-Cache', 'MISS');
+  res.json = (body) => {
+    const payload = JSON.stringify(body);
+    if (res.statusCode === 200) {
+      responseCache.set(key, payload, ttlSeconds * 1000);
+      res.setHeader('Cache-Control', `public, max-age=${ttlSeconds}`);
+    } else {
+      res.setHeader('Cache-Control', 'no-store');
+    }
+    return res.type('application/json').send(payload);
+  };
+  next();
+};
+
+// キャッシュ統計 (/api/cache/stats)
+app.get('/api/cache/stats', (req, res) => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json({ ...responseCache.stats(), thumbnails: thumbnailCache.stats() });
 });
 
-// YouTubeクライアントの作成ヘルパー
-const createYoutube = async () => {
-  return await Innertube.create({ 
-    lang: "ja", 
-    location: "JP",
+// -------------------------------------------------------------------
+// 継続トークン
+// youtubei.js のフィードが内部に持つ continuation をクライアント用の不透明なトークンに変換する。
+// サーバー側に状態を持たないため、Vercel のようなステートレス環境でも途中から再開できる
+// -------------------------------------------------------------------
+const getFeedContinuation = (feed) => {
+  if (!feed?.has_continuation) return null;
+  const headerItems = feed.page?.header_memo?.getType(YTNodes.ContinuationItem) ?? [];
+  const item = feed.memo?.getType(YTNodes.ContinuationItem)
+    .find(c => !headerItems.includes(c) && c.endpoint?.payload?.token);
+  return item?.endpoint.payload.token ?? null;
+};
+
+const encodeContinuation = (payload) => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+const decodeContinuation = (token) => {
+  try {
+    const payload = JSON.parse(Buffer.from(String(token), 'base64url').toString('utf8'));
+    return payload && typeof payload.c === 'string' ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+// トークンが壊れている、または別の条件 (クエリ・動画・チャンネル) のものだった場合に投げる
+class ContinuationError extends Error {
+  constructor(message = 'Invalid continuation token') {
+    super(message);
+    this.name = 'ContinuationError';
+    this.status = 400;
+  }
+}
+
+// -------------------------------------------------------------------
+// 上流プロバイダー レジストリ
+// 機能 (streams / related / channel-home / player-config) ごとに優先順のバックエンドを登録し、
+// タイムアウト・サーキットブレーカー・ヘルスプローブ付きで順番にフェイルオーバーする
+// -------------------------------------------------------------------
+const PROVIDER_FAILURE_THRESHOLD = 3; // 連続失敗でサーキットを開く回数
+const PROVIDER_COOLDOWN = 60 * 1000; // 開いたサーキットを再試行するまでの時間
+const PROVIDER_PROBE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const PROVIDER_RECENT_LIMIT = 50;
+
+// 動画が非公開・削除済みなど、バックエンドの障害ではない失敗はサーキットに数えない (ルートでは 404 にする)
+class ProviderRequestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = 404;
+  }
+}
+
+const runWithTimeout = async (fn, timeoutMs) => {
+  const controller = new AbortController();
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
   });
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const createProviderRegistry = ({ failureThreshold, cooldown }) => {
+  const capabilities = new Map();
+  const recent = [];
+
+  const recordRecent = (entry) => {
+    recent.unshift({ ...entry, at: new Date().toISOString() });
+    if (recent.length > PROVIDER_RECENT_LIMIT) recent.pop();
+  };
+
+  // closed: 通常 / open: 一定時間スキップ / half-open: 1回だけ試して結果で閉じるか開き直す
+  const isAvailable = (backend) => {
+    if (backend.circuit !== 'open') return true;
+    if (Date.now() - backend.openedAt < cooldown) return false;
+    backend.circuit = 'half-open';
+    return true;
+  };
+
+  const recordSuccess = (backend, latencyMs) => {
+    backend.circuit = 'closed';
+    backend.consecutiveFailures = 0;
+    backend.successes++;
+    backend.lastLatencyMs = latencyMs;
+    backend.lastSuccessAt = Date.now();
+  };
+
+  const recordFailure = (backend, err) => {
+    backend.failures++;
+    backend.consecutiveFailures++;
+    backend.lastError = err.message;
+    backend.lastFailureAt = Date.now();
+    if (backend.circuit === 'half-open' || backend.consecutiveFailures >= failureThreshold) {
+      backend.circuit = 'open';
+      backend.openedAt = Date.now();
+    }
+  };
+
+  return {
+    register: (capability, backends) => {
+      capabilities.set(capability, backends.map(backend => ({
+        timeout: 10000,
+        ...backend,
+        circuit: 'closed',
+        consecutiveFailures: 0,
+        successes: 0,
+        failures: 0,
+        openedAt: 0,
+        lastError: null,
+        lastLatencyMs: null,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        healthy: null,
+        lastProbeAt: null,
+      })));
+    },
+    // 利用可能なバックエンドを順に試し、最初に成功した結果と提供元の名前を返す
+    call: async (capability, input) => {
+      const backends = capabilities.get(capability);
+      if (!backends) throw new Error(`Unknown provider capability: ${capability}`);
+
+      const errors = [];
+      for (const backend of backends) {
+        if (!isAvailable(backend)) {
+          errors.push(`${backend.name}: circuit open`);
+          continue;
+        }
+        const startedAt = Date.now();
+        try {
+          const data = await runWithTimeout((signal) => backend.run(input, signal), backend.timeout);
+          recordSuccess(backend, Date.now() - startedAt);
+          recordRecent({ capability, provider: backend.name, ok: true, latencyMs: Date.now() - startedAt });
+          return { data, provider: backend.name };
+        } catch (err) {
+          recordRecent({ capability, provider: backend.name, ok: false, latencyMs: Date.now() - startedAt, error: err.message });
+          if (err instanceof ProviderRequestError) {
+            // 障害ではないのでサーキットは閉じたまま (half-open なら復旧扱い)。
+            // 他のバックエンドで試しても同じ結果になり、その失敗を障害として数えてしまうのでここで打ち切る
+            recordSuccess(backend, Date.now() - startedAt);
+            throw new ProviderRequestError(`${backend.name}: ${err.message}`);
+          }
+          recordFailure(backend, err);
+          errors.push(`${backend.name}: ${err.message}`);
+        }
+      }
+      throw new Error(`All providers failed for ${capability} (${errors.join('; ')})`);
+    },
+    probe: async () => {
+      const probes = [...capabilities.values()].flat()
+        .filter(backend => backend.probe)
+        .map(async (backend) => {
+          try {
+            await runWithTimeout((signal) => backend.probe(signal), backend.timeout);
+            backend.healthy = true;
+            // プローブが通れば、クールダウンを待たずに次のリクエストで試す
+            if (backend.circuit === 'open') backend.openedAt = 0;
+          } catch (err) {
+            backend.healthy = false;
+            backend.lastError = err.message;
+            if (backend.circuit !== 'open') {
+              backend.circuit = 'open';
+              backend.openedAt = Date.now();
+            }
+          }
+          backend.lastProbeAt = Date.now();
+        });
+      await Promise.all(probes);
+    },
+    status: () => ({
+      capabilities: Object.fromEntries([...capabilities].map(([capability, backends]) => [
+        capability,
+        backends.map(({ run, probe, ...backend }) => ({ ...backend, probed: !!probe })),
+      ])),
+      recent: [...recent],
+    }),
+  };
+};
+
+const providers = createProviderRegistry({
+  failureThreshold: PROVIDER_FAILURE_THRESHOLD,
+  cooldown: PROVIDER_COOLDOWN,
+});
+
+// URL テンプレート ({id} を置換) から JSON を取得する HTTP バックエンドを作る
+const createHttpProvider = (template, { timeout = 10000, parse = (data) => data } = {}) => {
+  const origin = new URL(template.replace('{id}', '')).origin;
+  const trackedFetch = createTrackedFetch(new URL(origin).host);
+  return {
+    name: new URL(origin).host,
+    timeout,
+    run: async (id, signal) => {
+      const response = await trackedFetch(template.replace('{id}', encodeURIComponent(id ?? '')), { signal });
+      if (response.status === 404) throw new ProviderRequestError(`Not found (${response.status})`);
+      if (!response.ok) throw new Error(`Upstream returned ${response.status}`);
+      // raw.githubusercontent.com は text/plain で返すため、Content-Type ではなく中身で判定する
+      let data;
+      try {
+        data = JSON.parse(await response.text());
+      } catch {
+        throw new Error('Upstream returned a non-JSON response');
+      }
+      return parse(data, id);
+    },
+    // ホストが応答するか (5xx でないか) だけを確認する
+    probe: async (signal) => {
+      const response = await trackedFetch(origin, { method: 'HEAD', signal });
+      if (response.status >= 500) throw new Error(`Probe returned ${response.status}`);
+    },
+  };
+};
+
+// カンマ区切りの環境変数でバックエンドの URL テンプレートを上書きできる (空文字で無効化)
+const getProviderTemplates = (envName, defaults) => {
+  const value = process.env[envName];
+  if (value === undefined) return defaults;
+  return value.split(',').map(t => t.trim()).filter(Boolean);
 };
 
+// プロバイダー状態 (/api/providers/status)。?probe=1 でヘルスプローブをその場で実行する
+app.get('/api/providers/status', async (req, res) => {
+  if (req.query.probe === '1') await providers.probe();
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json(providers.status());
+});
+
 // -------------------------------------------------------------------
-// ストリーム Proxy API (/api/stream/:videoId)
+// ストリーム解決 API (/api/stream/:videoId)
+// youtubei.js のストリーミングデータから復号済みのフォーマット一覧を生成する。
+// 取得に失敗した場合のみ外部ホストにフォールバックする (STREAM_FALLBACK_URL を空にすると無効)
 // -------------------------------------------------------------------
+const STREAM_CLIENTS = ['WEB', 'iOS', 'ANDROID'];
+const STREAM_FALLBACK_URLS = getProviderTemplates('STREAM_FALLBACK_URL', ['https://siawaseok.duckdns.org/api/stream/{id}/type2']);
+// 動画自体の問題 (削除・非公開など) を示す playability status
+const UNPLAYABLE_STATUSES = ['ERROR', 'UNPLAYABLE'];
+const STREAM_DATA_TTL = 30 * 60 * 1000; // 30 minutes (URLs themselves expire after ~6 hours)
+const STREAM_DATA_MAX_ENTRIES = 500;
+
+// videoId -> { data, expiry }。Map の挿入順を LRU の順序として使う
+const streamDataCache = new Map();
+
+const buildStreamData = (info, player) => {
+  const streamingData = info.streaming_data;
+  const toFormats = (formats) => (formats || []).map(format => {
+    try {
+      return toStreamFormat(format, format.decipher(player));
+    } catch (e) {
+      return null;
+    }
+  }).filter(Boolean);
+
+  const combinedFormats = toFormats(streamingData.formats).sort(byQualityDesc);
+  const adaptiveFormats = toFormats(streamingData.adaptive_formats);
+  if (combinedFormats.length === 0 && adaptiveFormats.length === 0 && !streamingData.hls_manifest_url) {
+    throw new Error('No playable formats');
+  }
+
+  const audioOnlyFormat = pickBestAudio(adaptiveFormats.filter(f => f.hasAudio && !f.hasVideo));
+  const separateVideo = adaptiveFormats
+    .filter(f => f.hasVideo && !f.hasAudio && f.container === 'mp4' && (f.height || 0) <= 1080)
+    .sort(byQualityDesc)[0];
+
+  return {
+    source: 'native',
+    title: info.basic_info?.title ?? null,
+    streamingUrl: streamingData.hls_manifest_url ?? null,
+    streamType: streamingData.hls_manifest_url ? 'hls' : 'mp4',
+    combinedFormats,
+    adaptiveFormats,
+    audioOnlyFormat,
+    separate1080p: separateVideo ? { video: separateVideo, audio: audioOnlyFormat } : null,
+    expiresAt: streamingData.expires ? new Date(streamingData.expires).getTime() : undefined,
+  };
+};
+
+const resolveNativeStreamData = async (videoId) => {
+  const youtube = await getYoutube();
+  let lastError = null;
+  for (const client of STREAM_CLIENTS) {
+    try {
+      const info = await youtube.getBasicInfo(videoId, client);
+      if (info.playability_status?.status !== 'OK' || !info.streaming_data) {
+        const reason = info.playability_status?.reason || 'No streaming data';
+        lastError = UNPLAYABLE_STATUSES.includes(info.playability_status?.status) ? new ProviderRequestError(reason) : new Error(reason);
+        continue;
+      }
+      return buildStreamData(info, youtube.session.player);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError ?? new Error('Failed to resolve streams');
+};
+
+providers.register('streams', [
+  {
+    name: 'youtubei',
+    timeout: 20000,
+    run: (videoId) => resolveNativeStreamData(videoId),
+    probe: async () => { await getYoutube(); },
+  },
+  ...STREAM_FALLBACK_URLS.map(template => createHttpProvider(template, { timeout: 15000, parse: toFallbackStreamData })),
+]);
+
+const resolveStreamData = async (videoId) => {
+  const cached = streamDataCache.get(videoId);
+  if (cached && cached.expiry > Date.now()) {
+    // 最近使われたエントリとして末尾に移動
+    streamDataCache.delete(videoId);
+    streamDataCache.set(videoId, cached);
+    return cached.data;
+  }
+
+  const result = await providers.call('streams', videoId);
+  if (result.provider !== 'youtubei') log('warn', 'Stream served by fallback provider', { videoId, provider: result.provider });
+  const data = { ...result.data, provider: result.provider };
+
+  const expiry = Math.min(Date.now() + STREAM_DATA_TTL, data.expiresAt ?? Infinity);
+  streamDataCache.delete(videoId);
+  streamDataCache.set(videoId, { data, expiry });
+  // 期限切れのエントリを掃除し、それでも上限を超えていれば最も古く使われたものから捨てる
+  for (const [key, entry] of streamDataCache) {
+    if (entry.expiry <= Date.now()) streamDataCache.delete(key);
+  }
+  while (streamDataCache.size > STREAM_DATA_MAX_ENTRIES) {
+    streamDataCache.delete(streamDataCache.keys().next().value);
+  }
+  return data;
+};
+
 app.get('/api/stream/:videoId', async (req, res) => {
   try {
     const { videoId } = req.params;
     if (!videoId) return res.status(400).json({ error: "Missing video id" });
 
-    // ターゲットURL
-    const targetUrl = `https://siawaseok.duckdns.org/api/stream/${videoId}/type2`;
+    const data = await resolveStreamData(videoId);
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Provider', data.provider);
+    res.status(200).json({
+      ...data,
+      dashManifestUrl: getDashAdaptationSets(data).length > 0 ? `/api/dash/${encodeURIComponent(videoId)}` : null,
+    });
+
+  } catch (err) {
+    logError('/api/stream', err);
+    res.status(err instanceof ProviderRequestError ? err.status : 500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// メディア中継 API (/api/media/:videoId/:itag)
+// googlevideo の URL は取得元の IP に紐付き CORS も許可されないため、サーバー経由で配信する。
+// Range ヘッダーをそのまま転送し、URL が失効していた場合はストリームを解決し直して1回だけ再試行する
+// -------------------------------------------------------------------
+const MEDIA_PASSTHROUGH_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
 
-    // 外部APIから取得
-    const response = await fetch(targetUrl);
+const findStreamFormat = (data, itag) => {
+  return [...data.combinedFormats, ...data.adaptiveFormats].find(f => f.itag === itag) ?? null;
+};
 
-    // ステータスコードを転送
-    res.status(response.status);
+const fetchMediaUpstream = createTrackedFetch('googlevideo');
 
-    // ヘッダーを転送
-    response.headers.forEach((val, key) => {
-      res.setHeader(key, val);
-    });
+const fetchMedia = (url, range, signal) => {
+  return fetchMediaUpstream(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Referer': 'https://www.youtube.com/',
+      ...(range ? { 'Range': range } : {}),
+    },
+    signal,
+  });
+};
 
-    if (!response.body) {
-      return res.end();
+app.get('/api/media/:videoId/:itag', async (req, res) => {
+  // クライアントが切断したら上流への接続も打ち切る
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    const { videoId } = req.params;
+    const itag = Number(req.params.itag);
+    if (!videoId || !Number.isInteger(itag)) return res.status(400).json({ error: "Missing video id or itag" });
+
+    const range = req.headers.range;
+    let format = findStreamFormat(await resolveStreamData(videoId), itag);
+    if (!format) return res.status(404).json({ error: "Format not found" });
+
+    let upstream = await fetchMedia(format.url, range, controller.signal);
+    if (upstream.status === 403 || upstream.status === 410) {
+      // 署名付き URL の期限切れ。キャッシュを捨てて解決し直す
+      await upstream.body?.cancel();
+      streamDataCache.delete(videoId);
+      format = findStreamFormat(await resolveStreamData(videoId), itag);
+      if (!format) return res.status(404).json({ error: "Format not found" });
+      upstream = await fetchMedia(format.url, range, controller.signal);
+    }
+
+    if (!upstream.ok) {
+      await upstream.body?.cancel();
+      if (upstream.status === 416) {
+        const contentRange = upstream.headers.get('content-range');
+        if (contentRange) res.setHeader('Content-Range', contentRange);
+      }
+      return res.status(upstream.status).json({ error: "Failed to fetch media" });
     }
 
-    // @ts-ignore
-    const reader = response.body.getReader();
+    res.status(upstream.status);
+    for (const name of MEDIA_PASSTHROUGH_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) res.setHeader(name, value);
+    }
+    if (!upstream.headers.get('content-type') && format.mimeType) res.setHeader('Content-Type', format.mimeType.split(';')[0]);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      res.write(value);
+    if (req.method === 'HEAD' || !upstream.body) {
+      await upstream.body?.cancel();
+      return res.end();
     }
-    res.end();
+    Readable.fromWeb(upstream.body).on('error', (err) => {
+      if (!controller.signal.aborted) log('warn', 'Media relay interrupted', { error: err.message });
+      res.destroy();
+    }).pipe(res);
 
   } catch (err) {
-    console.error('Error in /api/stream:', err);
-    if (!res.headersSent) {
-        res.status(500).json({ error: err.message });
-    } else {
-        res.end();
+    if (controller.signal.aborted) return;
+    logError('/api/media', err);
+    if (res.headersSent) return res.destroy();
+    res.status(err instanceof ProviderRequestError ? err.status : 500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// DASH マニフェスト API (/api/dash/:videoId)
+// アダプティブフォーマットから MPEG-DASH (isoff-on-demand) の MPD を生成する。
+// 各 Representation の BaseURL はメディア中継 API を指すため、URL の期限切れもサーバー側で吸収される
+// -------------------------------------------------------------------
+const escapeXml = (value) => String(value)
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// MSE はアダプテーションセット内でのコーデック切り替えを保証しないため、MIME タイプとコーデック系統ごとに分ける
+const getDashAdaptationSets = (data) => {
+  const groups = new Map();
+  for (const format of data.adaptiveFormats) {
+    const codecs = getCodecs(format.mimeType);
+    if (!format.itag || !codecs || !format.initRange || !format.indexRange) continue;
+    // 吹き替え音声は元の音声と同時に切り替わらないよう除外する
+    if (!format.hasVideo && !format.isOriginalAudio) continue;
+    const mimeType = format.mimeType.split(';')[0];
+    const key = `${mimeType};${codecs.split('.')[0]}`;
+    if (!groups.has(key)) groups.set(key, { mimeType, contentType: format.hasVideo ? 'video' : 'audio', formats: [] });
+    groups.get(key).formats.push(format);
+  }
+
+  const sets = [...groups.values()];
+  // 映像と音声の両方が揃わない場合は DASH 再生できない
+  if (!sets.some(set => set.contentType === 'video') || !sets.some(set => set.contentType === 'audio')) return [];
+  return sets;
+};
+
+const buildDashManifest = (videoId, data) => {
+  const sets = getDashAdaptationSets(data);
+  if (sets.length === 0) return null;
+
+  const durationMs = Math.max(...data.adaptiveFormats.map(f => Number(f.approxDurationMs) || 0));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-on-demand:2011" type="static" minBufferTime="PT1.5S" mediaPresentationDuration="PT${(durationMs / 1000).toFixed(3)}S">`,
+    '  <Period>',
+  ];
+  sets.forEach((set, index) => {
+    lines.push(`    <AdaptationSet id="${index}" contentType="${set.contentType}" mimeType="${escapeXml(set.mimeType)}" subsegmentAlignment="true" subsegmentStartsWithSAP="1">`);
+    for (const format of [...set.formats].sort(byQualityDesc)) {
+      const attributes = [
+        `id="${format.itag}"`,
+        `codecs="${escapeXml(getCodecs(format.mimeType))}"`,
+        `bandwidth="${format.bitrate || 0}"`,
+        ...(format.hasVideo ? [`width="${format.width}"`, `height="${format.height}"`, `frameRate="${format.fps || 30}"`] : []),
+      ];
+      lines.push(
+        `      <Representation ${attributes.join(' ')}>`,
+        `        <BaseURL>/api/media/${escapeXml(encodeURIComponent(videoId))}/${format.itag}</BaseURL>`,
+        `        <SegmentBase indexRange="${format.indexRange.start}-${format.indexRange.end}">`,
+        `          <Initialization range="${format.initRange.start}-${format.initRange.end}"/>`,
+        '        </SegmentBase>',
+        '      </Representation>',
+      );
     }
+    lines.push('    </AdaptationSet>');
+  });
+  lines.push('  </Period>', '</MPD>');
+  return lines.join('\n');
+};
+
+app.get('/api/dash/:videoId', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    if (!videoId) return res.status(400).json({ error: "Missing video id" });
+
+    const manifest = buildDashManifest(videoId, await resolveStreamData(videoId));
+    if (!manifest) return res.status(404).json({ error: "No DASH-compatible formats" });
+
+    res.setHeader('Content-Type', 'application/dash+xml');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.status(200).send(manifest);
+
+  } catch (err) {
+    logError('/api/dash', err);
+    res.status(err instanceof ProviderRequestError ? err.status : 500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// ダウンロード API (/api/download/:videoId?quality=&format=)
+// 選択した画質の映像と音声を ffmpeg でリマックス (再エンコードなし) し、1つのファイルとして返す。
+// format=m4a / opus の場合は音声のみを取り出す
+// -------------------------------------------------------------------
+const FFMPEG_PATH = ffmpegPath && fs.existsSync(ffmpegPath) ? ffmpegPath : 'ffmpeg';
+
+const buildDownloadFilename = (title, videoId, label, extension) => {
+  const base = (title || videoId).replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim().slice(0, 150) || videoId;
+  return `${base}${label ? ` (${label})` : ''}.${extension}`;
+};
+
+app.get('/api/download/:videoId', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const { quality, format = 'mp4' } = req.query;
+    if (!videoId) return res.status(400).json({ error: "Missing video id" });
+
+    // Object.prototype のキー (constructor など) を形式として受け付けないよう、自身のキーだけを見る
+    const target = Object.hasOwn(DOWNLOAD_FORMATS, format) ? DOWNLOAD_FORMATS[format] : null;
+    if (!target) return res.status(400).json({ error: `Unsupported format: ${format}` });
+    const height = quality ? parseInt(quality, 10) : null;
+    if (quality && !height) return res.status(400).json({ error: `Invalid quality: ${quality}` });
+
+    const data = await resolveStreamData(videoId);
+    const inputs = selectDownloadInputs(data, target, height);
+    if (!inputs) return res.status(404).json({ error: "Requested format is not available" });
+
+    const sources = [inputs.combined, inputs.video, inputs.audio].filter(Boolean);
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      ...sources.flatMap(f => ['-user_agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36', '-i', f.url]),
+      ...(inputs.video ? ['-map', '0:v:0', '-map', '1:a:0'] : []),
+      ...(target.hasVideo ? [] : ['-vn']),
+      '-c', 'copy',
+      // 標準出力はシークできないため、moov を先頭に置いたフラグメント MP4 で書き出す
+      ...(target.container === 'mp4' ? ['-movflags', 'frag_keyframe+empty_moov'] : []),
+      '-f', target.muxer, 'pipe:1',
+    ];
+
+    const videoFormat = inputs.video ?? inputs.combined;
+    const filename = buildDownloadFilename(data.title, videoId, videoFormat ? `${getFormatHeight(videoFormat)}p` : null, format);
+    const ffmpeg = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stderr = '';
+    ffmpeg.stderr.on('data', (chunk) => { stderr = (stderr + chunk).slice(-2000); });
+    res.on('close', () => {
+      if (ffmpeg.exitCode === null) ffmpeg.kill('SIGKILL');
+    });
+
+    // 最初の出力が届いてからヘッダーを送り、起動直後の失敗は JSON のエラーとして返す
+    ffmpeg.stdout.once('data', (chunk) => {
+      res.setHeader('Content-Type', target.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${videoId}.${format}"; filename*=UTF-8''${encodeURIComponent(filename)}`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200);
+      res.write(chunk);
+      ffmpeg.stdout.pipe(res);
+    });
+
+    ffmpeg.on('error', (err) => {
+      logError('/api/download', err, { stage: 'ffmpeg' });
+      if (!res.headersSent) res.status(500).json({ error: `ffmpeg could not be started: ${err.message}` });
+    });
+    ffmpeg.on('close', (code) => {
+      if (res.writableEnded || res.destroyed) return;
+      if (code !== 0) log('error', 'ffmpeg exited with an error', { videoId, code, stderr: stderr.trim() });
+      if (res.headersSent) res.destroy();
+      else res.status(502).json({ error: "Failed to remux media" });
+    });
+
+  } catch (err) {
+    logError('/api/download', err);
+    res.status(err instanceof ProviderRequestError ? err.status : 500).json({ error: err.message });
   }
 });
 
 // -------------------------------------------------------------------
 // 動画詳細 API (/api/video)
 // -------------------------------------------------------------------
-app.get('/api/video', async (req, res) => {
+// "1:02:03" / "12:34" を秒に変換する
+const parseTimestamp = (text) => {
+  const parts = String(text).trim().split(':').map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some(n => !Number.isInteger(n) || n < 0)) return null;
+  return parts.reduce((total, n) => total * 60 + n, 0);
+};
+
+// チャプターは説明欄の「チャプター」パネル (マクロマーカー) から取り、無ければ説明文のタイムスタンプ行を読む
+const extractMacroMarkerChapters = (info) => {
+  const panels = info.page?.[1]?.engagement_panels || [];
+  const markerPanels = panels.filter(panel => panel?.content?.type === 'MacroMarkersList');
+  // 自動生成チャプター (auto-chapters) よりも投稿者が書いたものを優先する
+  const panel = markerPanels.find(p => String(p.target_id || p.panel_identifier || '').includes('description-chapters')) || markerPanels[0];
+  if (!panel) return [];
+
+  return panel.content.contents
+    .filter(item => item?.type === 'MacroMarkersListItem')
+    .map(item => {
+      const start = item.on_tap_endpoint?.payload?.startTimeSeconds ?? parseTimestamp(item.time_description?.text);
+      return {
+        title: item.title?.text ?? '',
+        startSeconds: Number(start),
+        thumbnailUrl: item.thumbnail?.[0]?.url,
+      };
+    })
+    .filter(chapter => chapter.title && Number.isFinite(chapter.startSeconds));
+};
+
+const DESCRIPTION_CHAPTER_LINE = /^\s*(?:[-•・*]\s*)?(?:\(|\[)?((?:\d{1,2}:)?\d{1,2}:\d{2})(?:\)|\])?\s*[-–—:|]?\s*(.+?)\s*$/;
+const DESCRIPTION_CHAPTER_LINE_TRAILING = /^\s*(.+?)\s*[-–—:|]?\s*(?:\(|\[)?((?:\d{1,2}:)?\d{1,2}:\d{2})(?:\)|\])?\s*$/;
+
+// YouTube と同じく、0:00 から始まり時刻が増え続ける 2 行以上のタイムスタンプ列だけをチャプターとみなす
+const extractDescriptionChapters = (description, durationSeconds) => {
+  const chapters = [];
+  for (const line of String(description || '').split('\n')) {
+    let match = line.match(DESCRIPTION_CHAPTER_LINE);
+    let time = match?.[1];
+    let title = match?.[2];
+    if (!match) {
+      match = line.match(DESCRIPTION_CHAPTER_LINE_TRAILING);
+      time = match?.[2];
+      title = match?.[1];
+    }
+    if (!match) continue;
+    const startSeconds = parseTimestamp(time);
+    if (startSeconds === null) continue;
+    if (durationSeconds && startSeconds >= durationSeconds) continue;
+    const last = chapters[chapters.length - 1];
+    if (last && startSeconds <= last.startSeconds) continue;
+    chapters.push({ title, startSeconds });
+  }
+  if (chapters.length < 2 || chapters[0].startSeconds !== 0) return [];
+  return chapters;
+};
+
+const extractChapters = (info) => {
   try {
-    const youtube = await createYoutube();
-    const { id } = req.query;
-    if (!id) return res.status(400).json({ error: "Missing video id" });
+    const chapters = extractMacroMarkerChapters(info);
+    if (chapters.length > 0) return chapters;
+  } catch (e) {
+    log('warn', 'Failed to parse macro markers', { error: e.message });
+  }
+  return extractDescriptionChapters(info.secondary_info?.description?.text, info.basic_info?.duration);
+};
 
+// 動画情報に関連動画 (最大50件まで継続取得) とチャプターを加えて返す
+const fetchVideoInfo = async (id) => {
+    const youtube = await getYoutube();
     const info = await youtube.getInfo(id);
 
     // 関連動画取得ロジック
@@ -133,182 +1098,581 @@ app.get('/api/video', async (req, res) => {
       info.watch_next_feed = relatedVideos;
 
     } catch (e) {
-      console.warn('[API] Continuation failed, returning basic info:', e.message);
+      log('warn', 'Continuation failed, returning basic info', { error: e.message });
     }
 
     if (info.secondary_info) info.secondary_info.watch_next_feed = [];
     info.related_videos = [];
     info.related = [];
+    info.chapters = extractChapters(info);
+
+    return info;
+};
+
+app.get('/api/video', withCache(600), async (req, res) => {
+  try {
+    const { id } = req.query;
+    if (!id) return res.status(400).json({ error: "Missing video id" });
 
+    const info = await fetchVideoInfo(id);
     res.status(200).json(info);
     
   } catch (err) {
-    console.error('Error in /api/video:', err);
+    logError('/api/video', err);
     res.status(500).json({ error: err.message });
   }
 });
 
 // -------------------------------------------------------------------
-// 検索 API (/api/search)
+// 字幕 API (/api/captions/:videoId, /api/captions/:videoId/:lang.vtt)
+// 字幕トラックの一覧を返し、timedtext (json3) を WebVTT に変換して配信する。
+// 同じ言語に手動字幕と自動生成字幕がある場合は ?kind=asr で自動生成の方を選ぶ
 // -------------------------------------------------------------------
-app.get('/api/search', async (req, res) => {
-  try {
-    const youtube = await createYoutube();
-    const { q: query, page = '1' } = req.query;
-    if (!query) return res.status(400).json({ error: "Missing search query" });
+const CAPTION_TRACKS_TTL = 30 * 60 * 1000;
+const CAPTION_FETCH_TIMEOUT = 10000;
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const CAPTION_LANG_PATTERN = /^[A-Za-z0-9-]{1,20}$/;
+
+const captionTracksCache = new Map();
+
+class CaptionError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'CaptionError';
+    this.status = status;
+  }
+}
 
-    const targetPage = parseInt(page);
-    const ITEMS_PER_PAGE = 50;
-    
-    let search = await youtube.search(query);
-    
-    let allVideos = [...(search.videos || [])];
-    let allShorts = [...(search.shorts || [])];
-    let allChannels = [...(search.channels || [])];
-    let allPlaylists = [...(search.playlists || [])];
+const getCaptionTracks = async (videoId) => {
+  const cached = captionTracksCache.get(videoId);
+  if (cached && cached.expiry > Date.now()) return cached.tracks;
+
+  const youtube = await getYoutube();
+  const info = await youtube.getBasicInfo(videoId);
+  const tracks = (info.captions?.caption_tracks || [])
+    .filter(track => track.base_url && track.language_code)
+    .map(track => ({
+      languageCode: track.language_code,
+      name: track.name?.text || track.language_code,
+      kind: track.kind === 'asr' ? 'asr' : 'standard',
+      baseUrl: track.base_url,
+    }));
+
+  captionTracksCache.set(videoId, { tracks, expiry: Date.now() + CAPTION_TRACKS_TTL });
+  for (const [key, entry] of captionTracksCache) {
+    if (entry.expiry <= Date.now()) captionTracksCache.delete(key);
+  }
+  return tracks;
+};
 
-    const requiredCount = targetPage * ITEMS_PER_PAGE;
-    let continuationAttempts = 0;
-    const MAX_ATTEMPTS = 20;
+// kind を省略した場合は手動字幕を優先する
+const findCaptionTrack = (tracks, lang, kind) => {
+  const candidates = tracks.filter(track => track.languageCode.toLowerCase() === lang.toLowerCase());
+  if (kind) return candidates.find(track => track.kind === kind);
+  return candidates.find(track => track.kind === 'standard') || candidates[0];
+};
 
-    while (allVideos.length < requiredCount && search.has_continuation && continuationAttempts < MAX_ATTEMPTS) {
-        search = await search.getContinuation();
-        if (search.videos) allVideos.push(...search.videos);
-        if (search.shorts) allShorts.push(...search.shorts);
-        if (search.channels) allChannels.push(...search.channels);
-        if (search.playlists) allPlaylists.push(...search.playlists);
-        continuationAttempts++;
-    }
+// json3 のイベントを { start, end, text } (秒) の配列にする。
+// 自動生成字幕は表示区間が次の行と重なるため、次の行の開始で打ち切る
+const parseJson3Cues = (data) => {
+  const cues = (data?.events || [])
+    .filter(event => Array.isArray(event.segs))
+    .map(event => ({
+      start: (event.tStartMs ?? 0) / 1000,
+      end: ((event.tStartMs ?? 0) + (event.dDurationMs ?? 0)) / 1000,
+      text: event.segs.map(seg => seg.utf8 ?? '').join('').replace(/\u200b/g, '').trim(),
+    }))
+    .filter(cue => cue.text);
+
+  return cues.map((cue, i) => {
+    const next = cues[i + 1];
+    const end = next && next.start > cue.start ? Math.min(cue.end, next.start) : cue.end;
+    return { ...cue, end: Math.max(end, cue.start) };
+  });
+};
+
+const fetchCaptionUpstream = createTrackedFetch('timedtext');
+
+const fetchCaptionCues = async (track) => {
+  const url = new URL(track.baseUrl);
+  url.searchParams.set('fmt', 'json3');
+  const text = await runWithTimeout(async (signal) => {
+    const response = await fetchCaptionUpstream(url, { signal });
+    if (!response.ok) throw new CaptionError(502, `Upstream returned ${response.status}`);
+    return response.text();
+  }, CAPTION_FETCH_TIMEOUT);
+  // 上流が空のレスポンスを返すことがある (PO トークンが必要な場合など)
+  if (!text) throw new CaptionError(502, 'Upstream returned an empty caption track');
+  try {
+    return parseJson3Cues(JSON.parse(text));
+  } catch {
+    throw new CaptionError(502, 'Upstream returned an invalid caption track');
+  }
+};
+
+const formatVttTimestamp = (seconds) => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(ms % 1000).padStart(3, '0')}`;
+};
 
-    const startIndex = (targetPage - 1) * ITEMS_PER_PAGE;
-    const endIndex = startIndex + ITEMS_PER_PAGE;
+const escapeVttText = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 
-    const pagedVideos = allVideos.slice(startIndex, endIndex);
-    const pagedShorts = targetPage === 1 ? allShorts : [];
-    const pagedChannels = targetPage === 1 ? allChannels : [];
-    const pagedPlaylists = targetPage === 1 ? allPlaylists : [];
+const toWebVtt = (cues, lang) => [
+  'WEBVTT',
+  `Language: ${lang}`,
+  '',
+  ...cues.map(cue => `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}\n${escapeVttText(cue.text)}\n`),
+].join('\n');
 
-    const hasMore = allVideos.length > endIndex || search.has_continuation;
+app.get('/api/captions/:videoId', withCache(1800), async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    if (!VIDEO_ID_PATTERN.test(videoId)) return res.status(400).json({ error: "Invalid video id" });
 
+    const tracks = await getCaptionTracks(videoId);
     res.status(200).json({
-        videos: pagedVideos,
-        shorts: pagedShorts,
-        channels: pagedChannels,
-        playlists: pagedPlaylists,
-        nextPageToken: hasMore ? String(targetPage + 1) : undefined
+      tracks: tracks.map(({ languageCode, name, kind }) => ({
+        languageCode,
+        name,
+        kind,
+        url: `/api/captions/${videoId}/${encodeURIComponent(languageCode)}.vtt${kind === 'asr' ? '?kind=asr' : ''}`,
+      })),
     });
-  } catch (err) { 
-      console.error('Error in /api/search:', err); 
-      res.status(500).json({ error: err.message }); 
+  } catch (err) {
+    logError('/api/captions', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get('/api/captions/:videoId/:lang.vtt', async (req, res) => {
+  try {
+    const { videoId, lang } = req.params;
+    const kind = req.query.kind;
+    if (!VIDEO_ID_PATTERN.test(videoId)) return res.status(400).json({ error: "Invalid video id" });
+    if (!CAPTION_LANG_PATTERN.test(lang)) return res.status(400).json({ error: "Invalid language" });
+    if (kind !== undefined && kind !== 'asr' && kind !== 'standard') return res.status(400).json({ error: "Invalid kind" });
+
+    const track = findCaptionTrack(await getCaptionTracks(videoId), lang, kind);
+    if (!track) return res.status(404).json({ error: "Caption track not found" });
+
+    const cues = await fetchCaptionCues(track);
+    res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.status(200).send(toWebVtt(cues, track.languageCode));
+  } catch (err) {
+    logError('/api/captions/:videoId/:lang.vtt', err);
+    res.status(err instanceof CaptionError ? err.status : 500).json({ error: err.message });
   }
 });
 
 // -------------------------------------------------------------------
-// コメント API (/api/comments)
+// 文字起こし API (/api/transcript/:videoId?lang=&kind=)
+// 字幕トラックの本文を { start, end, text } の行にして返す。
+// 言語を指定しない場合に字幕を取得できなければ、youtubei.js の文字起こしパネル (get_transcript) から組み立てる
 // -------------------------------------------------------------------
-app.get('/api/comments', async (req, res) => {
+const fetchYoutubeiTranscript = async (videoId) => {
+  const youtube = await getYoutube();
+  const info = await youtube.getInfo(videoId);
+  const transcriptInfo = await info.getTranscript();
+  const segments = (transcriptInfo.transcript?.content?.body?.initial_segments || [])
+    .filter(segment => segment.type === 'TranscriptSegment')
+    .map(segment => ({
+      start: Number(segment.start_ms) / 1000,
+      end: Number(segment.end_ms) / 1000,
+      text: segment.snippet?.text?.trim() ?? '',
+    }))
+    .filter(segment => segment.text && Number.isFinite(segment.start));
+  return { languageCode: null, kind: null, segments };
+};
+
+app.get('/api/transcript/:videoId', withCache(1800), async (req, res) => {
   try {
-    const youtube = await createYoutube();
-    const { id } = req.query;
-    if (!id) return res.status(400).json({ error: "Missing video id" });
-    
-    const limit = 300;
-    let commentsSection = await youtube.getComments(id);
-    let allComments = commentsSection.contents || [];
-    
-    let attempts = 0;
-    while (allComments.length < limit && commentsSection.has_continuation && attempts < 5) {
-      commentsSection = await commentsSection.getContinuation();
-      if (commentsSection.contents) {
-        allComments = allComments.concat(commentsSection.contents);
+    const { videoId } = req.params;
+    const { lang, kind } = req.query;
+    if (!VIDEO_ID_PATTERN.test(videoId)) return res.status(400).json({ error: "Invalid video id" });
+    if (lang !== undefined && !CAPTION_LANG_PATTERN.test(lang)) return res.status(400).json({ error: "Invalid language" });
+    if (kind !== undefined && kind !== 'asr' && kind !== 'standard') return res.status(400).json({ error: "Invalid kind" });
+
+    const tracks = await getCaptionTracks(videoId);
+    const track = lang
+      ? findCaptionTrack(tracks, lang, kind)
+      : tracks.find(t => t.kind === 'standard') || tracks[0];
+    if (lang && !track) return res.status(404).json({ error: "Caption track not found" });
+
+    if (track) {
+      try {
+        const segments = await fetchCaptionCues(track);
+        return res.status(200).json({ source: 'captions', languageCode: track.languageCode, kind: track.kind, segments });
+      } catch (e) {
+        // 文字起こしパネルは既定の言語でしか取れないため、言語を指定された場合は別の言語を返さずに 404 にする
+        if (lang) {
+          log('warn', 'Requested caption track unavailable', { videoId, lang, kind, error: e.message });
+          return res.status(404).json({ error: `Caption track for ${lang} could not be loaded` });
+        }
+        log('warn', 'Caption track unavailable, falling back to transcript panel', { videoId, error: e.message });
       }
-      attempts++;
     }
 
-    res.status(200).json({
-      comments: allComments.slice(0, limit).map(c => ({
-        text: c.comment?.content?.text ?? null,
-        comment_id: c.comment?.comment_id ?? null,
-        published_time: c.comment?.published_time?.text ?? c.comment?.published_time ?? null,
-        author: { 
-            id: c.comment?.author?.id ?? null, 
-            name: c.comment?.author?.name?.text ?? c.comment?.author?.name ?? null, 
-            thumbnails: c.comment?.author?.thumbnails ?? [] 
-        },
-        like_count: c.comment?.like_count?.toString() ?? '0',
-        reply_count: c.comment?.reply_count?.toString() ?? '0',
-        is_pinned: c.comment?.is_pinned ?? false
-      }))
-    });
-  } catch (err) { 
-    console.error('Error in /api/comments:', err); 
-    res.status(500).json({ error: err.message }); 
+    const transcript = await fetchYoutubeiTranscript(videoId);
+    if (transcript.segments.length === 0) return res.status(404).json({ error: "Transcript not available" });
+    res.status(200).json({ source: 'youtubei', ...transcript });
+  } catch (err) {
+    logError('/api/transcript', err);
+    res.status(500).json({ error: err.message });
   }
 });
 
 // -------------------------------------------------------------------
-// チャンネル API (/api/channel)
+// ストーリーボード API (/api/storyboard/:videoId)
+// シークバーのプレビューに使うスプライトシートの仕様を返す。
+// 画像はサムネイルプロキシ経由の URL にして、ブラウザから i.ytimg.com へ直接アクセスさせない
 // -------------------------------------------------------------------
-app.get('/api/channel', async (req, res) => {
+const toStoryboardLevel = (board, durationSeconds) => {
+  const framesPerSheet = board.columns * board.rows;
+  // 最も粗いレベルは interval が 0 で、動画全体に均等に並ぶ
+  const intervalMs = board.interval > 0
+    ? board.interval
+    : Math.ceil((durationSeconds * 1000) / Math.max(board.thumbnail_count, 1));
+  const sheets = Array.from({ length: board.storyboard_count }, (_, i) =>
+    `/api/proxy-thumbnail?url=${encodeURIComponent(board.template_url.replace('$M', String(i)))}`
+  );
+  return {
+    width: board.thumbnail_width,
+    height: board.thumbnail_height,
+    count: board.thumbnail_count,
+    columns: board.columns,
+    rows: board.rows,
+    framesPerSheet,
+    intervalMs,
+    sheets,
+  };
+};
+
+app.get('/api/storyboard/:videoId', withCache(3600), async (req, res) => {
   try {
-    const youtube = await createYoutube();
-    const { id, page = '1' } = req.query;
-    if (!id) return res.status(400).json({ error: "Missing channel id" });
+    const { videoId } = req.params;
+    if (!VIDEO_ID_PATTERN.test(videoId)) return res.status(400).json({ error: "Invalid video id" });
+
+    const youtube = await getYoutube();
+    const info = await youtube.getBasicInfo(videoId);
+    const storyboards = info.storyboards;
+    // ライブ配信のストーリーボードはシーク位置と対応しないため扱わない
+    if (!storyboards || storyboards.type !== 'PlayerStoryboardSpec') {
+      return res.status(404).json({ error: "Storyboard not available" });
+    }
 
-    const channel = await youtube.getChannel(id);
-    
-    let videosFeed = await channel.getVideos();
-    let videosToReturn = videosFeed.videos || [];
+    const duration = info.basic_info?.duration ?? 0;
+    const levels = storyboards.boards
+      .filter(board => board.thumbnail_count > 0 && board.columns > 0 && board.rows > 0)
+      .map(board => toStoryboardLevel(board, duration));
+    if (levels.length === 0) return res.status(404).json({ error: "Storyboard not available" });
 
-    const targetPage = parseInt(page);
-    
-    if (targetPage > 1) {
-        for (let i = 1; i < targetPage; i++) {
-            if (videosFeed.has_continuation) {
-                videosFeed = await videosFeed.getContinuation();
-                videosToReturn = videosFeed.videos || [];
-            } else {
-                videosToReturn = [];
-                break;
-            }
-        }
+    res.status(200).json({ duration, levels });
+  } catch (err) {
+    logError('/api/storyboard', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// 検索 API (/api/search)
+// upload_date / type / duration / sort_by / features (カンマ区切り) を youtubei.js の検索フィルターとして渡す
+// -------------------------------------------------------------------
+// 選択肢は /api/v2 の契約と共有する (先頭が既定値)
+const SEARCH_FILTER_OPTIONS = {
+  upload_date: SEARCH_UPLOAD_DATES,
+  type: SEARCH_TYPES,
+  duration: SEARCH_DURATIONS,
+  sort_by: SEARCH_SORTS,
+};
+
+// 既定値は省き、features は並べ替えて、同じ条件なら同じ形になるようにする (継続トークンの照合に使う)
+const parseSearchFilters = (query) => {
+  const filters = {};
+  for (const [name, options] of Object.entries(SEARCH_FILTER_OPTIONS)) {
+    const value = query[name];
+    if (value === undefined || value === '') continue;
+    if (!options.includes(value)) throw new Error(`Invalid ${name}: ${value}`);
+    if (value !== options[0]) filters[name] = value;
+  }
+  if (query.features) {
+    const features = [...new Set(String(query.features).split(',').filter(Boolean))].sort();
+    const invalid = features.find(f => !SEARCH_FEATURES.includes(f));
+    if (invalid) throw new Error(`Invalid feature: ${invalid}`);
+    if (features.length > 0) filters.features = features;
+  }
+  return filters;
+};
+
+// 1ページ分 (動画が50件程度になるまで継続取得) の検索結果を返す。continuation を省略すると最初のページ
+const fetchSearchPage = async (query, filters, continuation) => {
+    const filterKey = JSON.stringify(filters);
+    const youtube = await getYoutube();
+
+    const ITEMS_PER_PAGE = 50;
+    const MAX_ATTEMPTS = 5;
+
+    let search;
+    const isFirstPage = !continuation;
+    if (isFirstPage) {
+        search = await youtube.search(query, filters);
+    } else {
+        // 前回のページが止まった位置から再開する
+        const payload = decodeContinuation(continuation);
+        // フィルターを変えたのに古いトークンで続きを取得すると結果が混ざるため、条件も一致させる
+        if (!payload || payload.q !== query || (payload.f ?? '{}') !== filterKey) throw new ContinuationError();
+        const response = await youtube.actions.execute('/search', { continuation: payload.c, parse: true });
+        search = new YT.Search(youtube.actions, response, true);
     }
     
-    const title = channel.metadata?.title || channel.header?.title?.text || channel.header?.author?.name || null;
-    let avatar = channel.metadata?.avatar || channel.header?.avatar || channel.header?.author?.thumbnails || null;
-    
-    if (Array.isArray(avatar) && avatar.length > 0) {
-        avatar = avatar[0].url;
-    } else if (typeof avatar === 'object' && avatar?.url) {
-        avatar = avatar.url;
+    let allVideos = [...(search.videos || [])];
+    let allShorts = [...(search.shorts || [])];
+    let allChannels = [...(search.channels || [])];
+    let allPlaylists = [...(search.playlists || [])];
+
+    let continuationAttempts = 0;
+
+    while (allVideos.length < ITEMS_PER_PAGE && search.has_continuation && continuationAttempts < MAX_ATTEMPTS) {
+        search = await search.getContinuation();
+        if (search.videos) allVideos.push(...search.videos);
+        if (search.shorts) allShorts.push(...search.shorts);
+        if (search.channels) allChannels.push(...search.channels);
+        if (search.playlists) allPlaylists.push(...search.playlists);
+        continuationAttempts++;
     }
 
-    let banner = channel.metadata?.banner || channel.header?.banner || null;
-    if (Array.isArray(banner) && banner.length > 0) {
-        banner = banner[0].url;
-    } else if (typeof banner === 'object' && banner?.url) {
-        banner = banner.url;
-    } else if (typeof banner !== 'string') {
-        banner = null; 
+    const nextContinuation = getFeedContinuation(search);
+
+    return {
+        videos: allVideos,
+        shorts: isFirstPage ? allShorts : [],
+        channels: isFirstPage ? allChannels : [],
+        playlists: isFirstPage ? allPlaylists : [],
+        nextPageToken: nextContinuation ? encodeContinuation({ q: query, f: filterKey, c: nextContinuation }) : undefined
+    };
+};
+
+app.get('/api/search', withCache(300), async (req, res) => {
+  try {
+    const { q: query, continuation } = req.query;
+    if (!query) return res.status(400).json({ error: "Missing search query" });
+
+    let filters;
+    try {
+      filters = parseSearchFilters(req.query);
+    } catch (e) {
+      return res.status(400).json({ error: e.message });
     }
 
+    res.status(200).json(await fetchSearchPage(query, filters, continuation));
+  } catch (err) { 
+      if (err instanceof ContinuationError) return res.status(err.status).json({ error: err.message });
+      logError('/api/search', err);
+      res.status(500).json({ error: err.message }); 
+  }
+});
+
+// -------------------------------------------------------------------
+// 検索候補 API (/api/search/suggestions)
+// 入力中に何度も呼ばれるため、同じ入力はキャッシュから返す
+// -------------------------------------------------------------------
+const MAX_SUGGESTION_QUERY_LENGTH = 100;
+
+app.get('/api/search/suggestions', withCache(3600), async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) return res.status(400).json({ error: "Missing search query" });
+    if (query.length > MAX_SUGGESTION_QUERY_LENGTH) return res.status(400).json({ error: "Search query too long" });
+
+    const youtube = await getYoutube();
+    const suggestions = await youtube.getSearchSuggestions(query);
+    res.status(200).json({ suggestions: suggestions.filter(s => typeof s === 'string' && s.length > 0).slice(0, 10) });
+  } catch (err) {
+    logError('/api/search/suggestions', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// コメント API (/api/comments)
+// 1回のリクエストで上流の1ページ分 (約20件) のスレッドを返し、続きは continuation で取得する
+// -------------------------------------------------------------------
+const COMMENT_SORTS = { top: 'TOP_COMMENTS', newest: 'NEWEST_FIRST' };
+
+const toComment = (comment, repliesToken = null) => ({
+  text: comment?.content?.text ?? null,
+  comment_id: comment?.comment_id ?? null,
+  published_time: comment?.published_time?.text ?? comment?.published_time ?? comment?.published?.text ?? null,
+  author: { 
+      id: comment?.author?.id ?? null, 
+      name: comment?.author?.name?.text ?? comment?.author?.name ?? null, 
+      thumbnails: comment?.author?.thumbnails ?? [] 
+  },
+  like_count: comment?.like_count?.toString() ?? comment?.vote_count?.toString() ?? '0',
+  reply_count: comment?.reply_count?.toString() ?? '0',
+  is_pinned: comment?.is_pinned ?? false,
+  replies_token: repliesToken,
+});
+
+// コメントスレッドの一覧と次ページの continuation を取り出す (初回・継続どちらのレスポンスにも使う)
+const parseCommentThreads = (contents, videoId) => {
+  const threads = contents?.filterType(YTNodes.CommentThread) ?? [];
+  const continuation = contents?.firstOfType(YTNodes.ContinuationItem)?.endpoint?.payload?.token ?? null;
+  return {
+    comments: threads.map(thread => {
+      const repliesContinuation = thread.comment_replies_data?.contents?.firstOfType(YTNodes.ContinuationItem)?.endpoint?.payload?.token;
+      return toComment(thread.comment, repliesContinuation ? encodeContinuation({ id: videoId, c: repliesContinuation }) : null);
+    }),
+    continuation,
+  };
+};
+
+// on_response_received_endpoints の並び (ヘッダーと本文) は決まっていないため、中身で探す。
+// コメントスレッドを含むものを優先し、無ければ continuation だけを含むもの (スレッドの無いページ) を使う
+const findCommentThreadsContents = (endpoints) => {
+  const contents = (endpoints ?? []).map(endpoint => endpoint?.contents).filter(items => typeof items?.firstOfType === 'function');
+  return contents.find(items => items.firstOfType(YTNodes.CommentThread))
+    ?? contents.find(items => items.firstOfType(YTNodes.ContinuationItem))
+    ?? null;
+};
+
+const findCommentsHeader = (endpoints) =>
+  (endpoints ?? []).map(endpoint => endpoint?.contents?.firstOfType?.(YTNodes.CommentsHeader)).find(Boolean) ?? null;
+
+const fetchCommentsPage = async (id, sort, continuation) => {
+  const youtube = await getYoutube();
+  let page;
+  let countText = null;
+  if (!continuation) {
+    const commentsSection = await youtube.getComments(id, COMMENT_SORTS[sort]);
+    const endpoints = commentsSection.page.on_response_received_endpoints;
+    page = parseCommentThreads(findCommentThreadsContents(endpoints), id);
+    countText = findCommentsHeader(endpoints)?.comments_count?.text || null;
+  } else {
+    const payload = decodeContinuation(continuation);
+    if (!payload || payload.id !== id || payload.s !== sort) throw new ContinuationError();
+    const response = await youtube.actions.execute('/next', { continuation: payload.c, parse: true });
+    page = parseCommentThreads(findCommentThreadsContents(response.on_response_received_endpoints), id);
+  }
+
+  return {
+    comments: page.comments,
+    countText,
+    nextPageToken: page.continuation ? encodeContinuation({ id, s: sort, c: page.continuation }) : undefined,
+  };
+};
+
+app.get('/api/comments', withCache(300), async (req, res) => {
+  try {
+    const { id, continuation, sort = 'top' } = req.query;
+    if (!id) return res.status(400).json({ error: "Missing video id" });
+    if (!Object.hasOwn(COMMENT_SORTS, sort)) return res.status(400).json({ error: `Unsupported sort: ${sort}` });
+
+    res.status(200).json(await fetchCommentsPage(id, sort, continuation));
+  } catch (err) { 
+    if (err instanceof ContinuationError) return res.status(err.status).json({ error: err.message });
+    logError('/api/comments', err);
+    res.status(500).json({ error: err.message }); 
+  }
+});
+
+// -------------------------------------------------------------------
+// コメント返信 API (/api/comments/:videoId/replies)
+// token にはコメントの replies_token、または前回のレスポンスの nextPageToken を渡す
+// -------------------------------------------------------------------
+const fetchCommentReplies = async (videoId, token) => {
+  const payload = decodeContinuation(token);
+  if (!payload || payload.id !== videoId) throw new ContinuationError('Invalid replies token');
+
+  const youtube = await getYoutube();
+  const response = await youtube.actions.execute('/next', { continuation: payload.c, parse: true });
+  const memo = response.on_response_received_endpoints_memo;
+  if (!memo) throw new Error('Unexpected replies response');
+
+  // 「他の返信を表示」はボタンのエンドポイントに continuation が入っている
+  const next = memo.getType(YTNodes.ContinuationItem).first();
+  const nextContinuation = next?.endpoint?.payload?.token ?? next?.button?.endpoint?.payload?.token ?? null;
+
+  return {
+    comments: memo.getType(YTNodes.Comment, YTNodes.CommentView).map(comment => toComment(comment)),
+    nextPageToken: nextContinuation ? encodeContinuation({ id: videoId, c: nextContinuation }) : undefined,
+  };
+};
+
+app.get('/api/comments/:videoId/replies', withCache(300), async (req, res) => {
+  try {
+    res.status(200).json(await fetchCommentReplies(req.params.videoId, req.query.token));
+  } catch (err) { 
+    if (err instanceof ContinuationError) return res.status(err.status).json({ error: err.message });
+    logError('/api/comments/replies', err);
+    res.status(500).json({ error: err.message }); 
+  }
+});
+
+// -------------------------------------------------------------------
+// チャンネル API (/api/channel)
+// -------------------------------------------------------------------
+app.get('/api/channel', withCache(600), async (req, res) => {
+  try {
+    const youtube = await getYoutube();
+    const { id } = req.query;
+    if (!id) return res.status(400).json({ error: "Missing channel id" });
+
+    const channel = await youtube.getChannel(id);
+
     res.status(200).json({
-      channel: {
-        id: channel.id, 
-        name: title, 
-        description: channel.metadata?.description || null,
-        avatar: avatar, 
-        banner: banner,
-        subscriberCount: channel.metadata?.subscriber_count?.pretty || '非公開', 
-        videoCount: channel.metadata?.videos_count?.text ?? channel.metadata?.videos_count ?? '0'
-      },
-      page: targetPage, 
-      videos: videosToReturn,
-      nextPageToken: videosFeed.has_continuation ? String(targetPage + 1) : undefined
+      channel: buildChannelMetadata(channel)
     });
 
   } catch (err) { 
-      console.error('Error in /api/channel:', err); 
+      logError('/api/channel', err);
+      res.status(500).json({ error: err.message }); 
+  }
+});
+
+// -------------------------------------------------------------------
+// チャンネル動画 API (/api/channel-videos)
+// continuation を渡すと前回の続きから1ページ分だけ取得する
+// -------------------------------------------------------------------
+// チャンネルのメタデータは最初のページにだけ含める
+const fetchChannelVideosPage = async (id, continuation) => {
+    const youtube = await getYoutube();
+    let channelMeta = null;
+    let videosFeed;
+
+    if (!continuation) {
+        const channel = await youtube.getChannel(id);
+        videosFeed = await channel.getVideos();
+        channelMeta = buildChannelMetadata(channel);
+    } else {
+        const payload = decodeContinuation(continuation);
+        if (!payload || payload.id !== id) throw new ContinuationError();
+        const response = await youtube.actions.execute('/browse', { continuation: payload.c, parse: true });
+        videosFeed = new YT.ChannelListContinuation(youtube.actions, response, true);
+    }
+
+    const nextContinuation = getFeedContinuation(videosFeed);
+
+    return {
+      channel: channelMeta,
+      videos: videosFeed.videos || [],
+      nextPageToken: nextContinuation ? encodeContinuation({ id, c: nextContinuation }) : undefined
+    };
+};
+
+app.get('/api/channel-videos', withCache(600), async (req, res) => {
+  try {
+    const { id, continuation } = req.query;
+    if (!id) return res.status(400).json({ error: "Missing channel id" });
+
+    res.status(200).json(await fetchChannelVideosPage(id, continuation));
+
+  } catch (err) { 
+      if (err instanceof ContinuationError) return res.status(err.status).json({ error: err.message });
+      logError('/api/channel-videos', err);
       res.status(500).json({ error: err.message }); 
   }
 });
@@ -316,20 +1680,88 @@ app.get('/api/channel', async (req, res) => {
 // -------------------------------------------------------------------
 // チャンネルホーム Proxy API (/api/channel-home-proxy)
 // -------------------------------------------------------------------
+providers.register('channel-home', getProviderTemplates('CHANNEL_HOME_PROVIDER_URLS', [
+  'https://siawaseok.duckdns.org/api/channel/{id}',
+]).map(template => createHttpProvider(template)));
+
 app.get('/api/channel-home-proxy', async (req, res) => {
   try {
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
-    const response = await fetch(`https://siawaseok.duckdns.org/api/channel/${id}`);
-    if (!response.ok) {
-        return res.status(response.status).json({ error: "Failed to fetch from external API" });
-    }
-    const data = await response.json();
+    const { data, provider } = await providers.call('channel-home', id);
+    res.setHeader('X-Provider', provider);
     res.status(200).json(data);
   } catch (err) {
-      console.error('Error in /api/channel-home-proxy:', err);
-      res.status(500).json({ error: err.message });
+      logError('/api/channel-home-proxy', err);
+      res.status(err instanceof ProviderRequestError ? err.status : 500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// 関連動画 API (/api/related/:videoId)
+// 外部ホストの関連動画を優先し、使えない場合は youtubei.js の watch_next_feed を返す
+// -------------------------------------------------------------------
+const toRelatedItems = (data) => {
+  // 配列、または items / related_videos を持つオブジェクトのいずれかで返ってくる
+  const items = Array.isArray(data) ? data : (data?.items || data?.related_videos || []);
+  if (!Array.isArray(items)) throw new Error('Unexpected related videos response');
+  return items;
+};
+
+providers.register('related', [
+  ...getProviderTemplates('RELATED_PROVIDER_URLS', ['https://siawaseok.duckdns.org/api/video2/{id}'])
+    .map(template => createHttpProvider(template, { parse: toRelatedItems })),
+  {
+    name: 'youtubei',
+    timeout: 15000,
+    run: async (videoId) => {
+      const youtube = await getYoutube();
+      const info = await youtube.getInfo(videoId);
+      return info.watch_next_feed ?? [];
+    },
+  },
+]);
+
+app.get('/api/related/:videoId', withCache(600), async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    if (!videoId) return res.status(400).json({ error: "Missing video id" });
+
+    const { data, provider } = await providers.call('related', videoId);
+    res.setHeader('X-Provider', provider);
+    res.status(200).json({ videos: data, provider });
+  } catch (err) {
+    logError('/api/related', err);
+    res.status(err instanceof ProviderRequestError ? err.status : 500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// プレイヤー設定 API (/api/player-config)
+// 埋め込みプレイヤーに付与するクエリパラメータ。取得できない場合は既定値を返す
+// -------------------------------------------------------------------
+const DEFAULT_PLAYER_PARAMS = '?autoplay=1&rel=0';
+
+providers.register('player-config', [
+  ...getProviderTemplates('PLAYER_CONFIG_PROVIDER_URLS', ['https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json'])
+    .map(template => createHttpProvider(template, {
+      parse: (config) => {
+        if (typeof config?.params !== 'string') throw new Error('Missing params in player config');
+        return config.params.trim().replace(/&amp;/g, '&');
+      },
+    })),
+  { name: 'default', run: async () => DEFAULT_PLAYER_PARAMS },
+]);
+
+app.get('/api/player-config', withCache(600), async (req, res) => {
+  try {
+    const { data, provider } = await providers.call('player-config');
+    res.setHeader('X-Provider', provider);
+    res.status(200).json({ params: data, provider });
+  } catch (err) {
+    logError('/api/player-config', err);
+    res.status(500).json({ error: err.message });
   }
 });
 
@@ -338,7 +1770,7 @@ app.get('/api/channel-home-proxy', async (req, res) => {
 // -------------------------------------------------------------------
 app.get('/api/channel-shorts', async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
@@ -358,7 +1790,7 @@ app.get('/api/channel-shorts', async (req, res) => {
 
     res.status(200).json(shorts);
   } catch (err) { 
-      console.error('Error in /api/channel-shorts:', err); 
+      logError('/api/channel-shorts', err);
       res.status(500).json({ error: err.message }); 
   }
 });
@@ -366,12 +1798,8 @@ app.get('/api/channel-shorts', async (req, res) => {
 // -------------------------------------------------------------------
 // チャンネル Playlists API (/api/channel-playlists)
 // -------------------------------------------------------------------
-app.get('/api/channel-playlists', async (req, res) => {
-  try {
-    const youtube = await createYoutube();
-    const { id } = req.query;
-    if (!id) return res.status(400).json({ error: "Missing channel id" });
-
+const fetchChannelPlaylists = async (id) => {
+    const youtube = await getYoutube();
     const channel = await youtube.getChannel(id);
     const playlistsFeed = await channel.getPlaylists();
     
@@ -389,10 +1817,17 @@ app.get('/api/channel-playlists', async (req, res) => {
              playlists = tabContent.contents;
         }
     }
+    return playlists;
+};
 
-    res.status(200).json({ playlists: playlists });
+app.get('/api/channel-playlists', async (req, res) => {
+  try {
+    const { id } = req.query;
+    if (!id) return res.status(400).json({ error: "Missing channel id" });
+
+    res.status(200).json({ playlists: await fetchChannelPlaylists(id) });
   } catch (err) { 
-      console.error('Error in /api/channel-playlists:', err); 
+      logError('/api/channel-playlists', err);
       res.status(500).json({ error: err.message }); 
   }
 });
@@ -400,9 +1835,9 @@ app.get('/api/channel-playlists', async (req, res) => {
 // -------------------------------------------------------------------
 // 再生リスト API (/api/playlist)
 // -------------------------------------------------------------------
-app.get('/api/playlist', async (req, res) => {
+app.get('/api/playlist', withCache(600), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id: playlistId } = req.query;
     if (!playlistId) return res.status(400).json({ error: "Missing playlist id" });
 
@@ -411,14 +1846,14 @@ app.get('/api/playlist', async (req, res) => {
     
     res.status(200).json(playlist);
   } catch (err) { 
-      console.error('Error in /api/playlist:', err); 
+      logError('/api/playlist', err);
       res.status(500).json({ error: err.message }); 
   }
 });
 
 app.get('/api/shorts', async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
@@ -427,7 +1862,7 @@ app.get('/api/shorts', async (req, res) => {
     res.status(200).json(shortsFeed);
 
   } catch (err) {
-    console.error("Error in /api/shorts:", err);
+    logError('/api/shorts', err);
     res.status(500).json({ error: err.message });
   }
 });
@@ -436,9 +1871,8 @@ app.get('/api/shorts', async (req, res) => {
 // -------------------------------------------------------------------
 // ホームフィード API (/api/fvideo)
 // -------------------------------------------------------------------
-app.get('/api/fvideo', async (req, res) => {
-  try {
-    const youtube = await createYoutube();
+const fetchHomeFeedVideos = async () => {
+    const youtube = await getYoutube();
     const home = await youtube.getHomeFeed();
     let allVideos = home.videos ? [...home.videos] : [];
     const MAX_VIDEOS = 180;
@@ -454,14 +1888,18 @@ app.get('/api/fvideo', async (req, res) => {
             }
             attempts++;
         } catch (e) {
-            console.warn('[API] Home feed continuation failed:', e.message);
+            log('warn', 'Home feed continuation failed', { error: e.message });
             break;
         }
     }
-    
-    res.status(200).json({ videos: allVideos });
+    return allVideos;
+};
+
+app.get('/api/fvideo', async (req, res) => {
+  try {
+    res.status(200).json({ videos: await fetchHomeFeedVideos() });
   } catch (err) { 
-      console.error('Error in /api/fvideo:', err); 
+      logError('/api/fvideo', err);
       res.status(500).json({ error: err.message }); 
   }
 });
@@ -478,50 +1916,1441 @@ app.get('/api/ai/completion', (req, res) => {
 });
 
 // -------------------------------------------------------------------
-// プロキシサムネイル API (/api/proxy-thumbnail)
+// API v2 (/api/v2)
+// youtubei.js のレスポンスをサーバー側で types.ts と同じ形の DTO に変換し、utils/apiContract.js の
+// スキーマで検証してから返す。クライアントは同じ定義から生成した utils/apiClient.generated.ts を使う
+// -------------------------------------------------------------------
+dayjs.extend(relativeTime);
+dayjs.locale('ja');
+
+const DEFAULT_CHANNEL_AVATAR = 'https://www.gstatic.com/youtube/img/creator/avatar/default_64.svg';
+
+// パラメーターの誤りなど、クライアント側の問題で処理できない場合に投げる
+class ApiRequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+// Text ノード・文字列・{ simpleText } のいずれかから文字列を取り出す
+const textOf = (value) => {
+  if (typeof value === 'string') return value;
+  if (typeof value?.text === 'string') return value.text;
+  if (typeof value?.simpleText === 'string') return value.simpleText;
+  return null;
+};
+
+const stripQuery = (url) => (typeof url === 'string' ? url.split('?')[0] : '');
+
+const formatJapaneseNumber = (raw) => {
+  const num = typeof raw === 'string' ? parseInt(raw.replace(/,/g, ''), 10) : raw;
+  if (!Number.isFinite(num)) return '0';
+  if (num >= 100000000) return `${(num / 100000000).toFixed(1).replace('.0', '')}億`;
+  if (num >= 10000) return `${(num / 10000).toFixed(1).replace('.0', '')}万`;
+  return num.toLocaleString();
+};
+
+// 英語の相対日時 ("3 days ago") が返ってきた場合は日本語にする
+const formatJapaneseDate = (dateText) => {
+  if (!dateText || !dateText.includes('ago')) return dateText ?? '';
+  const match = dateText.match(/(\d+)\s+(year|month|week|day|hour|minute|second)s?/);
+  if (!match) return dateText;
+  return dayjs().subtract(parseInt(match[1], 10), match[2]).fromNow();
+};
+
+const formatSeconds = (totalSeconds) => {
+  if (!Number.isFinite(totalSeconds) || totalSeconds < 0) return '0:00';
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+// 検索結果・関連動画・チャンネル動画・再生リストなど、種類の異なる動画ノードを Video にする
+const toVideoDto = (item) => {
+  if (!item) return null;
+  const id = item.id || item.video_id || item.videoId || item.content_id;
+  if (!id || typeof id !== 'string') return null;
+
+  const thumbs = item.thumbnails || item.thumbnail || item.content_image;
+  let thumbnailUrl = `https://i.ytimg.com/vi/${id}/hqdefault.jpg`;
+  if (Array.isArray(thumbs) && thumbs.length > 0) thumbnailUrl = stripQuery(thumbs[0].url) || thumbnailUrl;
+  else if (thumbs?.url) thumbnailUrl = stripQuery(thumbs.url);
+
+  const durationOverlay = (item.thumbnail_overlays || []).find(o => o.type === 'ThumbnailOverlayTimeStatus');
+  const duration = textOf(item.duration) ?? textOf(item.length) ?? textOf(durationOverlay) ?? '';
+
+  let views = textOf(item.view_count) || textOf(item.short_view_count) || textOf(item.views) || '視聴回数不明';
+  let uploadedAt = textOf(item.published) ?? '';
+
+  const author = item.author || item.channel;
+  let channelName = author?.name ?? '不明なチャンネル';
+
+  // LockupView: [{ metadata_parts: [チャンネル名] }, { metadata_parts: [視聴回数, 投稿日] }]
+  const metadataRows = item.metadata?.metadata?.metadata_rows;
+  if (Array.isArray(metadataRows)) {
+    channelName = textOf(metadataRows[0]?.metadata_parts?.[0]?.text) ?? channelName;
+    views = textOf(metadataRows[1]?.metadata_parts?.[0]?.text) ?? views;
+    uploadedAt = textOf(metadataRows[1]?.metadata_parts?.[1]?.text) ?? uploadedAt;
+  }
+
+  return {
+    id,
+    thumbnailUrl,
+    duration,
+    isoDuration: `PT${item.duration?.seconds ?? 0}S`,
+    title: textOf(item.title) ?? textOf(item.metadata?.title) ?? '無題の動画',
+    channelName: String(channelName),
+    channelId: author?.id ?? '',
+    channelAvatarUrl: author?.thumbnails?.[0]?.url ?? '',
+    views,
+    uploadedAt: formatJapaneseDate(uploadedAt),
+    descriptionSnippet: textOf(item.description_snippet) ?? '',
+  };
+};
+
+// 外部の関連動画プロバイダーは既に Video と同じ形で返すことがある
+const toRelatedVideoDto = (item) => {
+  if (!(item?.id && item.thumbnailUrl && item.channelName)) return toVideoDto(item);
+  return {
+    id: String(item.id),
+    thumbnailUrl: String(item.thumbnailUrl),
+    duration: String(item.duration ?? ''),
+    isoDuration: String(item.isoDuration ?? ''),
+    title: String(item.title ?? '無題の動画'),
+    channelName: String(item.channelName),
+    channelId: String(item.channelId ?? ''),
+    channelAvatarUrl: String(item.channelAvatarUrl ?? ''),
+    views: String(item.views ?? ''),
+    uploadedAt: String(item.uploadedAt ?? ''),
+  };
+};
+
+const toChannelDto = (item) => {
+  if (!item?.id) return null;
+  let thumbnails = item.thumbnails || item.author?.thumbnails || item.avatar || [];
+  if (!Array.isArray(thumbnails) && thumbnails?.url) thumbnails = [thumbnails];
+  const avatarUrl = (Array.isArray(thumbnails) && stripQuery(thumbnails[0]?.url)) || DEFAULT_CHANNEL_AVATAR;
+
+  return {
+    id: item.id,
+    name: textOf(item.name) || item.author?.name || textOf(item.title) || 'No Name',
+    avatarUrl,
+    subscriberCount: textOf(item.subscriber_count) || textOf(item.video_count) || '',
+  };
+};
+
+const toPlaylistDto = (item) => {
+  if (!item?.id) return null;
+  return {
+    id: item.id,
+    title: textOf(item.title) ?? '',
+    thumbnailUrl: item.thumbnails?.[0]?.url,
+    videoCount: parseInt(textOf(item.video_count)?.replace(/[^0-9]/g, '') || '0', 10),
+    author: item.author?.name,
+    authorId: item.author?.id,
+  };
+};
+
+const toCommentDto = (comment) => ({
+  comment_id: comment.comment_id ?? '',
+  text: comment.text ?? '',
+  published_time: comment.published_time ?? '',
+  author: {
+    id: comment.author.id ?? '',
+    name: comment.author.name ?? '',
+    thumbnails: (comment.author.thumbnails ?? []).filter(thumb => thumb?.url).map(thumb => ({ url: thumb.url })),
+  },
+  like_count: comment.like_count,
+  reply_count: comment.reply_count,
+  is_pinned: comment.is_pinned,
+  replies_token: comment.replies_token,
+});
+
+const compact = (items, mapper) => items.map(mapper).filter(Boolean);
+
+// 著者名が "N/A" の動画は複数チャンネルの共同投稿で、ダイアログの一覧に全員が入っている
+const extractCollaborators = (owner) => {
+  const listItems = owner?.author?.endpoint?.payload?.panelLoadingStrategy?.inlineContent?.dialogViewModel?.customContent?.listViewModel?.listItems;
+  if (!Array.isArray(listItems)) return [];
+  return listItems.map(item => {
+    const vm = item.listItemViewModel;
+    if (!vm) return null;
+    const browseEndpoint = vm.rendererContext?.commandContext?.onTap?.innertubeCommand?.browseEndpoint
+      || vm.title?.commandRuns?.[0]?.onTap?.innertubeCommand?.browseEndpoint
+      || vm.leadingAccessory?.avatarViewModel?.endpoint?.innertubeCommand?.browseEndpoint;
+    // サブタイトルの例: "@handle • チャンネル登録者数 4.4万人"
+    const subscriberMatch = (vm.subtitle?.content || '').match(/チャンネル登録者数\s+(.+)$/);
+    return {
+      id: browseEndpoint?.browseId ?? '',
+      name: vm.title?.content || '',
+      avatarUrl: vm.leadingAccessory?.avatarViewModel?.image?.sources?.[0]?.url || '',
+      subscriberCount: subscriberMatch ? subscriberMatch[1] : '',
+    };
+  }).filter(channel => channel && channel.id !== '');
+};
+
+// 関連動画は通常 watch_next_feed にあるが、無い場合は終了画面の候補で代用する
+const relatedItemsOf = (info) => {
+  if (info.watch_next_feed?.length) return info.watch_next_feed;
+  const endScreen = info.player_overlays?.end_screen;
+  return Array.isArray(endScreen?.results) ? endScreen.results : [];
+};
+
+const toVideoDetailsDto = (id, info) => {
+  if (info.playability_status?.status !== 'OK' && !info.primary_info) {
+    throw new ApiRequestError(404, info.playability_status?.reason ?? 'この動画は利用できません。');
+  }
+  const primary = info.primary_info;
+  const secondary = info.secondary_info;
+  const basic = info.basic_info;
+  const owner = secondary?.owner;
+
+  let channel = {
+    id: owner?.author?.id ?? '',
+    name: owner?.author?.name ?? '不明なチャンネル',
+    avatarUrl: owner?.author?.thumbnails?.[0]?.url ?? '',
+    subscriberCount: textOf(owner?.subscriber_count) ?? '非公開',
+  };
+  const collaborators = channel.name === 'N/A' || !channel.name ? extractCollaborators(owner) : [];
+  // 共同投稿では最初のチャンネルをメインとして扱う
+  if (collaborators.length > 0) channel = { ...collaborators[0], subscriberCount: channel.subscriberCount };
+
+  const viewCount = textOf(primary?.view_count);
+  return {
+    id,
+    thumbnailUrl: basic?.thumbnail?.[0]?.url ?? `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    duration: formatSeconds(basic?.duration ?? 0),
+    isoDuration: `PT${basic?.duration ?? 0}S`,
+    title: textOf(primary?.title) ?? '無題の動画',
+    channelName: channel.name,
+    channelId: channel.id,
+    channelAvatarUrl: channel.avatarUrl,
+    views: viewCount ? `${viewCount}回視聴` : '0回視聴',
+    uploadedAt: formatJapaneseDate(textOf(primary?.relative_date) ?? ''),
+    description: textOf(secondary?.description)?.replace(/\n/g, '<br />') ?? '',
+    likes: formatJapaneseNumber(basic?.like_count ?? 0),
+    dislikes: '0',
+    channel,
+    collaborators: collaborators.length > 0 ? collaborators : undefined,
+    relatedVideos: compact(relatedItemsOf(info), toVideoDto).filter(video => video.id.length === 11),
+    chapters: info.chapters ?? [],
+  };
+};
+
+// Shorts タブのカードは youtubei.js が解析しない ShortsLockupView なので、生のデータから取り出す
+const toShortDto = (item) => {
+  const lockup = item.content || item.richItem?.content;
+  if (lockup?.type !== 'ShortsLockupView') return null;
+  const id = lockup.on_tap?.innertubeCommand?.payload?.videoId;
+  if (!id) return null;
+  return {
+    id,
+    title: lockup.overlay_metadata?.primaryText?.content || 'Untitled Short',
+    thumbnailUrl: stripQuery(lockup.thumbnail?.sources?.[0]?.url),
+    views: lockup.overlay_metadata?.secondaryText?.content || '',
+    duration: '',
+    isoDuration: '',
+    uploadedAt: '',
+    // チャンネル名などは呼び出し側 (チャンネルページ) で補う
+    channelName: '',
+    channelId: '',
+    channelAvatarUrl: '',
+  };
+};
+
+// 契約のエンドポイント定義からルートを登録する。handler は (params, query) を受け取って DTO を返す
+const registerV2Route = (name, ttlSeconds, handler) => {
+  const endpoint = endpoints[name];
+  const route = `/api/v2${endpoint.path}`;
+  app.get(route, withCache(ttlSeconds), async (req, res) => {
+    let query = {};
+    try {
+      if (endpoint.query) query = parseQuery(endpoint.query, req.query);
+    } catch (err) {
+      return res.status(400).json({ error: err.message });
+    }
+    try {
+      const { value, dropped } = validateResponse(endpoint.response, await handler(req.params, query));
+      // 上流の一部の項目の形が想定と違っても、一覧全体は失敗させずにその項目だけを除く
+      if (dropped.length > 0) log('warn', 'Dropped invalid list items', { route, issues: dropped.slice(0, 20) });
+      res.status(200).json(value);
+    } catch (err) {
+      if (err.status >= 400 && err.status < 500) return res.status(err.status).json({ error: err.message });
+      logError(route, err, err instanceof ContractError ? { issues: err.issues.slice(0, 20) } : {});
+      res.status(500).json({ error: err.message });
+    }
+  });
+};
+
+const requireVideoId = (id) => {
+  if (!VIDEO_ID_PATTERN.test(id)) throw new ApiRequestError(400, 'Invalid video id');
+  return id;
+};
+
+registerV2Route('getHomeFeed', 300, async () => ({
+  videos: compact(await fetchHomeFeedVideos(), toVideoDto),
+}));
+
+registerV2Route('search', 300, async (params, query) => {
+  const filters = parseSearchFilters({ ...query, features: query.features?.join(',') });
+  const page = await fetchSearchPage(query.q, filters, query.continuation);
+  return {
+    videos: compact(page.videos, toVideoDto),
+    shorts: compact(page.shorts, toVideoDto),
+    channels: compact(page.channels, toChannelDto),
+    playlists: compact(page.playlists, toPlaylistDto),
+    nextPageToken: page.nextPageToken,
+  };
+});
+
+registerV2Route('getVideo', 600, async ({ id }) => toVideoDetailsDto(id, await fetchVideoInfo(requireVideoId(id))));
+
+registerV2Route('getRelatedVideos', 600, async ({ id }) => {
+  const { data } = await providers.call('related', requireVideoId(id));
+  return { videos: compact(Array.isArray(data) ? data : [], toRelatedVideoDto) };
+});
+
+registerV2Route('getComments', 300, async ({ id }, query) => {
+  const sort = query.sort ?? 'top';
+  const page = await fetchCommentsPage(requireVideoId(id), sort, query.continuation);
+  return { ...page, comments: page.comments.map(toCommentDto) };
+});
+
+registerV2Route('getCommentReplies', 300, async ({ id }, query) => {
+  const page = await fetchCommentReplies(requireVideoId(id), query.token);
+  return { ...page, comments: page.comments.map(toCommentDto) };
+});
+
+registerV2Route('getChannel', 600, async ({ id }) => {
+  const youtube = await getYoutube();
+  return toChannelDetailsDto(buildChannelMetadata(await youtube.getChannel(id)), id);
+});
+
+registerV2Route('getChannelVideos', 600, async ({ id }, query) => {
+  const page = await fetchChannelVideosPage(id, query.continuation);
+  const videos = compact(page.videos, item => {
+    const video = toVideoDto(item);
+    if (!video) return null;
+    // チャンネルのメタデータがあれば (最初のページ) 各動画のチャンネル情報をそれで揃える
+    return {
+      ...video,
+      channelName: page.channel?.name || video.channelName,
+      channelId: page.channel?.id || video.channelId || id,
+      channelAvatarUrl: (typeof page.channel?.avatar === 'string' && page.channel.avatar) || video.channelAvatarUrl,
+    };
+  });
+  return { videos, nextPageToken: page.nextPageToken };
+});
+
+registerV2Route('getChannelShorts', 600, async ({ id }) => {
+  const youtube = await getYoutube();
+  const channel = await youtube.getChannel(id);
+  const shortsFeed = await channel.getShorts();
+  return { videos: compact(shortsFeed.current_tab?.content?.contents ?? [], toShortDto) };
+});
+
+registerV2Route('getChannelPlaylists', 600, async ({ id }) => ({
+  playlists: compact(await fetchChannelPlaylists(id), toPlaylistDto),
+}));
+
+registerV2Route('getPlaylist', 600, async ({ id }) => {
+  const youtube = await getYoutube();
+  const playlist = await youtube.getPlaylist(id);
+  if (!playlist.info?.id) throw new ApiRequestError(404, 'Playlist not found');
+  return {
+    title: textOf(playlist.info.title) ?? '',
+    author: playlist.info.author?.name ?? '不明',
+    authorId: playlist.info.author?.id ?? '',
+    description: textOf(playlist.info.description) ?? '',
+    videos: compact(playlist.videos ?? [], toVideoDto),
+  };
+});
+
+// 契約 (スキーマとエンドポイントの一覧) をそのまま返す。クライアントの生成や外部ツールの確認用
+app.get('/api/v2/contract', (req, res) => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json({ schemas, endpoints });
+});
+
 // -------------------------------------------------------------------
-app.get('/api/proxy-thumbnail', async (req, res) => {
+// Invidious 互換 API (/api/v1)
+// FreeTube などの Invidious クライアントから XeroxYT をインスタンスとして使えるよう、
+// 主要なエンドポイントを Invidious と同じパス・形式で返す。データは既存ルートと同じ youtubei.js の呼び出しから作る。
+// 再生用の URL はメディア中継 API を指すため、googlevideo の IP 制限や期限切れはサーバー側で吸収される
+// -------------------------------------------------------------------
+const INVIDIOUS_THUMBNAIL_QUALITIES = [
+  { quality: 'maxres', file: 'maxresdefault', width: 1280, height: 720 },
+  { quality: 'sddefault', file: 'sddefault', width: 640, height: 480 },
+  { quality: 'high', file: 'hqdefault', width: 480, height: 360 },
+  { quality: 'medium', file: 'mqdefault', width: 320, height: 180 },
+  { quality: 'default', file: 'default', width: 120, height: 90 },
+];
+// 検索の page を continuation に変換するために先頭からたどる上限
+const INVIDIOUS_MAX_PAGE = 10;
+const INVIDIOUS_CHANNEL_VIDEO_SORTS = ['newest'];
+const INVIDIOUS_COMMENT_SORTS = { top: 'top', new: 'newest' };
+
+const toVideoThumbnails = (videoId) => INVIDIOUS_THUMBNAIL_QUALITIES.map(({ quality, file, width, height }) => ({
+  quality,
+  url: `https://i.ytimg.com/vi/${videoId}/${file}.jpg`,
+  width,
+  height,
+}));
+
+// チャンネルアイコン・バナーの Thumbnail[] を { url, width, height } にする ("//yt3..." 形式の URL も補う)
+const toImageList = (thumbnails) => (Array.isArray(thumbnails) ? thumbnails : [])
+  .filter(thumb => typeof thumb?.url === 'string')
+  .map(thumb => ({
+    url: thumb.url.startsWith('//') ? `https:${thumb.url}` : thumb.url,
+    width: thumb.width ?? 0,
+    height: thumb.height ?? 0,
+  }));
+
+const escapeHtml = (text) => String(text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const toDescriptionHtml = (text) => escapeHtml(text).replace(/\n/g, '<br>');
+
+// "1,234 回視聴" / "1.2万 回視聴" / "チャンネル登録者数 3.4万人" / "1.2M views" を数値にする
+const COUNT_UNITS = { '万': 1e4, '億': 1e8, k: 1e3, m: 1e6, b: 1e9 };
+const parseCountText = (text) => {
+  const match = String(text ?? '').replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(万|億|[KMB](?![a-z]))?/i);
+  if (!match) return 0;
+  const unit = match[2] ? COUNT_UNITS[match[2].toLowerCase()] : 1;
+  return Math.round(parseFloat(match[1]) * unit);
+};
+
+// "3 日前" / "3 days ago" をおおよその UNIX 時刻 (秒) にする。解釈できなければ 0
+const RELATIVE_TIME_UNITS = [
+  [/秒|second/, 'second'], [/分|minute/, 'minute'], [/時間|hour/, 'hour'], [/日|day/, 'day'],
+  [/週|week/, 'week'], [/[かヶカケ]月|month/, 'month'], [/年|year/, 'year'],
+];
+const parsePublishedText = (text) => {
+  const match = String(text ?? '').match(/(\d+)\s*(秒|分|時間|日|週間|[かヶカケ]月|年|seconds?|minutes?|hours?|days?|weeks?|months?|years?)/);
+  if (!match) return 0;
+  const unit = RELATIVE_TIME_UNITS.find(([pattern]) => pattern.test(match[2]))[1];
+  return dayjs().subtract(parseInt(match[1], 10), unit).unix();
+};
+
+// "2009/10/25" (日本語ロケールの公開日) を UNIX 時刻 (秒) にする。解釈できなければ 0
+const parseDateText = (text) => {
+  const match = String(text ?? '').match(/(\d{4})\/(\d{1,2})\/(\d{1,2})/);
+  return match ? Math.floor(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 1000) : 0;
+};
+
+const toInvidiousVideoItem = (item) => {
+  const video = toVideoDto(item);
+  if (!video) return null;
+  const description = video.descriptionSnippet ?? '';
+  return {
+    type: 'video',
+    title: video.title,
+    videoId: video.id,
+    author: video.channelName,
+    authorId: video.channelId,
+    authorUrl: video.channelId ? `/channel/${video.channelId}` : '',
+    videoThumbnails: toVideoThumbnails(video.id),
+    description,
+    descriptionHtml: toDescriptionHtml(description),
+    viewCount: parseCountText(video.views),
+    viewCountText: video.views,
+    published: parsePublishedText(video.uploadedAt),
+    publishedText: video.uploadedAt,
+    lengthSeconds: item.duration?.seconds ?? parseTimestamp(video.duration) ?? 0,
+    liveNow: Boolean(item.is_live),
+    premium: false,
+    isUpcoming: Boolean(item.is_upcoming ?? item.upcoming),
+  };
+};
+
+const toInvidiousChannelItem = (item) => {
+  const channel = toChannelDto(item);
+  if (!channel) return null;
+  // 新しいレイアウトでは subscriber_count にハンドル (@...) が入り、登録者数は video_count 側にある
+  const subscriberText = [textOf(item.subscriber_count), textOf(item.video_count)].find(text => text && !text.startsWith('@'));
+  const description = textOf(item.description_snippet) ?? '';
+  return {
+    type: 'channel',
+    author: channel.name,
+    authorId: channel.id,
+    authorUrl: `/channel/${channel.id}`,
+    authorThumbnails: toImageList(item.author?.thumbnails ?? item.thumbnails),
+    autoGenerated: false,
+    subCount: parseCountText(subscriberText),
+    videoCount: 0,
+    description,
+    descriptionHtml: toDescriptionHtml(description),
+  };
+};
+
+const toInvidiousPlaylistItem = (item) => {
+  const playlist = toPlaylistDto(item);
+  if (!playlist) return null;
+  return {
+    type: 'playlist',
+    title: playlist.title,
+    playlistId: playlist.id,
+    playlistThumbnail: playlist.thumbnailUrl ?? '',
+    author: playlist.author ?? '',
+    authorId: playlist.authorId ?? '',
+    authorUrl: playlist.authorId ? `/channel/${playlist.authorId}` : '',
+    videoCount: playlist.videoCount,
+    videos: [],
+  };
+};
+
+// "avc1.640028" → "h264" のように、Invidious の encoding 表記にする
+const toEncoding = (mimeType, fallback) => {
+  const codec = getCodecs(mimeType)?.split(',')[0].trim() ?? '';
+  if (codec.startsWith('avc1')) return 'h264';
+  if (codec.startsWith('vp09') || codec.startsWith('vp9')) return 'vp9';
+  if (codec.startsWith('av01')) return 'av1';
+  if (codec.startsWith('mp4a')) return 'aac';
+  return codec || fallback;
+};
+
+const toInvidiousFormat = (format, videoId, origin) => {
+  const url = format.itag ? `${origin}/api/media/${encodeURIComponent(videoId)}/${format.itag}` : format.url;
+  const type = format.mimeType ?? `${format.hasVideo ? 'video' : 'audio'}/${format.container}`;
+  const resolution = format.hasVideo ? (format.height ? `${format.height}p` : format.quality) : undefined;
+  return {
+    url,
+    itag: String(format.itag ?? ''),
+    type,
+    container: format.container,
+    encoding: toEncoding(format.mimeType, format.container),
+    bitrate: String(format.bitrate ?? ''),
+    clen: String(format.contentLength ?? ''),
+    init: format.initRange ? `${format.initRange.start}-${format.initRange.end}` : undefined,
+    index: format.indexRange ? `${format.indexRange.start}-${format.indexRange.end}` : undefined,
+    fps: format.fps,
+    resolution,
+    qualityLabel: format.hasVideo ? format.quality : undefined,
+    size: format.width && format.height ? `${format.width}x${format.height}` : undefined,
+    projectionType: 'RECTANGULAR',
+  };
+};
+
+const toInvidiousVideo = (id, info, streamData, captionTracks, origin) => {
+  const details = toVideoDetailsDto(id, info);
+  const primary = info.primary_info;
+  const basic = info.basic_info;
+  const owner = info.secondary_info?.owner;
+  const description = textOf(info.secondary_info?.description) ?? basic?.short_description ?? '';
+  const adaptiveFormats = streamData?.adaptiveFormats ?? [];
+
+  return {
+    type: 'video',
+    title: details.title,
+    videoId: id,
+    videoThumbnails: toVideoThumbnails(id),
+    storyboards: [],
+    description,
+    descriptionHtml: toDescriptionHtml(description),
+    published: parseDateText(textOf(primary?.published)) || parsePublishedText(details.uploadedAt),
+    publishedText: details.uploadedAt,
+    keywords: basic?.keywords ?? [],
+    viewCount: basic?.view_count ?? parseCountText(details.views),
+    likeCount: basic?.like_count ?? 0,
+    dislikeCount: 0,
+    paid: false,
+    premium: false,
+    isFamilyFriendly: basic?.is_family_safe ?? true,
+    allowedRegions: [],
+    genre: basic?.category ?? '',
+    genreUrl: '',
+    author: details.channelName,
+    authorId: details.channelId,
+    authorUrl: details.channelId ? `/channel/${details.channelId}` : '',
+    authorThumbnails: toImageList(owner?.author?.thumbnails),
+    subCountText: details.channel.subscriberCount,
+    lengthSeconds: basic?.duration ?? 0,
+    allowRatings: true,
+    rating: 0,
+    isListed: !basic?.is_unlisted,
+    liveNow: Boolean(basic?.is_live),
+    isUpcoming: Boolean(basic?.is_upcoming),
+    dashUrl: adaptiveFormats.length > 0 && getDashAdaptationSets(streamData).length > 0 ? `${origin}/api/dash/${encodeURIComponent(id)}` : null,
+    hlsUrl: streamData?.streamType === 'hls' ? streamData.streamingUrl : undefined,
+    adaptiveFormats: adaptiveFormats.map(format => toInvidiousFormat(format, id, origin)),
+    formatStreams: (streamData?.combinedFormats ?? []).map(format => toInvidiousFormat(format, id, origin)),
+    captions: captionTracks.map(track => ({
+      label: track.kind === 'asr' ? `${track.name} (auto-generated)` : track.name,
+      languageCode: track.languageCode,
+      url: `/api/captions/${id}/${encodeURIComponent(track.languageCode)}.vtt${track.kind === 'asr' ? '?kind=asr' : ''}`,
+    })),
+    recommendedVideos: details.relatedVideos.map(video => ({
+      videoId: video.id,
+      title: video.title,
+      videoThumbnails: toVideoThumbnails(video.id),
+      author: video.channelName,
+      authorId: video.channelId,
+      authorUrl: video.channelId ? `/channel/${video.channelId}` : '',
+      lengthSeconds: parseTimestamp(video.duration) ?? 0,
+      viewCountText: video.views,
+      viewCount: parseCountText(video.views),
+    })),
+    chapters: details.chapters,
+  };
+};
+
+const toInvidiousComment = (comment) => ({
+  author: comment.author.name ?? '',
+  authorThumbnails: toImageList(comment.author.thumbnails),
+  authorId: comment.author.id ?? '',
+  authorUrl: comment.author.id ? `/channel/${comment.author.id}` : '',
+  isEdited: false,
+  isPinned: comment.is_pinned,
+  content: comment.text ?? '',
+  contentHtml: toDescriptionHtml(comment.text),
+  published: parsePublishedText(comment.published_time),
+  publishedText: comment.published_time ?? '',
+  likeCount: parseCountText(comment.like_count),
+  commentId: comment.comment_id ?? '',
+  authorIsChannelOwner: false,
+  // 返信の continuation は同じ /api/v1/comments/:id に渡すと返信の一覧になる
+  replies: comment.replies_token ? { replyCount: parseCountText(comment.reply_count), continuation: comment.replies_token } : undefined,
+});
+
+const getRequestOrigin = (req) => `${req.protocol}://${req.get('host')}`;
+
+// Invidious と同じく { error } で返す。4xx (パラメーターの誤り・存在しない ID) はそのまま、それ以外は 500
+const sendInvidiousError = (res, route, err) => {
+  if (err.status >= 400 && err.status < 500) return res.status(err.status).json({ error: err.message });
+  logError(route, err);
+  res.status(500).json({ error: err.message });
+};
+
+// 再生用 URL にリクエストのホストが入るためレスポンスキャッシュは使わない (動画情報とストリームは個別にキャッシュされる)
+app.get('/api/v1/videos/:id', async (req, res) => {
   try {
-    const { url } = req.query;
-    if (!url) return res.status(400).json({ error: "Missing thumbnail URL" });
+    const id = requireVideoId(req.params.id);
+    const [info, streamData, captionTracks] = await Promise.all([
+      fetchVideoInfo(id),
+      // 再生できない動画でもメタデータは返す
+      resolveStreamData(id).catch(err => {
+        log('warn', 'Invidious video without streams', { videoId: id, error: err.message });
+        return null;
+      }),
+      getCaptionTracks(id).catch(() => []),
+    ]);
+    res.status(200).json(toInvidiousVideo(id, info, streamData, captionTracks, getRequestOrigin(req)));
+  } catch (err) {
+    sendInvidiousError(res, '/api/v1/videos/:id', err);
+  }
+});
 
-    const decodedUrl = decodeURIComponent(url);
-    
-    const response = await fetch(decodedUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
-        'Referer': 'https://www.youtube.com/',
-      }
+// Invidious の page (1始まり) を、前のページの continuation をたどって取得する。
+// 取得済みの continuation は覚えておき、次のページの要求では続きから再開する
+const searchPageTokens = new Map();
+const SEARCH_PAGE_TOKENS_MAX = 500;
+
+const fetchSearchPageByNumber = async (query, filters, page) => {
+  const baseKey = `${query}\u0000${JSON.stringify(filters)}`;
+  let start = 1;
+  let continuation;
+  for (let n = page; n > 1; n--) {
+    const token = searchPageTokens.get(`${baseKey}\u0000${n}`);
+    if (token) {
+      start = n;
+      continuation = token;
+      break;
+    }
+  }
+
+  let result = await fetchSearchPage(query, filters, continuation);
+  for (let n = start; n < page; n++) {
+    if (!result.nextPageToken) return { videos: [], shorts: [], channels: [], playlists: [] };
+    searchPageTokens.set(`${baseKey}\u0000${n + 1}`, result.nextPageToken);
+    result = await fetchSearchPage(query, filters, result.nextPageToken);
+  }
+  if (result.nextPageToken) searchPageTokens.set(`${baseKey}\u0000${page + 1}`, result.nextPageToken);
+  // 古いものから捨てる
+  while (searchPageTokens.size > SEARCH_PAGE_TOKENS_MAX) searchPageTokens.delete(searchPageTokens.keys().next().value);
+  return result;
+};
+
+app.get('/api/v1/search', withCache(300), async (req, res) => {
+  try {
+    const { q, page = '1' } = req.query;
+    if (!q) throw new ApiRequestError(400, 'Missing search query');
+    const pageNumber = Number(page);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > INVIDIOUS_MAX_PAGE) {
+      throw new ApiRequestError(400, `Invalid page (1-${INVIDIOUS_MAX_PAGE})`);
+    }
+
+    let filters;
+    try {
+      // Invidious は投稿日の条件を date で受け取る
+      filters = parseSearchFilters({ ...req.query, upload_date: req.query.date });
+    } catch (e) {
+      throw new ApiRequestError(400, e.message);
+    }
+
+    const result = await fetchSearchPageByNumber(String(q), filters, pageNumber);
+    res.status(200).json([
+      ...compact(result.channels, toInvidiousChannelItem),
+      ...compact(result.playlists, toInvidiousPlaylistItem),
+      ...compact(result.videos, toInvidiousVideoItem),
+    ]);
+  } catch (err) {
+    sendInvidiousError(res, '/api/v1/search', err);
+  }
+});
+
+app.get('/api/v1/channels/:id', withCache(600), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const youtube = await getYoutube();
+    const channel = await youtube.getChannel(id);
+    const meta = buildChannelMetadata(channel);
+    // 動画タブが無いチャンネルもあるため、最新動画が取れなくてもチャンネル情報は返す
+    const videosFeed = await channel.getVideos().catch(() => null);
+    const description = meta.description ?? '';
+
+    res.status(200).json({
+      author: meta.name ?? '',
+      authorId: meta.id ?? id,
+      authorUrl: `/channel/${meta.id ?? id}`,
+      authorBanners: toImageList(channel.header?.banner?.image ?? channel.header?.banner ?? channel.metadata?.banner),
+      authorThumbnails: toImageList(channel.metadata?.avatar ?? channel.header?.author?.thumbnails),
+      subCount: parseCountText(meta.subscriberCount),
+      totalViews: 0,
+      joined: 0,
+      autoGenerated: false,
+      isFamilyFriendly: channel.metadata?.is_family_safe ?? true,
+      description,
+      descriptionHtml: toDescriptionHtml(description),
+      allowedRegions: [],
+      tabs: ['videos', 'shorts', 'playlists'],
+      latestVideos: compact(videosFeed?.videos ?? [], item => {
+        const video = toInvidiousVideoItem(item);
+        return video && { ...video, author: video.author || meta.name, authorId: video.authorId || meta.id, authorUrl: `/channel/${video.authorId || meta.id}` };
+      }),
+      relatedChannels: [],
+    });
+  } catch (err) {
+    sendInvidiousError(res, '/api/v1/channels/:id', err);
+  }
+});
+
+app.get('/api/v1/channels/:id/videos', withCache(600), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { continuation, sort_by: sortBy } = req.query;
+    if (sortBy && !INVIDIOUS_CHANNEL_VIDEO_SORTS.includes(sortBy)) throw new ApiRequestError(400, `Unsupported sort_by: ${sortBy}`);
+
+    const page = await fetchChannelVideosPage(id, continuation || undefined);
+    const videos = compact(page.videos, item => {
+      const video = toInvidiousVideoItem(item);
+      if (!video) return null;
+      const authorId = page.channel?.id || video.authorId || id;
+      return { ...video, author: page.channel?.name || video.author, authorId, authorUrl: `/channel/${authorId}` };
+    });
+    res.status(200).json({ videos, continuation: page.nextPageToken ?? null });
+  } catch (err) {
+    sendInvidiousError(res, '/api/v1/channels/:id/videos', err);
+  }
+});
+
+// Invidious と同じく page (1始まり) で続きを取得する
+app.get('/api/v1/playlists/:id', withCache(600), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const pageNumber = Number(req.query.page ?? 1);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > INVIDIOUS_MAX_PAGE) {
+      throw new ApiRequestError(400, `Invalid page (1-${INVIDIOUS_MAX_PAGE})`);
+    }
+
+    const youtube = await getYoutube();
+    const playlist = await youtube.getPlaylist(id);
+    if (!playlist.info?.id) throw new ApiRequestError(404, 'Playlist not found');
+
+    let current = playlist;
+    for (let n = 1; n < pageNumber && current; n++) {
+      current = current.has_continuation ? await current.getContinuation() : null;
+    }
+    const items = current?.videos ?? [];
+    const offset = items.length > 0 ? parseCountText(textOf(items[0].index)) - 1 : 0;
+
+    const info = playlist.info;
+    const description = textOf(info.description) ?? '';
+    res.status(200).json({
+      type: 'playlist',
+      title: textOf(info.title) ?? '',
+      playlistId: id,
+      playlistThumbnail: info.thumbnails?.[0]?.url ?? '',
+      author: info.author?.name ?? '',
+      authorId: info.author?.id ?? '',
+      authorUrl: info.author?.id ? `/channel/${info.author.id}` : '',
+      authorThumbnails: toImageList(info.author?.thumbnails),
+      description,
+      descriptionHtml: toDescriptionHtml(description),
+      videoCount: parseCountText(textOf(info.total_items)),
+      viewCount: parseCountText(textOf(info.views)),
+      updated: parseDateText(textOf(info.last_updated)),
+      isListed: true,
+      videos: compact(items, (item, i) => {
+        const video = toInvidiousVideoItem(item);
+        if (!video) return null;
+        return {
+          title: video.title,
+          videoId: video.videoId,
+          author: video.author,
+          authorId: video.authorId,
+          authorUrl: video.authorUrl,
+          videoThumbnails: video.videoThumbnails,
+          index: Math.max(offset, 0) + i,
+          lengthSeconds: video.lengthSeconds,
+        };
+      }),
+    });
+  } catch (err) {
+    sendInvidiousError(res, '/api/v1/playlists/:id', err);
+  }
+});
+
+// continuation にコメントの replies.continuation を渡すと返信の一覧を返す (Invidious と同じ使い方)
+app.get('/api/v1/comments/:id', withCache(300), async (req, res) => {
+  try {
+    const id = requireVideoId(req.params.id);
+    const { continuation, sort_by: sortBy = 'top' } = req.query;
+    // __proto__ などを並び順として受け付けないよう、自身のキーだけを見る
+    const sort = Object.hasOwn(INVIDIOUS_COMMENT_SORTS, sortBy) ? INVIDIOUS_COMMENT_SORTS[sortBy] : null;
+    if (!sort) throw new ApiRequestError(400, `Unsupported sort_by: ${sortBy}`);
+
+    // コメント一覧のトークンには並び順 (s) が入っており、返信のトークンには入っていない
+    const payload = continuation ? decodeContinuation(continuation) : null;
+    if (continuation && !payload) throw new ContinuationError();
+    const page = payload && !payload.s
+      ? await fetchCommentReplies(id, continuation)
+      : await fetchCommentsPage(id, payload?.s ?? sort, continuation || undefined);
+
+    res.status(200).json({
+      commentCount: page.countText ? parseCountText(page.countText) : undefined,
+      videoId: id,
+      comments: page.comments.map(toInvidiousComment),
+      continuation: page.nextPageToken ?? null,
     });
+  } catch (err) {
+    sendInvidiousError(res, '/api/v1/comments/:id', err);
+  }
+});
 
-    if (!response.ok) {
-      return res.status(response.status).json({ error: "Failed to fetch thumbnail" });
+// -------------------------------------------------------------------
+// Atom フィード API (/api/feed/channel/:id.xml, /api/feed/merged.xml?channels=)
+// チャンネル動画 API と同じデータ (最新ページ) から Atom を生成する。各エントリのリンクはこのインスタンスの /watch/:id を指す。
+// XML にはリクエストのホストが入るため、チャンネルごとのエントリだけをキャッシュし、XML はリクエストごとに組み立てる
+// -------------------------------------------------------------------
+const CHANNEL_ID_PATTERN = /^UC[A-Za-z0-9_-]{22}$/;
+const CHANNEL_FEED_TTL = 15 * 60 * 1000;
+const FEED_MAX_CHANNELS = 30;
+const FEED_MAX_ENTRIES = 100;
+const FEED_FETCH_CONCURRENCY = 4;
+
+const channelFeedCache = new Map();
+
+// { channel: { id, name }, entries: [{ video, published }] } を返す。published は相対表記から推定した UNIX 時刻 (ミリ秒)
+const getChannelFeed = async (id) => {
+  const cached = channelFeedCache.get(id);
+  if (cached && cached.expiry > Date.now()) return cached.feed;
+
+  const page = await fetchChannelVideosPage(id);
+  const fetchedAt = Date.now();
+  const entries = compact(page.videos, item => {
+    const video = toVideoDto(item);
+    if (!video) return null;
+    // 投稿日が読めない動画 (ライブ配信の予定など) は取得時刻を使う
+    const published = parsePublishedText(video.uploadedAt) * 1000 || fetchedAt;
+    return {
+      video: { ...video, channelName: page.channel?.name || video.channelName, channelId: id },
+      published,
+    };
+  });
+  const feed = { channel: { id, name: page.channel?.name ?? id }, entries };
+
+  channelFeedCache.set(id, { feed, expiry: Date.now() + CHANNEL_FEED_TTL });
+  for (const [key, entry] of channelFeedCache) {
+    if (entry.expiry <= Date.now()) channelFeedCache.delete(key);
+  }
+  return feed;
+};
+
+// 上流への同時接続数を抑えながら、各チャンネルのフィードを取得する (失敗したチャンネルは null)
+const getChannelFeeds = async (ids) => {
+  const results = new Array(ids.length).fill(null);
+  let next = 0;
+  const worker = async () => {
+    while (next < ids.length) {
+      const index = next++;
+      try {
+        results[index] = await getChannelFeed(ids[index]);
+      } catch (err) {
+        log('warn', 'Failed to fetch channel feed', { channelId: ids[index], error: err.message });
+      }
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(FEED_FETCH_CONCURRENCY, ids.length) }, worker));
+  return results;
+};
 
-    const contentType = response.headers.get('content-type') || 'image/jpeg';
-    res.setHeader('Content-Type', contentType);
-    res.setHeader('Cache-Control', 'public, max-age=86400');
-    res.setHeader('Access-Control-Allow-Origin', '*');
+const toAtomEntry = ({ video, published }, origin) => {
+  const watchUrl = `${origin}/watch/${video.id}`;
+  const thumbnailUrl = `${origin}/api/thumbnail/${video.id}`;
+  const summary = video.descriptionSnippet || `${video.views} • ${video.uploadedAt}`;
+  const content = `<a href="${escapeXml(watchUrl)}"><img src="${escapeXml(thumbnailUrl)}" alt="${escapeXml(video.title)}" /></a><p>${escapeXml(summary)}</p>`;
+  const timestamp = new Date(published).toISOString();
+  return [
+    '  <entry>',
+    `    <id>yt:video:${escapeXml(video.id)}</id>`,
+    `    <title>${escapeXml(video.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(watchUrl)}"/>`,
+    `    <author><name>${escapeXml(video.channelName)}</name><uri>${escapeXml(`${origin}/channel/${video.channelId}`)}</uri></author>`,
+    `    <published>${timestamp}</published>`,
+    `    <updated>${timestamp}</updated>`,
+    `    <summary type="text">${escapeXml(summary)}</summary>`,
+    `    <content type="html">${escapeXml(content)}</content>`,
+    `    <media:thumbnail url="${escapeXml(thumbnailUrl)}" width="480" height="360"/>`,
+    '  </entry>',
+  ].join('\n');
+};
+
+const buildAtomFeed = ({ id, title, selfUrl, alternateUrl, entries }, origin) => {
+  const updated = new Date(entries.length > 0 ? Math.max(...entries.map(entry => entry.published)) : Date.now()).toISOString();
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    `  <id>${escapeXml(id)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(alternateUrl)}"/>`,
+    `  <updated>${updated}</updated>`,
+    '  <generator>XeroxYT</generator>',
+    ...entries.map(entry => toAtomEntry(entry, origin)),
+    '</feed>',
+    '',
+  ].join('\n');
+};
 
-    const buffer = await response.arrayBuffer();
-    res.send(Buffer.from(buffer));
+const sendAtomFeed = (res, xml) => {
+  res.setHeader('Content-Type', 'application/atom+xml; charset=utf-8');
+  res.setHeader('Cache-Control', `public, max-age=${CHANNEL_FEED_TTL / 1000}`);
+  res.status(200).send(xml);
+};
 
+app.get('/api/feed/channel/:id.xml', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!CHANNEL_ID_PATTERN.test(id)) return res.status(400).json({ error: "Invalid channel id" });
+
+    const origin = getRequestOrigin(req);
+    const feed = await getChannelFeed(id);
+    sendAtomFeed(res, buildAtomFeed({
+      id: `yt:channel:${id}`,
+      title: feed.channel.name,
+      selfUrl: `${origin}${req.originalUrl}`,
+      alternateUrl: `${origin}/channel/${id}`,
+      entries: feed.entries,
+    }, origin));
   } catch (err) {
-    console.error('Error in /api/proxy-thumbnail:', err);
+    logError('/api/feed/channel/:id.xml', err);
     res.status(500).json({ error: err.message });
   }
 });
 
+app.get('/api/feed/merged.xml', async (req, res) => {
+  try {
+    const ids = [...new Set(String(req.query.channels ?? '').split(',').map(id => id.trim()).filter(Boolean))];
+    if (ids.length === 0) return res.status(400).json({ error: "Missing channels" });
+    if (ids.length > FEED_MAX_CHANNELS) return res.status(400).json({ error: `Too many channels (max ${FEED_MAX_CHANNELS})` });
+    const invalid = ids.find(id => !CHANNEL_ID_PATTERN.test(id));
+    if (invalid) return res.status(400).json({ error: `Invalid channel id: ${invalid}` });
+
+    const feeds = (await getChannelFeeds(ids)).filter(Boolean);
+    if (feeds.length === 0) return res.status(502).json({ error: "Failed to fetch all channels" });
+
+    const origin = getRequestOrigin(req);
+    const entries = feeds
+      .flatMap(feed => feed.entries)
+      .sort((a, b) => b.published - a.published)
+      .slice(0, FEED_MAX_ENTRIES);
+    sendAtomFeed(res, buildAtomFeed({
+      // 同じチャンネルの組み合わせなら順序に関わらず同じフィードとみなす
+      id: `xeroxyt:merged:${[...ids].sort().join(',')}`,
+      title: `XeroxYT 登録チャンネル (${feeds.length})`,
+      selfUrl: `${origin}${req.originalUrl}`,
+      alternateUrl: `${origin}/subscriptions`,
+      entries,
+    }, origin));
+  } catch (err) {
+    logError('/api/feed/merged.xml', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// サムネイル取得 (SSRF 対策)
+// 許可したホストのみを対象に、DNS 解決後のアドレスがプライベート・ループバックでないことを
+// 接続時に確認する。リダイレクトは同じ検証をやり直して追従し、画像以外・巨大なレスポンスは拒否する
+// -------------------------------------------------------------------
+const THUMBNAIL_ALLOWED_HOSTS = ['ytimg.com', 'ggpht.com', 'googleusercontent.com'];
+const THUMBNAIL_MAX_BYTES = 5 * 1024 * 1024; // 5MB
+const THUMBNAIL_TIMEOUT = 10000;
+const THUMBNAIL_MAX_REDIRECTS = 3;
+const THUMBNAIL_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+class ThumbnailFetchError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'ThumbnailFetchError';
+    this.status = status;
+  }
+}
+
+const isAllowedThumbnailHost = (hostname) => {
+  const host = hostname.toLowerCase();
+  return THUMBNAIL_ALLOWED_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+};
+
+const isPrivateAddress = (address) => {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127) // CGNAT
+      || (a === 169 && b === 254) // link-local
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+  const lower = address.toLowerCase();
+  // IPv4 射影アドレス (::ffff:10.0.0.1) は IPv4 として判定する
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return lower === '::' || lower === '::1'
+    || lower.startsWith('fc') || lower.startsWith('fd') // unique local
+    || /^fe[89ab]/.test(lower) // link-local
+    || lower.startsWith('ff'); // multicast
+};
+
+// 接続に使うアドレスそのものを検証するため、DNS rebinding でも検証をすり抜けられない
+const safeLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) return callback(new ThumbnailFetchError(403, `Resolved to a private address: ${blocked.address}`));
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const parseThumbnailUrl = (rawUrl) => {
+  let url;
+  try {
+    // プロトコル相対 (//yt3.ggpht.com/...) の URL も受け付ける
+    url = new URL(rawUrl.startsWith('//') ? `https:${rawUrl}` : rawUrl);
+  } catch {
+    throw new ThumbnailFetchError(400, 'Invalid thumbnail URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new ThumbnailFetchError(400, 'Unsupported protocol');
+  if (url.username || url.password || url.port) throw new ThumbnailFetchError(403, 'Credentials and custom ports are not allowed');
+  if (net.isIP(url.hostname.replace(/^\[|\]$/g, '')) || !isAllowedThumbnailHost(url.hostname)) {
+    throw new ThumbnailFetchError(403, `Host not allowed: ${url.hostname}`);
+  }
+  return url;
+};
+
+// { contentType, body, etag, lastModified } を返す (条件付きリクエストで 304 の場合は { notModified: true })。
+// 失敗時は HTTP ステータス付きの ThumbnailFetchError を投げる
+const fetchThumbnail = (rawUrl, headers = {}, redirects = 0) => new Promise((resolve, reject) => {
+  let url;
+  try {
+    url = parseThumbnailUrl(rawUrl);
+  } catch (err) {
+    return reject(err);
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  const request = client.get(url, {
+    lookup: safeLookup,
+    timeout: THUMBNAIL_TIMEOUT,
+    headers: {
+      'User-Agent': THUMBNAIL_USER_AGENT,
+      'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
+      ...headers,
+    },
+  }, (response) => {
+    const { statusCode = 0 } = response;
+    if (statusCode >= 300 && statusCode < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= THUMBNAIL_MAX_REDIRECTS) return reject(new ThumbnailFetchError(502, 'Too many redirects'));
+      return resolve(fetchThumbnail(new URL(response.headers.location, url).toString(), headers, redirects + 1));
+    }
+    if (statusCode === 304) {
+      response.resume();
+      return resolve({ notModified: true });
+    }
+    if (statusCode !== 200) {
+      response.resume();
+      return reject(new ThumbnailFetchError(statusCode === 404 ? 404 : 502, `Upstream returned ${statusCode}`));
+    }
+
+    const contentType = response.headers['content-type'] ?? '';
+    if (!contentType.startsWith('image/')) {
+      response.resume();
+      return reject(new ThumbnailFetchError(415, `Unexpected content type: ${contentType || 'none'}`));
+    }
+    if (Number(response.headers['content-length']) > THUMBNAIL_MAX_BYTES) {
+      response.destroy();
+      return reject(new ThumbnailFetchError(413, 'Thumbnail too large'));
+    }
+
+    const chunks = [];
+    let size = 0;
+    response.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > THUMBNAIL_MAX_BYTES) {
+        response.destroy();
+        return reject(new ThumbnailFetchError(413, 'Thumbnail too large'));
+      }
+      chunks.push(chunk);
+    });
+    response.on('end', () => resolve({
+      contentType,
+      body: Buffer.concat(chunks),
+      etag: response.headers.etag ?? null,
+      lastModified: response.headers['last-modified'] ?? null,
+    }));
+    response.on('error', reject);
+  });
+
+  request.on('timeout', () => request.destroy(new ThumbnailFetchError(504, 'Upstream timed out')));
+  request.on('error', (err) => reject(err instanceof ThumbnailFetchError ? err : new ThumbnailFetchError(502, err.message)));
+});
+
+// -------------------------------------------------------------------
+// IP ごとのレート制限 (固定ウィンドウ)
+// -------------------------------------------------------------------
+const createRateLimiter = ({ windowMs, max }) => {
+  const buckets = new Map();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    // 期限切れのバケットが溜まりすぎないよう、一定数を超えたら掃除する
+    if (buckets.size > 10000) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.resetAt <= now) buckets.delete(key);
+      }
+    }
+
+    const key = req.ip ?? 'unknown';
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + windowMs };
+      buckets.set(key, bucket);
+    }
+    bucket.count++;
+
+    res.setHeader('RateLimit-Limit', max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, max - bucket.count));
+    if (bucket.count > max) {
+      res.setHeader('Retry-After', Math.ceil((bucket.resetAt - now) / 1000));
+      return res.status(429).json({ error: "Too many requests" });
+    }
+    next();
+  };
+};
+
+// サムネイル一覧のグリッドは一度に数十枚を読み込むため、余裕を持たせる
+const thumbnailRateLimit = createRateLimiter({ windowMs: 60 * 1000, max: 600 });
+
+const sendThumbnailError = (res, err, route) => {
+  if (err instanceof ThumbnailFetchError) {
+    // 4xx は不正な URL などクライアント側の問題なのでエラーとして数えない
+    if (err.status >= 500) {
+      errorsTotal.inc({ route, type: err.name });
+      log('warn', `Upstream thumbnail error in ${route}`, { route, error: err.message, status: err.status });
+    }
+    return res.status(err.status).json({ error: err.message });
+  }
+  logError(route, err);
+  res.status(500).json({ error: err.message });
+};
+
+// -------------------------------------------------------------------
+// サムネイルのディスクキャッシュ
+// 元画像とリサイズ済みの派生画像をファイルとして保持し、合計サイズが上限を超えたら
+// 最も長く使われていないものから削除する。一定時間が経った元画像は上流に条件付きリクエストで再検証する
+// -------------------------------------------------------------------
+const THUMBNAIL_CACHE_DIR = process.env.THUMBNAIL_CACHE_DIR || path.join(os.tmpdir(), 'xeroxyt-thumbnails');
+const THUMBNAIL_CACHE_MAX_BYTES = Number(process.env.THUMBNAIL_CACHE_MAX_BYTES) || 256 * 1024 * 1024; // 256MB
+const THUMBNAIL_REVALIDATE_AFTER = 24 * 60 * 60 * 1000; // 24 hours
+// 派生画像の種類が無制限に増えないよう、幅は決まった段階に丸める
+const THUMBNAIL_WIDTHS = [120, 160, 240, 320, 480, 640, 960, 1280];
+const THUMBNAIL_FORMATS = { webp: 'image/webp', avif: 'image/avif', jpeg: 'image/jpeg' };
+
+const hashKey = (value) => crypto.createHash('sha1').update(value).digest('hex');
+
+const createThumbnailCache = ({ dir, maxBytes }) => {
+  // key -> { size, lastAccess }。Map の挿入順を LRU の順序として使う
+  const index = new Map();
+  let totalBytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+  let loading = null;
+
+  const filesFor = (key) => ({ body: path.join(dir, `${key}.bin`), meta: path.join(dir, `${key}.json`) });
+
+  // 起動後の最初のアクセスで既存のファイルから索引を作り直す
+  const load = () => loading ??= (async () => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const files = await fs.promises.readdir(dir);
+    const entries = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const key = file.slice(0, -'.json'.length);
+      try {
+        const meta = JSON.parse(await fs.promises.readFile(path.join(dir, file), 'utf8'));
+        const stat = await fs.promises.stat(filesFor(key).body);
+        entries.push({ key, size: meta.size, lastAccess: stat.atimeMs });
+      } catch {
+        await remove(key);
+      }
+    }
+    for (const entry of entries.sort((a, b) => a.lastAccess - b.lastAccess)) {
+      index.set(entry.key, { size: entry.size, lastAccess: entry.lastAccess });
+      totalBytes += entry.size;
+    }
+  })().catch(err => {
+    log('warn', 'Thumbnail cache is unavailable', { error: err.message });
+  });
+
+  const remove = async (key) => {
+    const entry = index.get(key);
+    if (entry) {
+      index.delete(key);
+      totalBytes -= entry.size;
+    }
+    const files = filesFor(key);
+    await Promise.all([fs.promises.rm(files.body, { force: true }), fs.promises.rm(files.meta, { force: true })]);
+  };
+
+  const touch = (key) => {
+    const entry = index.get(key);
+    if (!entry) return;
+    index.delete(key);
+    index.set(key, { ...entry, lastAccess: Date.now() });
+  };
+
+  const writeMeta = async (key, meta) => {
+    const files = filesFor(key);
+    const tmp = `${files.meta}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(meta));
+    await fs.promises.rename(tmp, files.meta);
+  };
+
+  return {
+    // { meta, body } を返す。見つからない場合は null。
+    // 本文はここで読み込んでおく (返した後に他のリクエストの set で追い出されても、呼び出し側はそのまま使える)
+    get: async (key) => {
+      await load();
+      if (!index.has(key)) {
+        misses++;
+        return null;
+      }
+      try {
+        const files = filesFor(key);
+        const [meta, body] = await Promise.all([
+          fs.promises.readFile(files.meta, 'utf8').then(JSON.parse),
+          fs.promises.readFile(files.body),
+        ]);
+        touch(key);
+        hits++;
+        return { meta, body };
+      } catch {
+        await remove(key);
+        misses++;
+        return null;
+      }
+    },
+    set: async (key, body, meta) => {
+      await load();
+      const files = filesFor(key);
+      const fullMeta = { ...meta, size: body.length, etag: hashKey(body).slice(0, 27), storedAt: Date.now() };
+      const tmp = `${files.body}.${crypto.randomUUID()}.tmp`;
+      await fs.promises.writeFile(tmp, body);
+      await fs.promises.rename(tmp, files.body);
+      await writeMeta(key, fullMeta);
+
+      const previous = index.get(key);
+      if (previous) totalBytes -= previous.size;
+      index.delete(key);
+      index.set(key, { size: body.length, lastAccess: Date.now() });
+      totalBytes += body.length;
+
+      while (totalBytes > maxBytes && index.size > 1) {
+        const oldestKey = index.keys().next().value;
+        await remove(oldestKey);
+        evictions++;
+      }
+      return { meta: fullMeta, body };
+    },
+    // 上流から 304 が返ったときに再検証時刻だけを更新する
+    revalidated: async (key, entry) => {
+      const updated = { ...entry.meta, fetchedAt: Date.now() };
+      await writeMeta(key, updated);
+      touch(key);
+      return { meta: updated, body: entry.body };
+    },
+    stats: () => {
+      const lookups = hits + misses;
+      return {
+        dir,
+        entries: index.size,
+        bytes: totalBytes,
+        maxBytes,
+        hits,
+        misses,
+        evictions,
+        hitRatio: lookups > 0 ? hits / lookups : 0,
+      };
+    },
+  };
+};
+
+const thumbnailCache = createThumbnailCache({ dir: THUMBNAIL_CACHE_DIR, maxBytes: THUMBNAIL_CACHE_MAX_BYTES });
+
+// 同じキーへの同時のキャッシュミスでは、上流の取得と画像の生成を1回だけ行い、結果を共有する
+const thumbnailInflight = new Map();
+const singleFlight = (key, fn) => {
+  if (thumbnailInflight.has(key)) return thumbnailInflight.get(key);
+  const promise = fn().finally(() => thumbnailInflight.delete(key));
+  thumbnailInflight.set(key, promise);
+  return promise;
+};
+
+// ?w=320&fmt=webp を { width, format } に変換する。指定がなければ null (元画像をそのまま返す)
+const parseThumbnailVariant = (query) => {
+  const { w, fmt } = query;
+  if (w === undefined && fmt === undefined) return null;
+
+  let width = null;
+  if (w !== undefined) {
+    const requested = Number(w);
+    if (!Number.isInteger(requested) || requested <= 0) throw new ThumbnailFetchError(400, `Invalid width: ${w}`);
+    width = THUMBNAIL_WIDTHS.find(step => step >= requested) ?? THUMBNAIL_WIDTHS.at(-1);
+  }
+  const format = fmt ?? 'jpeg';
+  // Object.prototype のキー (constructor など) を形式として受け付けないよう、自身のキーだけを見る
+  if (!Object.hasOwn(THUMBNAIL_FORMATS, format)) throw new ThumbnailFetchError(400, `Unsupported format: ${fmt}`);
+  return { width, format };
+};
+
+// 元画像をキャッシュから取得し、古ければ上流に再検証する。上流が落ちていても古いキャッシュがあればそれを使う
+const getSourceThumbnail = (upstreamUrl, headers) => {
+  const key = hashKey(upstreamUrl);
+  return singleFlight(key, () => refreshSourceThumbnail(key, upstreamUrl, headers));
+};
+
+const refreshSourceThumbnail = async (key, upstreamUrl, headers) => {
+  const cached = await thumbnailCache.get(key);
+  if (cached && Date.now() - cached.meta.fetchedAt < THUMBNAIL_REVALIDATE_AFTER) return cached;
+
+  const conditional = {};
+  if (cached?.meta.upstreamEtag) conditional['If-None-Match'] = cached.meta.upstreamEtag;
+  if (cached?.meta.lastModified) conditional['If-Modified-Since'] = cached.meta.lastModified;
+
+  try {
+    const result = await trackUpstream('thumbnail', () => fetchThumbnail(upstreamUrl, { ...headers, ...conditional }));
+    if (result.notModified && cached) return await thumbnailCache.revalidated(key, cached);
+    return await thumbnailCache.set(key, result.body, {
+      url: upstreamUrl,
+      contentType: result.contentType,
+      upstreamEtag: result.etag,
+      lastModified: result.lastModified ?? new Date().toUTCString(),
+      fetchedAt: Date.now(),
+    });
+  } catch (err) {
+    if (!cached || err.status === 404) throw err;
+    log('warn', 'Serving stale thumbnail', { url: upstreamUrl, error: err.message });
+    return cached;
+  }
+};
+
+const getThumbnailVariant = (upstreamUrl, source, variant) => {
+  const key = hashKey(`${upstreamUrl}|w=${variant.width ?? ''}|fmt=${variant.format}`);
+  return singleFlight(key, () => buildThumbnailVariant(key, upstreamUrl, source, variant));
+};
+
+const buildThumbnailVariant = async (key, upstreamUrl, source, variant) => {
+  const cached = await thumbnailCache.get(key);
+  // 元画像が更新されていたら作り直す
+  if (cached && cached.meta.sourceEtag === source.meta.etag) return cached;
+
+  let image = sharp(source.body);
+  if (variant.width) image = image.resize({ width: variant.width, withoutEnlargement: true });
+  const body = await image.toFormat(variant.format, { quality: variant.format === 'avif' ? 50 : 75 }).toBuffer();
+  return thumbnailCache.set(key, body, {
+    url: upstreamUrl,
+    contentType: THUMBNAIL_FORMATS[variant.format],
+    lastModified: source.meta.lastModified,
+    sourceEtag: source.meta.etag,
+    fetchedAt: Date.now(),
+  });
+};
+
+// キャッシュ経由でサムネイルを返す。ETag / Last-Modified によりクライアントの条件付きリクエストには 304 を返す
+const sendCachedThumbnail = async (req, res, upstreamUrl, headers = {}) => {
+  const variant = parseThumbnailVariant(req.query);
+  const source = await getSourceThumbnail(upstreamUrl, headers);
+  const entry = variant ? await getThumbnailVariant(upstreamUrl, source, variant) : source;
+
+  res.setHeader('Content-Type', entry.meta.contentType);
+  res.setHeader('Cache-Control', 'public, max-age=86400');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('ETag', `"${entry.meta.etag}"`);
+  if (entry.meta.lastModified) res.setHeader('Last-Modified', entry.meta.lastModified);
+  if (req.fresh) return res.status(304).end();
+
+  res.setHeader('Content-Length', entry.body.length);
+  res.status(200).end(entry.body);
+};
+
+// -------------------------------------------------------------------
+// プロキシサムネイル API (/api/proxy-thumbnail)
+// -------------------------------------------------------------------
+app.get('/api/proxy-thumbnail', thumbnailRateLimit, async (req, res) => {
+  try {
+    const { url } = req.query;
+    if (!url || typeof url !== 'string') return res.status(400).json({ error: "Missing thumbnail URL" });
+
+    let decodedUrl;
+    try {
+      decodedUrl = decodeURIComponent(url);
+    } catch {
+      decodedUrl = url;
+    }
+
+    // キャッシュキーにする前に許可ホストかどうかを確認する
+    parseThumbnailUrl(decodedUrl);
+    await sendCachedThumbnail(req, res, decodedUrl, { 'Referer': 'https://www.youtube.com/' });
+
+  } catch (err) {
+    sendThumbnailError(res, err, '/api/proxy-thumbnail');
+  }
+});
+
 // -------------------------------------------------------------------
 // 動画IDからプロキシサムネイル取得 (/api/thumbnail/:videoId)
 // -------------------------------------------------------------------
-app.get('/api/thumbnail/:videoId', async (req, res) => {
+app.get('/api/thumbnail/:videoId', thumbnailRateLimit, async (req, res) => {
   try {
     const { videoId } = req.params;
     const { quality } = req.query;
     
-    if (!videoId) return res.status(400).json({ error: "Missing video id" });
+    if (!videoId || !/^[a-zA-Z0-9_-]{11}$/.test(videoId)) return res.status(400).json({ error: "Invalid video id" });
 
     const qualityMap = {
       'maxres': 'maxresdefault',
@@ -534,29 +3363,137 @@ app.get('/api/thumbnail/:videoId', async (req, res) => {
     const thumbnailQuality = qualityMap[quality] || 'hqdefault';
     const thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/${thumbnailQuality}.jpg`;
     
-    const response = await fetch(thumbnailUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
-      }
-    });
+    await sendCachedThumbnail(req, res, thumbnailUrl);
 
-    if (!response.ok) {
-      return res.status(response.status).json({ error: "Failed to fetch thumbnail" });
-    }
+  } catch (err) {
+    sendThumbnailError(res, err, '/api/thumbnail');
+  }
+});
 
-    const contentType = response.headers.get('content-type') || 'image/jpeg';
-    res.setHeader('Content-Type', contentType);
-    res.setHeader('Cache-Control', 'public, max-age=86400');
-    res.setHeader('Access-Control-Allow-Origin', '*');
+// -------------------------------------------------------------------
+// 監視 API (/api/metrics, /api/health)
+// -------------------------------------------------------------------
+// 連続でこの回数失敗した上流は停止中とみなす
+const UPSTREAM_DOWN_THRESHOLD = 3;
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+metrics.collected('cache_lookups_total', 'counter', 'Cache lookups by cache, route and result.', () => {
+  const { routes } = responseCache.stats();
+  const thumbnails = thumbnailCache.stats();
+  return [
+    ...Object.entries(routes).flatMap(([route, { hits, misses }]) => [
+      { labels: { cache: 'response', route, result: 'hit' }, value: hits },
+      { labels: { cache: 'response', route, result: 'miss' }, value: misses },
+    ]),
+    { labels: { cache: 'thumbnail', route: 'all', result: 'hit' }, value: thumbnails.hits },
+    { labels: { cache: 'thumbnail', route: 'all', result: 'miss' }, value: thumbnails.misses },
+  ];
+});
 
-    const buffer = await response.arrayBuffer();
-    res.send(Buffer.from(buffer));
+const cacheStats = () => ({ response: responseCache.stats(), thumbnail: thumbnailCache.stats() });
+
+metrics.collected('cache_hit_ratio', 'gauge', 'Cache hit ratio since startup.', () =>
+  Object.entries(cacheStats()).map(([cache, stats]) => ({ labels: { cache }, value: stats.hitRatio })));
+metrics.collected('cache_entries', 'gauge', 'Number of cached entries.', () =>
+  Object.entries(cacheStats()).map(([cache, stats]) => ({ labels: { cache }, value: stats.entries })));
+metrics.collected('cache_bytes', 'gauge', 'Total size of cached entries in bytes.', () =>
+  Object.entries(cacheStats()).map(([cache, stats]) => ({ labels: { cache }, value: stats.bytes })));
+metrics.collected('cache_evictions_total', 'counter', 'Cache entries evicted to stay within limits.', () =>
+  Object.entries(cacheStats()).map(([cache, stats]) => ({ labels: { cache }, value: stats.evictions })));
+
+metrics.collected('upstream_up', 'gauge', 'Whether an upstream answered its recent calls (1) or is failing (0).', () =>
+  [...upstreamState].map(([upstream, state]) => ({
+    labels: { upstream },
+    value: state.consecutiveFailures < UPSTREAM_DOWN_THRESHOLD ? 1 : 0,
+  })));
+
+metrics.collected('provider_up', 'gauge', 'Whether a provider backend is available (circuit not open and probe not failing).', () =>
+  Object.entries(providers.status().capabilities).flatMap(([capability, backends]) =>
+    backends.map(backend => ({
+      labels: { capability, provider: backend.name },
+      value: backend.circuit !== 'open' && backend.healthy !== false ? 1 : 0,
+    }))));
+
+metrics.collected('process_uptime_seconds', 'gauge', 'Process uptime in seconds.', () =>
+  [{ labels: {}, value: process.uptime() }]);
+metrics.collected('process_resident_memory_bytes', 'gauge', 'Resident memory size in bytes.', () =>
+  [{ labels: {}, value: process.memoryUsage().rss }]);
+metrics.collected('nodejs_heap_used_bytes', 'gauge', 'V8 heap used in bytes.', () =>
+  [{ labels: {}, value: process.memoryUsage().heapUsed }]);
+
+app.get('/api/metrics', (req, res) => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(metrics.render());
+});
 
+// 生存確認 (/api/health/live)。上流の状態に左右されないため、プラットフォームの死活監視にはこちらを使う
+app.get('/api/health/live', (req, res) => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json({ status: 'ok', timestamp: Date.now() });
+});
+
+// 1項目を実行し、{ status, latencyMs, ... } にまとめる。例外は fail として扱う
+const runHealthCheck = async (check) => {
+  const startedAt = performance.now();
+  try {
+    const result = await runWithTimeout(check, HEALTH_CHECK_TIMEOUT);
+    return { status: 'ok', latencyMs: Math.round(performance.now() - startedAt), ...result };
   } catch (err) {
-    console.error('Error in /api/thumbnail:', err);
-    res.status(500).json({ error: err.message });
+    return { status: 'fail', latencyMs: Math.round(performance.now() - startedAt), error: err.message };
   }
+};
+
+// ヘルスチェック (/api/health)
+// YouTube への接続 (Innertube セッション) が作れなければ down (503)、
+// 補助的な機能 (フォールバック先・キャッシュ・ffmpeg) に問題があれば degraded (200) を返す
+app.get('/api/health', async (req, res) => {
+  const [youtubei, thumbnailCacheCheck, ffmpeg] = await Promise.all([
+    runHealthCheck(async () => {
+      await getYoutube();
+      return {};
+    }),
+    runHealthCheck(async () => {
+      await fs.promises.mkdir(THUMBNAIL_CACHE_DIR, { recursive: true });
+      await fs.promises.access(THUMBNAIL_CACHE_DIR, fs.constants.W_OK);
+      return {};
+    }),
+    runHealthCheck(async () => {
+      if (!ffmpegPath || !fs.existsSync(ffmpegPath)) throw new Error('ffmpeg binary not found');
+      return {};
+    }),
+  ]);
+
+  // 全バックエンドのサーキットが開いている機能は利用できない
+  const unavailableCapabilities = Object.entries(providers.status().capabilities)
+    .filter(([, backends]) => backends.every(backend => backend.circuit === 'open'))
+    .map(([capability]) => capability);
+  const failingUpstreams = [...upstreamState]
+    .filter(([, state]) => state.consecutiveFailures >= UPSTREAM_DOWN_THRESHOLD)
+    .map(([upstream]) => upstream);
+
+  const checks = {
+    youtubei,
+    providers: unavailableCapabilities.length > 0
+      ? { status: 'fail', unavailable: unavailableCapabilities }
+      : { status: 'ok' },
+    upstreams: failingUpstreams.length > 0
+      ? { status: 'fail', failing: failingUpstreams }
+      : { status: 'ok' },
+    thumbnailCache: thumbnailCacheCheck,
+    ffmpeg,
+  };
+
+  const status = youtubei.status !== 'ok' ? 'down'
+    : Object.values(checks).some(check => check.status !== 'ok') ? 'degraded'
+    : 'ok';
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(status === 'down' ? 503 : 200).json({
+    status,
+    timestamp: Date.now(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks,
+  });
 });
 
 // 本番環境でSPA用のフォールバック
@@ -568,9 +3505,13 @@ if (process.env.NODE_ENV === 'production') {
 
 const PORT = process.env.PORT || 10000;
 if (!process.env.VERCEL) {
+  // 常駐する環境では定期的にヘルスプローブを実行する (Vercel では /api/providers/status?probe=1 で手動実行)
+  setInterval(() => {
+    providers.probe().catch(err => log('warn', 'Provider probe failed', { error: err.message }));
+  }, PROVIDER_PROBE_INTERVAL).unref();
+
   const server = app.listen(PORT, '0.0.0.0', () => {
-    console.log(`API Server running on port ${PORT}`);
-    console.log(`Health check available at http://0.0.0.0:${PORT}/api/health`);
+    log('info', 'API server started', { port: Number(PORT), health: `http://0.0.0.0:${PORT}/api/health`, metrics: `http://0.0.0.0:${PORT}/api/metrics` });
   });
   server.keepAliveTimeout = 120000;
   server.headersTimeout = 120000;
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { CaptionTrack } from '../types';
+import { getCaptionTrackKey, getCaptionTrackLabel } from '../hooks/useCaptions';
+
+interface CaptionPickerProps {
+  tracks: CaptionTrack[];
+  selectedTrack: CaptionTrack | null;
+  onSelect: (track: CaptionTrack | null) => void;
+  className?: string;
+}
+
+const CaptionPicker: React.FC<CaptionPickerProps> = ({ tracks, selectedTrack, onSelect, className }) => {
+  if (tracks.length === 0) return null;
+
+  return (
+    <select
+      value={selectedTrack ? getCaptionTrackKey(selectedTrack) : ''}
+      onChange={(e) => onSelect(tracks.find(t => getCaptionTrackKey(t) === e.target.value) ?? null)}
+      className={className ?? 'bg-yt-light dark:bg-yt-light-black text-black dark:text-white text-xs font-semibold rounded-lg px-2 py-1.5 focus:outline-none'}
+      aria-label="字幕"
+    >
+      <option value="">字幕オフ</option>
+      {tracks.map(track => (
+        <option key={getCaptionTrackKey(track)} value={getCaptionTrackKey(track)}>
+          {getCaptionTrackLabel(track)}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CaptionPicker;
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import type { VideoChapter } from '../types';
+import { formatDuration } from '../utils/api';
+
+interface ChapterListProps {
+  chapters: VideoChapter[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+// 再生位置を含むチャプター (開始時刻が現在位置以下の最後のもの)
+export const findChapterIndex = (chapters: VideoChapter[], currentTime: number) => {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.startSeconds <= currentTime) index = i;
+  });
+  return index;
+};
+
+const ChapterList: React.FC<ChapterListProps> = ({ chapters, currentTime, onSeek }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeIndex = findChapterIndex(chapters, currentTime);
+
+  // ページ全体がスクロールしないよう、横スクロールのコンテナだけを動かす
+  useEffect(() => {
+    const list = listRef.current;
+    const active = list?.children[activeIndex] as HTMLElement | undefined;
+    if (!list || !active) return;
+    const left = active.offsetLeft - list.offsetLeft;
+    if (left < list.scrollLeft || left + active.offsetWidth > list.scrollLeft + list.clientWidth) {
+      list.scrollTo({ left, behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  if (chapters.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h2 className="text-base font-bold mb-2 text-black dark:text-white">
+        チャプター
+        {activeIndex >= 0 && <span className="ml-2 text-sm font-normal text-yt-light-gray">{chapters[activeIndex].title}</span>}
+      </h2>
+      <div ref={listRef} className="flex gap-3 overflow-x-auto no-scrollbar pb-1">
+        {chapters.map((chapter, index) => (
+          <button
+            key={`${chapter.startSeconds}-${index}`}
+            onClick={() => onSeek(chapter.startSeconds)}
+            className={`flex-shrink-0 w-40 text-left rounded-xl p-2 transition-colors ${index === activeIndex ? 'bg-yt-spec-light-20 dark:bg-yt-spec-20 ring-2 ring-yt-blue' : 'bg-yt-spec-light-10 dark:bg-yt-dark-gray hover:bg-yt-spec-light-20 dark:hover:bg-yt-gray'}`}
+          >
+            {chapter.thumbnailUrl && (
+              <img src={chapter.thumbnailUrl} alt="" loading="lazy" className="w-full aspect-video object-cover rounded-lg mb-2" />
+            )}
+            <p className="text-xs font-semibold text-yt-blue">{formatDuration(chapter.startSeconds)}</p>
+            <p className="text-sm text-black dark:text-white line-clamp-2 break-words">{chapter.title}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChapterList;
@@ -1,42 +1,95 @@
 
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { Comment } from '../types';
+import { getCommentReplies } from '../utils/api';
 // FIX: Removed DislikeIcon import as it is not exported from './icons/Icons'.
 import { LikeIcon } from './icons/Icons';
 
 interface CommentProps {
   comment: Comment;
+  videoId?: string;
+  isReply?: boolean;
 }
 
-const CommentComponent: React.FC<CommentProps> = ({ comment }) => {
+const CommentComponent: React.FC<CommentProps> = ({ comment, videoId, isReply = false }) => {
   const authorThumbnail = comment.author.thumbnails?.[0]?.url || '';
-  
+  const [replies, setReplies] = useState<Comment[]>([]);
+  const [repliesToken, setRepliesToken] = useState<string | undefined>(undefined);
+  const [showReplies, setShowReplies] = useState(false);
+  const [areRepliesLoading, setAreRepliesLoading] = useState(false);
+
   // Clean up like count text (e.g., "711" from "711 likes")
   const likeCount = comment.like_count.split(' ')[0];
+  const canExpandReplies = !isReply && !!videoId && !!comment.replies_token;
+
+  const fetchReplies = async (token: string) => {
+    if (!videoId) return;
+    setAreRepliesLoading(true);
+    try {
+      const page = await getCommentReplies(videoId, token);
+      setReplies(prev => [...prev, ...page.comments]);
+      setRepliesToken(page.nextPageToken);
+    } catch (e) {
+      console.error("Failed to fetch replies", e);
+    } finally {
+      setAreRepliesLoading(false);
+    }
+  };
+
+  const handleToggleReplies = () => {
+    const willBeOpen = !showReplies;
+    setShowReplies(willBeOpen);
+    // 一度取得した返信は閉じても保持する
+    if (willBeOpen && replies.length === 0 && comment.replies_token) {
+      fetchReplies(comment.replies_token);
+    }
+  };
 
   return (
-    <div className="flex items-start space-x-4 my-4">
-      <img src={authorThumbnail} alt={comment.author.name} className="w-10 h-10 rounded-full" />
-      <div className="flex-1">
+    <div className={`flex items-start ${isReply ? 'space-x-3 my-3' : 'space-x-4 my-4'}`}>
+      <img src={authorThumbnail} alt={comment.author.name} className={`${isReply ? 'w-6 h-6' : 'w-10 h-10'} rounded-full`} />
+      <div className="flex-1 min-w-0">
         <div className="flex items-baseline space-x-2">
           <p className="font-semibold text-sm">{comment.author.name}</p>
           <p className="text-xs text-yt-light-gray">{comment.published_time}</p>
         </div>
-        <p className="text-sm mt-1 whitespace-pre-wrap">{comment.text}</p>
+        <p className="text-sm mt-1 whitespace-pre-wrap break-words">{comment.text}</p>
         <div className="flex items-center space-x-1 mt-2">
             <button className="flex items-center p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
                 <LikeIcon />
                 {likeCount && <span className="ml-2 text-xs text-yt-light-gray">{likeCount}</span>}
             </button>
             {/* FIX: The DislikeIcon component was not exported. The dislike button has been removed. */}
-            <button className="text-xs text-yt-light-gray font-semibold px-3 py-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
-              返信
-            </button>
         </div>
+        {canExpandReplies && (
+          <button
+            onClick={handleToggleReplies}
+            className="text-sm text-yt-blue font-semibold px-3 py-2 -ml-3 rounded-full hover:bg-yt-blue/10"
+          >
+            {showReplies ? '返信を非表示' : `${comment.reply_count !== '0' ? `${comment.reply_count} 件の` : ''}返信`}
+          </button>
+        )}
+        {showReplies && (
+          <div>
+            {replies.map((reply, idx) => (
+              <CommentComponent key={reply.comment_id ?? idx} comment={reply} isReply />
+            ))}
+            {areRepliesLoading ? (
+              <div className="flex py-2"><div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-yt-blue"></div></div>
+            ) : repliesToken && (
+              <button
+                onClick={() => fetchReplies(repliesToken)}
+                className="text-sm text-yt-blue font-semibold px-3 py-2 -ml-3 rounded-full hover:bg-yt-blue/10"
+              >
+                他の返信を表示
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default CommentComponent;
\ No newline at end of file
+export default CommentComponent;
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { Comment } from '../types';
+import CommentComponent from './Comment';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+
+interface CommentListProps {
+  videoId: string;
+  comments: Comment[];
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  itemClassName?: string;
+}
+
+// コメント一覧。末尾が近づくと次のページを読み込む
+const CommentList: React.FC<CommentListProps> = ({ videoId, comments, hasMore, isLoading, onLoadMore, itemClassName }) => {
+  const lastElementRef = useInfiniteScroll(onLoadMore, hasMore, isLoading);
+
+  return (
+    <div className="space-y-4">
+      {comments.map((comment, idx) => (
+        <div key={comment.comment_id ?? idx} className={itemClassName}>
+          <CommentComponent comment={comment} videoId={videoId} />
+        </div>
+      ))}
+      {isLoading && (
+        <div className="flex justify-center py-4"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div></div>
+      )}
+      {!isLoading && comments.length === 0 && (
+        <div className="py-4 text-yt-light-gray">コメントがありません。</div>
+      )}
+      {hasMore && <div ref={lastElementRef} className="h-1" />}
+    </div>
+  );
+};
+
+export default CommentList;
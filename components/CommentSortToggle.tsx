@@ -0,0 +1,28 @@
+import React from 'react';
+import type { CommentSort } from '../types';
+
+interface CommentSortToggleProps {
+  sort: CommentSort;
+  onChange: (sort: CommentSort) => void;
+}
+
+const SORT_OPTIONS: { value: CommentSort; label: string }[] = [
+  { value: 'top', label: '人気順' },
+  { value: 'newest', label: '新しい順' },
+];
+
+const CommentSortToggle: React.FC<CommentSortToggleProps> = ({ sort, onChange }) => (
+  <div className="flex bg-yt-light dark:bg-yt-light-black rounded-lg p-1 flex-shrink-0">
+    {SORT_OPTIONS.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${sort === option.value ? 'bg-white dark:bg-yt-gray text-black dark:text-white shadow-sm' : 'text-yt-light-gray hover:text-black dark:hover:text-white'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default CommentSortToggle;
@@ -0,0 +1,130 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import dashjs from 'dashjs';
+
+interface DashVideoPlayerProps {
+  src: string;
+  autoPlay?: boolean;
+}
+
+interface QualityOption {
+  index: number;
+  height: number;
+  bitrate: number;
+}
+
+// -1 = 自動 (ABR)
+const AUTO_QUALITY = -1;
+
+// ref には内部の <video> 要素を渡す (シークや再生位置の取得用)
+const DashVideoPlayer = forwardRef<HTMLVideoElement | null, DashVideoPlayerProps>(({ src, autoPlay = true }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useImperativeHandle<HTMLVideoElement | null, HTMLVideoElement | null>(ref, () => videoRef.current, []);
+  const playerRef = useRef<dashjs.MediaPlayerClass | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [qualities, setQualities] = useState<QualityOption[]>([]);
+  const [selectedQuality, setSelectedQuality] = useState<number>(AUTO_QUALITY);
+  const [currentHeight, setCurrentHeight] = useState<number | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    // Reset state on src change
+    setError(null);
+    setQualities([]);
+    setSelectedQuality(AUTO_QUALITY);
+    setCurrentHeight(null);
+
+    if (!window.MediaSource) {
+      setError("このブラウザはMediaSourceによる再生に対応していません。");
+      return;
+    }
+
+    const player = dashjs.MediaPlayer().create();
+    playerRef.current = player;
+    player.updateSettings({
+      streaming: {
+        abr: {
+          // プレイヤーの表示サイズで画質を制限せず、帯域が許す限り最高解像度まで切り替える
+          limitBitrateByPortal: false,
+          autoSwitchBitrate: { video: true, audio: true },
+        },
+      },
+    });
+
+    const handleStreamInitialized = () => {
+      const options = player.getBitrateInfoListFor('video')
+        .map(info => ({ index: info.qualityIndex, height: info.height, bitrate: info.bitrate }))
+        .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+      setQualities(options);
+    };
+
+    const handleQualityRendered = (e: dashjs.QualityChangeRenderedEvent) => {
+      if (e.mediaType !== 'video') return;
+      const info = player.getBitrateInfoListFor('video').find(i => i.qualityIndex === e.newQuality);
+      if (info) setCurrentHeight(info.height);
+    };
+
+    const handleError = (e: dashjs.ErrorEvent) => {
+      console.error("DASH Error:", e);
+      setError("再生エラーが発生しました。");
+    };
+
+    player.on(dashjs.MediaPlayer.events.STREAM_INITIALIZED, handleStreamInitialized);
+    player.on(dashjs.MediaPlayer.events.QUALITY_CHANGE_RENDERED, handleQualityRendered);
+    player.on(dashjs.MediaPlayer.events.ERROR, handleError);
+    player.initialize(video, src, autoPlay);
+
+    return () => {
+      player.reset();
+      playerRef.current = null;
+    };
+  }, [src, autoPlay]);
+
+  const handleQualityChange = (value: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    setSelectedQuality(value);
+    const isAuto = value === AUTO_QUALITY;
+    player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: isAuto } } } });
+    if (!isAuto) player.setQualityFor('video', value, true);
+  };
+
+  return (
+    <div className="relative w-full h-full bg-black group">
+        {error && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-20 text-white p-4 text-center">
+                <div>
+                    <p className="mb-2 font-bold text-red-500">エラー</p>
+                    <p className="text-sm">{error}</p>
+                </div>
+            </div>
+        )}
+        {qualities.length > 1 && (
+            <select
+                value={selectedQuality}
+                onChange={(e) => handleQualityChange(Number(e.target.value))}
+                className="absolute top-2 right-2 z-10 bg-black/70 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label="画質"
+            >
+                <option value={AUTO_QUALITY}>
+                    自動{selectedQuality === AUTO_QUALITY && currentHeight ? ` (${currentHeight}p)` : ''}
+                </option>
+                {qualities.map(q => (
+                    <option key={q.index} value={q.index}>{q.height}p</option>
+                ))}
+            </select>
+        )}
+        <video
+            ref={videoRef}
+            controls
+            className="w-full h-full object-contain"
+            playsInline
+        />
+    </div>
+  );
+});
+
+DashVideoPlayer.displayName = 'DashVideoPlayer';
+
+export default DashVideoPlayer;
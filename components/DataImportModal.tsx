@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ImportBundle } from '../types';
+import { useSubscription } from '../contexts/SubscriptionContext';
+import { useHistory, mergeHistoryEntries, MAX_HISTORY_LENGTH } from '../contexts/HistoryContext';
+import { usePlaylist } from '../contexts/PlaylistContext';
+import { readImportFiles, type ImportProgress, type ImportResult } from '../utils/dataImport';
+import { CloseIcon } from './icons/Icons';
+
+interface DataImportModalProps {
+    files: File[];
+    onClose: () => void;
+}
+
+type ImportCategory = keyof ImportBundle;
+
+const CATEGORY_LABELS: Record<ImportCategory, string> = {
+    subscriptions: '登録チャンネル',
+    history: '再生履歴',
+    playlists: '再生リスト',
+};
+
+const DataImportModal: React.FC<DataImportModalProps> = ({ files, onClose }) => {
+    const { subscribedChannels, importChannels } = useSubscription();
+    const { history, importHistory } = useHistory();
+    const { playlists, importPlaylists } = usePlaylist();
+    const [progress, setProgress] = useState<ImportProgress | null>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [selected, setSelected] = useState<Set<ImportCategory>>(new Set(['subscriptions', 'history', 'playlists']));
+
+    useEffect(() => {
+        let cancelled = false;
+        readImportFiles(files, p => { if (!cancelled) setProgress(p); })
+            .then(r => { if (!cancelled) setResult(r); })
+            .catch((err: any) => { if (!cancelled) setError(err.message || 'ファイルの読み込みに失敗しました。'); });
+        return () => { cancelled = true; };
+    }, [files]);
+
+    // 反映した場合にどうなるか (まだ何も保存しない)
+    const summary = useMemo(() => {
+        if (!result) return null;
+        const { bundle } = result;
+        const subscribedIds = new Set(subscribedChannels.map(c => c.id));
+        const historyIds = new Set(history.map(v => v.id));
+        const importedHistoryIds = new Set(bundle.history.map(v => v.id));
+        const mergedHistory = mergeHistoryEntries(history, bundle.history);
+        return {
+            subscriptions: {
+                total: bundle.subscriptions.length,
+                added: bundle.subscriptions.filter(c => !subscribedIds.has(c.id)).length,
+            },
+            history: {
+                total: importedHistoryIds.size,
+                added: [...importedHistoryIds].filter(id => !historyIds.has(id)).length,
+                kept: mergedHistory.filter(v => !historyIds.has(v.id)).length,
+            },
+            playlists: bundle.playlists.map(item => {
+                const existing = playlists.find(p => p.name === item.name);
+                return {
+                    name: item.name,
+                    total: item.videoIds.length,
+                    existing: !!existing,
+                    added: existing ? item.videoIds.filter(id => !existing.videoIds.includes(id)).length : item.videoIds.length,
+                };
+            }),
+        };
+    }, [result, subscribedChannels, history, playlists]);
+
+    const isEmpty = (category: ImportCategory) => !result || result.bundle[category].length === 0;
+
+    const handleToggle = (category: ImportCategory) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(category)) next.delete(category);
+            else next.add(category);
+            return next;
+        });
+    };
+
+    const handleImport = () => {
+        if (!result) return;
+        const messages: string[] = [];
+        if (selected.has('subscriptions') && !isEmpty('subscriptions')) {
+            messages.push(`登録チャンネル: ${importChannels(result.bundle.subscriptions)}件を追加`);
+        }
+        if (selected.has('history') && !isEmpty('history')) {
+            messages.push(`再生履歴: ${importHistory(result.bundle.history)}件を追加`);
+        }
+        if (selected.has('playlists') && !isEmpty('playlists')) {
+            const { created, updated } = importPlaylists(result.bundle.playlists);
+            messages.push(`再生リスト: ${created}件を作成、${updated}件に追加`);
+        }
+        alert(`インポートしました。\n${messages.join('\n')}`);
+        onClose();
+    };
+
+    const canImport = (['subscriptions', 'history', 'playlists'] as ImportCategory[]).some(c => selected.has(c) && !isEmpty(c));
+    const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+    const renderCategory = (category: ImportCategory, detail: React.ReactNode) => (
+        <label className={`flex items-start gap-3 p-3 rounded-lg ${isEmpty(category) ? 'opacity-60' : 'cursor-pointer hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10'}`}>
+            <input
+                type="checkbox"
+                checked={selected.has(category) && !isEmpty(category)}
+                disabled={isEmpty(category)}
+                onChange={() => handleToggle(category)}
+                className="w-4 h-4 mt-1 accent-yt-blue"
+            />
+            <div className="min-w-0 flex-1">
+                <p className="font-medium text-black dark:text-white">{CATEGORY_LABELS[category]}</p>
+                <div className="text-sm text-yt-light-gray">{isEmpty(category) ? '見つかりませんでした' : detail}</div>
+            </div>
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-yt-white/90 dark:bg-yt-light-black/80 backdrop-blur-lg w-full max-w-2xl rounded-xl shadow-2xl flex flex-col max-h-[80vh] border border-yt-spec-light-20 dark:border-yt-spec-20 animate-scale-in" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-between items-center">
+                    <h2 className="text-xl font-bold text-black dark:text-white">他のサービスからインポート</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                        <CloseIcon />
+                    </button>
+                </div>
+
+                {error ? (
+                    <p className="p-8 text-center text-red-500">{error}</p>
+                ) : !result || !summary ? (
+                    <div className="p-8">
+                        <p className="text-sm text-black dark:text-white mb-2">
+                            ファイルを解析中{progress ? ` (${progress.done}/${progress.total})` : '...'}
+                        </p>
+                        <div className="h-2 rounded-full bg-yt-spec-light-20 dark:bg-yt-spec-20 overflow-hidden">
+                            <div className="h-full bg-yt-blue transition-all" style={{ width: `${percent}%` }} />
+                        </div>
+                        {progress?.label && <p className="text-xs text-yt-light-gray truncate mt-2">{progress.label}</p>}
+                    </div>
+                ) : (
+                    <>
+                        <div className="overflow-y-auto flex-1 p-2">
+                            <p className="px-3 py-2 text-sm text-yt-light-gray">
+                                インポートする項目を選んでください。反映するまでデータは変更されません。
+                            </p>
+
+                            {renderCategory('subscriptions', (
+                                <>{summary.subscriptions.total}件 (うち未登録 {summary.subscriptions.added}件を追加)</>
+                            ))}
+
+                            {renderCategory('history', (
+                                <>
+                                    {summary.history.total}本の動画 (うち新しい動画 {summary.history.added}本)
+                                    {summary.history.kept < summary.history.added && (
+                                        <p>履歴は最大{MAX_HISTORY_LENGTH}件まで保存するため、新しい順に{summary.history.kept}本を追加します。</p>
+                                    )}
+                                </>
+                            ))}
+
+                            {renderCategory('playlists', (
+                                <ul className="mt-1 space-y-0.5">
+                                    {summary.playlists.map(p => (
+                                        <li key={p.name} className="truncate">
+                                            {p.name}: {p.total}本 ({p.existing ? `既存の再生リストに${p.added}本を追加` : '新規作成'})
+                                        </li>
+                                    ))}
+                                </ul>
+                            ))}
+
+                            {result.sources.length > 0 && (
+                                <div className="px-3 py-2 text-xs text-yt-light-gray space-y-0.5">
+                                    <p className="font-semibold">読み込んだファイル</p>
+                                    {result.sources.map(source => <p key={source.path} className="truncate">{source.path} ({source.format})</p>)}
+                                </div>
+                            )}
+
+                            {result.warnings.length > 0 && (
+                                <div className="px-3 py-2 text-xs text-yellow-600 dark:text-yellow-400 space-y-0.5">
+                                    {result.warnings.map(warning => <p key={warning}>{warning}</p>)}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="p-4 border-t border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-end gap-2">
+                            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-semibold text-black dark:text-white hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                                キャンセル
+                            </button>
+                            <button
+                                onClick={handleImport}
+                                disabled={!canImport}
+                                className="px-4 py-2 rounded-full text-sm font-semibold bg-yt-blue text-white hover:opacity-90 disabled:opacity-40"
+                            >
+                                インポート
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DataImportModal;
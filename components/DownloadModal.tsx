@@ -2,18 +2,62 @@
 import React from 'react';
 import { createPortal } from 'react-dom';
 import { CloseIcon, DownloadIcon } from './icons/Icons';
+import type { StreamData, StreamFormat } from '../types';
+import { getDownloadUrl } from '../utils/api';
+import type { DownloadFormat } from '../utils/api';
 
 interface DownloadModalProps {
     isOpen: boolean;
     onClose: () => void;
-    streamData: any;
+    videoId: string;
+    streamData: StreamData | null;
     isLoading: boolean;
     onRetry: () => void;
 }
 
-const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, streamData, isLoading, onRetry }) => {
+const DownloadLink: React.FC<{ href: string; label: string; badge: string; onClose: () => void }> = ({ href, label, badge, onClose }) => (
+    <a 
+        href={href}
+        download
+        className="flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group"
+        onClick={onClose}
+    >
+        <span className="font-semibold text-black dark:text-white">{label}</span>
+        <span className="text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors uppercase">{badge}</span>
+    </a>
+);
+
+const getHeight = (format: StreamFormat) => format.height || parseInt(format.quality, 10) || 0;
+
+// Heights the server can deliver with sound for a container: adaptive video (muxed with audio) or already-muxed formats
+const getDownloadableHeights = (streamData: StreamData, container: string): number[] => {
+    const hasAudio = streamData.adaptiveFormats.some(f => f.hasAudio && !f.hasVideo && f.container === container);
+    const formats = [
+        ...(hasAudio ? streamData.adaptiveFormats.filter(f => f.hasVideo && !f.hasAudio && f.container === container) : []),
+        ...streamData.combinedFormats.filter(f => f.container === container),
+    ];
+    return [...new Set(formats.map(getHeight).filter(h => h > 0))].sort((a, b) => b - a);
+};
+
+const VIDEO_CONTAINERS: { format: DownloadFormat; container: string }[] = [
+    { format: 'mp4', container: 'mp4' },
+    { format: 'webm', container: 'webm' },
+];
+
+const AUDIO_CONTAINERS: { format: DownloadFormat; container: string; label: string }[] = [
+    { format: 'm4a', container: 'mp4', label: 'AAC' },
+    { format: 'opus', container: 'webm', label: 'Opus' },
+];
+
+const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, videoId, streamData, isLoading, onRetry }) => {
     if (!isOpen) return null;
 
+    const videoOptions = streamData
+        ? VIDEO_CONTAINERS.flatMap(({ format, container }) => getDownloadableHeights(streamData, container).map(height => ({ format, height })))
+            .sort((a, b) => b.height - a.height)
+        : [];
+    const audioOptions = AUDIO_CONTAINERS.filter(({ container }) => streamData?.adaptiveFormats.some(f => f.hasAudio && !f.hasVideo && f.container === container));
+
     return createPortal(
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center animate-fade-in" onClick={onClose}>
             <div className="bg-yt-white dark:bg-yt-light-black w-full max-w-md rounded-xl shadow-2xl overflow-hidden animate-scale-in border border-yt-spec-light-20 dark:border-yt-spec-20" onClick={e => e.stopPropagation()}>
@@ -30,7 +74,7 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, streamDa
                     {isLoading ? (
                         <div className="flex flex-col items-center justify-center py-8 gap-4">
                             <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-yt-blue"></div>
-                            <p className="text-yt-light-gray font-medium">リンクを取得中...</p>
+                            <p className="text-yt-light-gray font-medium">形式を取得中...</p>
                         </div>
                     ) : !streamData ? (
                         <div className="text-center py-8">
@@ -41,46 +85,31 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, streamDa
                         </div>
                     ) : (
                         <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
-                            <div>
-                                <h3 className="text-xs font-bold text-yt-light-gray mb-2 uppercase tracking-wider">動画 (MP4)</h3>
-                                <div className="space-y-2">
-                                    {['1080p', '720p', '480p', '360p', '240p'].map(quality => {
-                                        const url = streamData.videourl?.[quality]?.video?.url;
-                                        if (!url) return null;
-                                        // 360p usually has audio in these streams, others might not
-                                        const label = quality === '360p' ? `${quality} (音声あり)` : `${quality} (音声なし)`;
-                                        return (
-                                            <a 
-                                                key={quality}
-                                                href={url}
-                                                target="_blank"
-                                                rel="noopener noreferrer"
-                                                className="flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group"
-                                                onClick={onClose}
-                                            >
-                                                <span className="font-semibold text-black dark:text-white">{label}</span>
-                                                <span className="text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors">MP4</span>
-                                            </a>
-                                        );
-                                    })}
+                            {videoOptions.length > 0 && (
+                                <div>
+                                    <h3 className="text-xs font-bold text-yt-light-gray mb-2 uppercase tracking-wider">動画 (音声あり)</h3>
+                                    <div className="space-y-2">
+                                        {videoOptions.map(({ format, height }) => (
+                                            <DownloadLink key={`${format}-${height}`} href={getDownloadUrl(videoId, format, `${height}p`)} label={`${height}p`} badge={format} onClose={onClose} />
+                                        ))}
+                                    </div>
                                 </div>
-                            </div>
+                            )}
                             
-                            {streamData.videourl?.['144p']?.audio?.url && (
+                            {audioOptions.length > 0 && (
                                 <div>
-                                    <h3 className="text-xs font-bold text-yt-light-gray mb-2 uppercase tracking-wider mt-4">音声 (M4A)</h3>
-                                    <a 
-                                        href={streamData.videourl['144p'].audio.url}
-                                        target="_blank" 
-                                        rel="noopener noreferrer"
-                                        className="flex items-center justify-between p-3 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors group"
-                                        onClick={onClose}
-                                    >
-                                        <span className="font-semibold text-black dark:text-white">音声のみ</span>
-                                        <span className="text-xs bg-black/10 dark:bg-white/10 px-2 py-1 rounded text-black dark:text-white group-hover:bg-white group-hover:text-black transition-colors">M4A</span>
-                                    </a>
+                                    <h3 className="text-xs font-bold text-yt-light-gray mb-2 uppercase tracking-wider mt-4">音声のみ</h3>
+                                    <div className="space-y-2">
+                                        {audioOptions.map(({ format, label }) => (
+                                            <DownloadLink key={format} href={getDownloadUrl(videoId, format)} label={label} badge={format} onClose={onClose} />
+                                        ))}
+                                    </div>
                                 </div>
                             )}
+
+                            {videoOptions.length === 0 && audioOptions.length === 0 && (
+                                <p className="text-center text-yt-light-gray py-4">ダウンロード可能な形式が見つかりませんでした。</p>
+                            )}
                         </div>
                     )}
                 </div>
@@ -1,38 +1,99 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useNavigate, Link } from 'react-router-dom';
 import { MenuIcon, SearchIcon, SettingsIcon, SaveIcon, DownloadIcon, TrashIcon, HistoryIcon, CheckIcon, SunIcon, MoonIcon, LightbulbIcon, XeroxLogo } from './icons/Icons';
 import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import { useHistory } from '../contexts/HistoryContext';
+import { useSubscription } from '../contexts/SubscriptionContext';
+import { usePlaylist } from '../contexts/PlaylistContext';
+import { exportForService } from '../utils/dataExport';
 import { useTheme, type Theme } from '../hooks/useTheme';
+import { useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import SearchSuggestionDropdown, { getSuggestionOptionId, type SearchSuggestionItem } from './SearchSuggestionDropdown';
 
 interface HeaderProps {
   toggleSidebar: () => void;
   openHistoryDeletionModal: () => void;
   openSearchHistoryDeletionModal: () => void;
+  openSubscriptionImportModal: (file: File) => void;
+  openDataImportModal: (files: File[]) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal, openSearchHistoryDeletionModal }) => {
+const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal, openSearchHistoryDeletionModal, openSubscriptionImportModal, openDataImportModal }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [useProxy, setUseProxy] = useState(localStorage.getItem('useChannelHomeProxy') !== 'false');
 
   const { theme, setTheme } = useTheme();
-  const { addSearchTerm, clearSearchHistory } = useSearchHistory();
+  const { searchHistory, addSearchTerm, removeSearchTerms, clearSearchHistory } = useSearchHistory();
   const { exportUserData, importUserData, isShortsAutoplayEnabled, toggleShortsAutoplay, toggleLiteMode } = usePreference();
-  const { clearHistory } = useHistory();
+  const { history, clearHistory } = useHistory();
+  const { subscribedChannels, exportSubscriptionsOpml } = useSubscription();
+  const { playlists } = usePlaylist();
   const navigate = useNavigate();
   const settingsRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const opmlInputRef = useRef<HTMLInputElement>(null);
+  const migrationInputRef = useRef<HTMLInputElement>(null);
+  const searchFormRef = useRef<HTMLFormElement>(null);
+
+  const upstreamSuggestions = useSearchSuggestions(searchQuery, isSuggestionOpen);
+
+  // 検索履歴 (入力に一致するもの) を先に、続けて重複しない上流の候補を並べる
+  const suggestionItems = useMemo<SearchSuggestionItem[]>(() => {
+    const input = searchQuery.trim().toLowerCase();
+    const historyItems = searchHistory
+      .filter(term => !input || term.toLowerCase().includes(input))
+      .slice(0, input ? 4 : 10)
+      .map(term => ({ term, fromHistory: true }));
+    const seen = new Set(historyItems.map(item => item.term.toLowerCase()));
+    const upstreamItems = upstreamSuggestions
+      .filter(term => !seen.has(term.toLowerCase()))
+      .map(term => ({ term, fromHistory: false }));
+    return [...historyItems, ...upstreamItems].slice(0, 14);
+  }, [searchQuery, searchHistory, upstreamSuggestions]);
+
+  useEffect(() => {
+    setActiveSuggestionIndex(-1);
+  }, [suggestionItems]);
+
+  const submitSearch = (term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    setSearchQuery(trimmed);
+    setIsSuggestionOpen(false);
+    addSearchTerm(trimmed);
+    navigate(`/results?search_query=${encodeURIComponent(trimmed)}`);
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      addSearchTerm(searchQuery.trim());
-      navigate(`/results?search_query=${encodeURIComponent(searchQuery.trim())}`);
+    const activeItem = isSuggestionOpen ? suggestionItems[activeSuggestionIndex] : undefined;
+    submitSearch(activeItem ? activeItem.term : searchQuery);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsSuggestionOpen(false);
+      return;
     }
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+    e.preventDefault();
+    if (!isSuggestionOpen) {
+      setIsSuggestionOpen(true);
+      return;
+    }
+    if (suggestionItems.length === 0) return;
+    // 端まで行ったら入力欄 (-1) を挟んで反対側に回り込む
+    setActiveSuggestionIndex(prev => {
+      const count = suggestionItems.length;
+      if (e.key === 'ArrowDown') return prev + 1 >= count ? -1 : prev + 1;
+      return prev - 1 < -1 ? count - 1 : prev - 1;
+    });
   };
   
   const handleSettingsClick = () => {
@@ -57,6 +118,24 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
       }
   };
 
+  const handleOpmlFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (file) {
+          openSubscriptionImportModal(file);
+          setIsSettingsOpen(false);
+      }
+  };
+
+  const handleMigrationFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? []);
+      e.target.value = '';
+      if (files.length > 0) {
+          openDataImportModal(files);
+          setIsSettingsOpen(false);
+      }
+  };
+
   const handleClearAllHistory = () => {
       if (window.confirm('視聴履歴をすべて削除しますか？この操作は取り消せません。')) {
           clearHistory();
@@ -87,6 +166,9 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
         if (settingsRef.current && !settingsRef.current.contains(event.target as Node)) {
             setIsSettingsOpen(false);
         }
+        if (searchFormRef.current && !searchFormRef.current.contains(event.target as Node)) {
+            setIsSuggestionOpen(false);
+        }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => {
@@ -134,7 +216,7 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
       {/* Center Section */}
       <div className="flex-1 flex justify-center px-4 lg:px-16 max-w-[720px] mx-auto">
         <div className="w-full flex items-center gap-2 md:gap-4">
-            <form onSubmit={handleSearch} className="flex-1 flex items-center gap-4">
+            <form ref={searchFormRef} onSubmit={handleSearch} className="relative flex-1 flex items-center gap-4">
             <div className="flex w-full items-center rounded-full shadow-inner border border-yt-light-gray/20 dark:border-white/10 bg-white/20 dark:bg-black/20 focus-within:border-yt-blue focus-within:bg-white/40 dark:focus-within:bg-black/40 transition-all overflow-hidden ml-0 md:ml-8 backdrop-blur-sm">
                 <div className="flex-1 relative">
                     <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none sm:hidden">
@@ -143,8 +225,16 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                     <input
                     type="text"
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => { setSearchQuery(e.target.value); setIsSuggestionOpen(true); }}
+                    onFocus={() => setIsSuggestionOpen(true)}
+                    onKeyDown={handleSearchKeyDown}
                     placeholder="検索"
+                    role="combobox"
+                    autoComplete="off"
+                    aria-autocomplete="list"
+                    aria-expanded={isSuggestionOpen && suggestionItems.length > 0}
+                    aria-controls="search-suggestions"
+                    aria-activedescendant={activeSuggestionIndex >= 0 ? getSuggestionOptionId('search-suggestions', activeSuggestionIndex) : undefined}
                     className="w-full h-10 bg-transparent pl-10 sm:pl-4 pr-4 text-base text-black dark:text-white placeholder-yt-light-gray focus:outline-none"
                     />
                 </div>
@@ -156,6 +246,18 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                     <SearchIcon />
                 </button>
             </div>
+            {isSuggestionOpen && (
+                <div className="absolute top-full left-0 right-0 md:left-8 z-50">
+                    <SearchSuggestionDropdown
+                        id="search-suggestions"
+                        items={suggestionItems}
+                        activeIndex={activeSuggestionIndex}
+                        onSelect={submitSearch}
+                        onRemoveHistory={(term) => removeSearchTerms([term])}
+                        onHover={setActiveSuggestionIndex}
+                    />
+                </div>
+            )}
             </form>
             
             {/* Lite Mode Button - Matching surrounding style */}
@@ -306,6 +408,72 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                         <div className="px-4 py-2 text-xs text-yt-light-gray mt-1">
                             登録チャンネル、履歴、設定を含みます。
                         </div>
+
+                        <hr className="my-2 border-yt-spec-light-20 dark:border-yt-spec-20" />
+
+                        <div className="px-4 py-2 text-xs font-bold text-yt-light-gray uppercase tracking-wider">登録チャンネル (OPML)</div>
+
+                        <button 
+                            onClick={exportSubscriptionsOpml}
+                            className="w-full text-left flex items-center px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 text-sm text-black dark:text-white gap-2"
+                        >
+                            <DownloadIcon />
+                            エクスポート
+                        </button>
+
+                        <button 
+                            onClick={() => opmlInputRef.current?.click()}
+                            className="w-full text-left flex items-center px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 text-sm text-black dark:text-white gap-2"
+                        >
+                            <SaveIcon />
+                            インポート
+                        </button>
+                        <input 
+                            type="file" 
+                            ref={opmlInputRef} 
+                            className="hidden" 
+                            accept=".opml,.xml,text/x-opml,text/xml" 
+                            onChange={handleOpmlFileChange} 
+                        />
+
+                        <div className="px-4 py-2 text-xs text-yt-light-gray mt-1">
+                            フィードリーダーや他のクライアントと登録チャンネルをやり取りできます。
+                        </div>
+
+                        <hr className="my-2 border-yt-spec-light-20 dark:border-yt-spec-20" />
+
+                        <div className="px-4 py-2 text-xs font-bold text-yt-light-gray uppercase tracking-wider">他のサービスとのデータ移行</div>
+
+                        <button 
+                            onClick={() => migrationInputRef.current?.click()}
+                            className="w-full text-left flex items-center px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 text-sm text-black dark:text-white gap-2"
+                        >
+                            <SaveIcon />
+                            インポート
+                        </button>
+                        <input 
+                            type="file" 
+                            ref={migrationInputRef} 
+                            className="hidden" 
+                            accept=".zip,.csv,.json,.html,.db" 
+                            multiple
+                            onChange={handleMigrationFileChange} 
+                        />
+
+                        <div className="px-4 py-2 text-xs text-yt-light-gray mt-1">
+                            Google Takeout、NewPipe、FreeTube、Invidious の書き出しファイルを選択してください。
+                        </div>
+
+                        {([['newpipe', 'NewPipe'], ['freetube', 'FreeTube'], ['invidious', 'Invidious']] as const).map(([service, label]) => (
+                            <button 
+                                key={service}
+                                onClick={() => exportForService(service, { subscriptions: subscribedChannels, history, playlists })}
+                                className="w-full text-left flex items-center px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 text-sm text-black dark:text-white gap-2"
+                            >
+                                <DownloadIcon />
+                                {label} 形式でエクスポート
+                            </button>
+                        ))}
                         
                         <hr className="my-2 border-yt-spec-light-20 dark:border-yt-spec-20" />
                         <div className="px-4 py-2 text-xs font-bold text-yt-light-gray uppercase tracking-wider">データリセット</div>
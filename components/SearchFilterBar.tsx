@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import type { SearchFilters, SearchUploadDate, SearchType, SearchDuration, SearchSortBy, SearchFeature } from '../types';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+const UPLOAD_DATE_OPTIONS: { value: SearchUploadDate; label: string }[] = [
+  { value: 'hour', label: '1 時間以内' },
+  { value: 'today', label: '今日' },
+  { value: 'week', label: '今週' },
+  { value: 'month', label: '今月' },
+  { value: 'year', label: '今年' },
+];
+
+const TYPE_OPTIONS: { value: SearchType; label: string }[] = [
+  { value: 'video', label: '動画' },
+  { value: 'channel', label: 'チャンネル' },
+  { value: 'playlist', label: '再生リスト' },
+  { value: 'movie', label: '映画' },
+];
+
+const DURATION_OPTIONS: { value: SearchDuration; label: string }[] = [
+  { value: 'short', label: '4 分未満' },
+  { value: 'medium', label: '4〜20 分' },
+  { value: 'long', label: '20 分以上' },
+];
+
+const FEATURE_OPTIONS: { value: SearchFeature; label: string }[] = [
+  { value: 'live', label: 'ライブ' },
+  { value: '4k', label: '4K' },
+  { value: 'hd', label: 'HD' },
+  { value: 'subtitles', label: '字幕' },
+  { value: 'creative_commons', label: 'クリエイティブ・コモンズ' },
+  { value: '360', label: '360°' },
+  { value: 'vr180', label: 'VR180' },
+  { value: '3d', label: '3D' },
+  { value: 'hdr', label: 'HDR' },
+  { value: 'location', label: '場所' },
+  { value: 'purchased', label: '購入済み' },
+];
+
+const SORT_OPTIONS: { value: SearchSortBy; label: string }[] = [
+  { value: 'relevance', label: '関連度順' },
+  { value: 'upload_date', label: 'アップロード日' },
+  { value: 'view_count', label: '視聴回数' },
+  { value: 'rating', label: '評価' },
+];
+
+const pick = <T extends string>(options: { value: T }[], value: string | null): T | undefined =>
+  options.find(o => o.value === value)?.value;
+
+// URL のクエリ (search_query と同じ階層) からフィルターを読み取る。未知の値は無視する
+export const readSearchFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+  const uploadDate = pick(UPLOAD_DATE_OPTIONS, params.get('upload_date'));
+  const type = pick(TYPE_OPTIONS, params.get('type'));
+  const duration = pick(DURATION_OPTIONS, params.get('duration'));
+  const sortBy = pick(SORT_OPTIONS, params.get('sort_by'));
+  const features = (params.get('features') || '').split(',')
+    .map(f => pick(FEATURE_OPTIONS, f))
+    .filter((f): f is SearchFeature => !!f);
+
+  if (uploadDate) filters.upload_date = uploadDate;
+  if (type) filters.type = type;
+  if (duration) filters.duration = duration;
+  if (sortBy && sortBy !== 'relevance') filters.sort_by = sortBy;
+  if (features.length > 0) filters.features = [...new Set(features)].sort();
+  return filters;
+};
+
+// 既存のクエリ (search_query など) は残したまま、フィルター部分だけを書き換える
+export const writeSearchFilters = (params: URLSearchParams, filters: SearchFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['upload_date', 'type', 'duration', 'sort_by', 'features'].forEach(key => next.delete(key));
+  if (filters.upload_date) next.set('upload_date', filters.upload_date);
+  if (filters.type) next.set('type', filters.type);
+  if (filters.duration) next.set('duration', filters.duration);
+  if (filters.sort_by && filters.sort_by !== 'relevance') next.set('sort_by', filters.sort_by);
+  if (filters.features && filters.features.length > 0) next.set('features', filters.features.join(','));
+  return next;
+};
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 text-xs md:text-sm font-semibold rounded-lg whitespace-nowrap transition-colors ${active
+    ? 'bg-black dark:bg-white text-white dark:text-black'
+    : 'bg-yt-light dark:bg-[#272727] text-black dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700'}`;
+
+const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ filters, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // 単一選択のグループは同じチップをもう一度押すと解除する
+  const toggleSingle = <K extends 'upload_date' | 'type' | 'duration'>(key: K, value: SearchFilters[K]) => {
+    onChange({ ...filters, [key]: filters[key] === value ? undefined : value });
+  };
+
+  const toggleFeature = (feature: SearchFeature) => {
+    const current = filters.features || [];
+    const features = current.includes(feature) ? current.filter(f => f !== feature) : [...current, feature].sort();
+    onChange({ ...filters, features: features.length > 0 ? features : undefined });
+  };
+
+  const activeChips: { key: string; label: string; clear: () => void }[] = [];
+  const uploadDateLabel = UPLOAD_DATE_OPTIONS.find(o => o.value === filters.upload_date)?.label;
+  if (uploadDateLabel) activeChips.push({ key: 'upload_date', label: uploadDateLabel, clear: () => onChange({ ...filters, upload_date: undefined }) });
+  const typeLabel = TYPE_OPTIONS.find(o => o.value === filters.type)?.label;
+  if (typeLabel) activeChips.push({ key: 'type', label: typeLabel, clear: () => onChange({ ...filters, type: undefined }) });
+  const durationLabel = DURATION_OPTIONS.find(o => o.value === filters.duration)?.label;
+  if (durationLabel) activeChips.push({ key: 'duration', label: durationLabel, clear: () => onChange({ ...filters, duration: undefined }) });
+  (filters.features || []).forEach(feature => {
+    const label = FEATURE_OPTIONS.find(o => o.value === feature)?.label;
+    if (label) activeChips.push({ key: `feature-${feature}`, label, clear: () => toggleFeature(feature) });
+  });
+  const sortLabel = filters.sort_by && filters.sort_by !== 'relevance' ? SORT_OPTIONS.find(o => o.value === filters.sort_by)?.label : undefined;
+  if (sortLabel) activeChips.push({ key: 'sort_by', label: sortLabel, clear: () => onChange({ ...filters, sort_by: undefined }) });
+
+  const groups: { title: string; content: React.ReactNode }[] = [
+    {
+      title: 'アップロード日',
+      content: UPLOAD_DATE_OPTIONS.map(o => (
+        <button key={o.value} onClick={() => toggleSingle('upload_date', o.value)} className={chipClass(filters.upload_date === o.value)}>{o.label}</button>
+      )),
+    },
+    {
+      title: 'タイプ',
+      content: TYPE_OPTIONS.map(o => (
+        <button key={o.value} onClick={() => toggleSingle('type', o.value)} className={chipClass(filters.type === o.value)}>{o.label}</button>
+      )),
+    },
+    {
+      title: '時間',
+      content: DURATION_OPTIONS.map(o => (
+        <button key={o.value} onClick={() => toggleSingle('duration', o.value)} className={chipClass(filters.duration === o.value)}>{o.label}</button>
+      )),
+    },
+    {
+      title: '特徴',
+      content: FEATURE_OPTIONS.map(o => (
+        <button key={o.value} onClick={() => toggleFeature(o.value)} className={chipClass(!!filters.features?.includes(o.value))}>{o.label}</button>
+      )),
+    },
+    {
+      title: '並べ替え',
+      content: SORT_OPTIONS.map(o => (
+        <button
+          key={o.value}
+          onClick={() => onChange({ ...filters, sort_by: o.value === 'relevance' ? undefined : o.value })}
+          className={chipClass((filters.sort_by || 'relevance') === o.value)}
+        >
+          {o.label}
+        </button>
+      )),
+    },
+  ];
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 overflow-x-auto no-scrollbar pb-1">
+        <button onClick={() => setIsOpen(prev => !prev)} className={chipClass(isOpen)} aria-expanded={isOpen}>
+          フィルタ
+        </button>
+        {activeChips.map(chip => (
+          <button key={chip.key} onClick={chip.clear} className={`${chipClass(true)} flex items-center gap-1`} title="解除">
+            {chip.label}
+            <span aria-hidden="true">×</span>
+          </button>
+        ))}
+        {activeChips.length > 1 && (
+          <button onClick={() => onChange({})} className="px-3 py-1.5 text-xs md:text-sm font-semibold text-yt-blue whitespace-nowrap rounded-lg hover:bg-yt-blue/10">
+            すべて解除
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <div className="mt-3 space-y-3 border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-4">
+          {groups.map(group => (
+            <div key={group.title}>
+              <p className="text-xs font-bold text-yt-light-gray mb-2">{group.title}</p>
+              <div className="flex flex-wrap gap-2">{group.content}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchFilterBar;
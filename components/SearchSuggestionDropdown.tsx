@@ -0,0 +1,58 @@
+import React from 'react';
+import { SearchIcon, HistoryIcon } from './icons/Icons';
+
+export interface SearchSuggestionItem {
+  term: string;
+  fromHistory: boolean;
+}
+
+interface SearchSuggestionDropdownProps {
+  id: string;
+  items: SearchSuggestionItem[];
+  activeIndex: number;
+  onSelect: (term: string) => void;
+  onRemoveHistory: (term: string) => void;
+  onHover: (index: number) => void;
+}
+
+export const getSuggestionOptionId = (listId: string, index: number) => `${listId}-option-${index}`;
+
+const SearchSuggestionDropdown: React.FC<SearchSuggestionDropdownProps> = ({ id, items, activeIndex, onSelect, onRemoveHistory, onHover }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      className="mt-1 py-2 bg-yt-white/90 dark:bg-black/90 backdrop-blur-2xl rounded-xl shadow-2xl border border-white/20 dark:border-white/10 z-50 max-h-[70vh] overflow-y-auto"
+    >
+      {items.map((item, index) => (
+        <li
+          key={`${item.fromHistory ? 'h' : 's'}-${item.term}`}
+          id={getSuggestionOptionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          // mousedown で処理して、入力欄の blur より先に選択を確定させる
+          onMouseDown={(e) => { e.preventDefault(); onSelect(item.term); }}
+          onMouseEnter={() => onHover(index)}
+          className={`flex items-center gap-3 px-4 py-1.5 cursor-pointer text-sm text-black dark:text-white ${index === activeIndex ? 'bg-yt-spec-light-10 dark:bg-yt-spec-10' : ''}`}
+        >
+          <span className="flex-shrink-0 text-yt-light-gray">{item.fromHistory ? <HistoryIcon /> : <SearchIcon />}</span>
+          <span className={`flex-1 truncate ${item.fromHistory ? 'text-purple-700 dark:text-purple-300' : 'font-semibold'}`}>{item.term}</span>
+          {item.fromHistory && (
+            <button
+              type="button"
+              onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); onRemoveHistory(item.term); }}
+              className="flex-shrink-0 text-xs text-yt-blue hover:underline px-1"
+              aria-label={`「${item.term}」を検索履歴から削除`}
+            >
+              削除
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SearchSuggestionDropdown;
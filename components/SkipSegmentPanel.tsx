@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SkipCategory, SkipMode, SkipSegment } from '../types';
+import { useSkipSegments } from '../contexts/SkipSegmentContext';
+import { SKIP_CATEGORIES, getSkipCategory } from '../utils/sponsorBlock';
+import { formatDuration } from '../utils/api';
+import { CloseIcon, TrashIcon } from './icons/Icons';
+
+interface SkipSegmentPanelProps {
+  videoId: string;
+  segments: SkipSegment[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const MODE_OPTIONS: { value: SkipMode; label: string }[] = [
+  { value: 'auto', label: '自動' },
+  { value: 'manual', label: '手動' },
+  { value: 'off', label: 'オフ' },
+];
+
+const formatTime = (seconds: number) => formatDuration(Math.floor(seconds));
+
+const SkipSegmentPanel: React.FC<SkipSegmentPanelProps> = ({ videoId, segments, currentTime, onSeek, onClose }) => {
+  const { categoryModes, setCategoryMode, addSegment, removeSegment, exportSegments, importSegments } = useSkipSegments();
+  const [category, setCategory] = useState<SkipCategory>('sponsor');
+  const [start, setStart] = useState<number | null>(null);
+  const [end, setEnd] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setStart(null);
+    setEnd(null);
+    setMessage(null);
+  }, [videoId]);
+
+  const canAdd = start !== null && end !== null && end > start;
+
+  const handleAdd = () => {
+    if (start === null || end === null || end <= start) return;
+    addSegment(videoId, category, start, end);
+    setStart(null);
+    setEnd(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importSegments(file, videoId);
+      setMessage(`${count} 件の区間を取り込みました。`);
+    } catch (err) {
+      console.error("Failed to import skip segments", err);
+      setMessage('ファイルの読み込みに失敗しました。');
+    }
+  };
+
+  return (
+    <div className="flex flex-col border border-yt-spec-light-20 dark:border-yt-spec-20 rounded-xl overflow-hidden bg-yt-white dark:bg-yt-black">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+        <h2 className="text-base font-bold text-black dark:text-white">スキップ区間</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" aria-label="閉じる">
+          <CloseIcon />
+        </button>
+      </div>
+
+      {/* 再生中の位置から区間を記録する */}
+      <div className="px-4 py-3 space-y-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20 text-sm">
+        <div className="flex items-center gap-2">
+          <button onClick={() => setStart(currentTime)} className="flex-1 px-3 py-1.5 rounded-lg bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] font-semibold">
+            開始 {start !== null ? formatTime(start) : '--:--'}
+          </button>
+          <button onClick={() => setEnd(currentTime)} className="flex-1 px-3 py-1.5 rounded-lg bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] font-semibold">
+            終了 {end !== null ? formatTime(end) : '--:--'}
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as SkipCategory)}
+            className="flex-1 bg-yt-light dark:bg-yt-light-black text-black dark:text-white rounded-lg px-2 py-1.5 focus:outline-none"
+            aria-label="カテゴリ"
+          >
+            {SKIP_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="px-4 py-1.5 rounded-lg bg-black dark:bg-white text-white dark:text-black font-semibold hover:opacity-90 disabled:opacity-40"
+          >
+            追加
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-60 overflow-y-auto py-1">
+        {segments.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-center text-yt-light-gray">この動画の区間はまだありません。</p>
+        ) : segments.map(segment => {
+          const info = getSkipCategory(segment.category);
+          return (
+            <div key={segment.id} className="flex items-center gap-3 px-4 py-1.5 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+              <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: info.color }} />
+              <button onClick={() => onSeek(segment.start)} className="flex-1 text-left text-sm min-w-0">
+                <span className="font-semibold text-black dark:text-white">{info.label}</span>
+                <span className="ml-2 text-xs text-yt-light-gray">{formatTime(segment.start)} - {formatTime(segment.end)}</span>
+              </button>
+              <button onClick={() => removeSegment(videoId, segment.id)} className="p-1 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20" aria-label="削除">
+                <TrashIcon />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* カテゴリごとの動作 (全動画共通) */}
+      <div className="px-4 py-3 space-y-1.5 border-t border-yt-spec-light-20 dark:border-yt-spec-20">
+        <p className="text-xs font-bold text-yt-light-gray">カテゴリごとの動作</p>
+        {SKIP_CATEGORIES.map(c => (
+          <div key={c.value} className="flex items-center justify-between gap-2 text-sm">
+            <span className="flex items-center gap-2 text-black dark:text-white">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: c.color }} />
+              {c.label}
+            </span>
+            <div className="flex bg-yt-light dark:bg-yt-light-black rounded-lg p-0.5">
+              {MODE_OPTIONS.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => setCategoryMode(c.value, mode.value)}
+                  className={`px-2 py-0.5 text-xs font-semibold rounded-md transition-colors ${categoryModes[c.value] === mode.value ? 'bg-white dark:bg-yt-gray text-black dark:text-white shadow-sm' : 'text-yt-light-gray hover:text-black dark:hover:text-white'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-t border-yt-spec-light-20 dark:border-yt-spec-20 text-xs">
+        <span className="text-yt-light-gray">SponsorBlock 形式 (JSON)</span>
+        <button onClick={() => fileInputRef.current?.click()} className="ml-auto px-2 py-1 rounded-lg font-semibold text-yt-blue hover:bg-yt-blue/10">インポート</button>
+        <button onClick={exportSegments} className="px-2 py-1 rounded-lg font-semibold text-yt-blue hover:bg-yt-blue/10">エクスポート</button>
+        <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileChange} />
+      </div>
+      {message && <p className="px-4 pb-2 text-xs text-yt-light-gray">{message}</p>}
+    </div>
+  );
+};
+
+export default SkipSegmentPanel;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Storyboard, StoryboardLevel } from '../types';
+import { getStoryboard, formatDuration } from '../utils/api';
+
+interface StoryboardSeekBarProps {
+  videoId: string;
+  videoElement: HTMLVideoElement;
+}
+
+// プレビューとして読みやすい大きさのうち、最も細かいレベルを使う
+const MAX_PREVIEW_WIDTH = 200;
+
+const pickLevel = (storyboard: Storyboard | null): StoryboardLevel | null => {
+  if (!storyboard || storyboard.levels.length === 0) return null;
+  const fitting = storyboard.levels.filter(level => level.width <= MAX_PREVIEW_WIDTH);
+  const candidates = fitting.length > 0 ? fitting : storyboard.levels;
+  return candidates.reduce((best, level) => (level.width > best.width ? level : best));
+};
+
+// 時刻に対応するスプライトシートと、その中のフレーム位置
+const getFrame = (level: StoryboardLevel, seconds: number) => {
+  const index = Math.min(level.count - 1, Math.max(0, Math.floor((seconds * 1000) / level.intervalMs)));
+  const sheet = Math.floor(index / level.framesPerSheet);
+  const inSheet = index % level.framesPerSheet;
+  return {
+    url: level.sheets[Math.min(sheet, level.sheets.length - 1)],
+    x: (inSheet % level.columns) * level.width,
+    y: Math.floor(inSheet / level.columns) * level.height,
+  };
+};
+
+const StoryboardSeekBar: React.FC<StoryboardSeekBarProps> = ({ videoId, videoElement }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [bufferedEnd, setBufferedEnd] = useState(0);
+  // ホバー中・ドラッグ中の位置 (秒)。null なら非表示
+  const [previewTime, setPreviewTime] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setStoryboard(null);
+    getStoryboard(videoId)
+      .then(result => { if (isCurrent) setStoryboard(result); })
+      .catch(err => console.warn("Failed to fetch storyboard", err));
+    return () => { isCurrent = false; };
+  }, [videoId]);
+
+  useEffect(() => {
+    const sync = () => {
+      setDuration(Number.isFinite(videoElement.duration) ? videoElement.duration : 0);
+      setCurrentTime(videoElement.currentTime);
+      const { buffered } = videoElement;
+      setBufferedEnd(buffered.length > 0 ? buffered.end(buffered.length - 1) : 0);
+    };
+    sync();
+    const events = ['timeupdate', 'durationchange', 'progress', 'seeked', 'loadedmetadata'];
+    events.forEach(name => videoElement.addEventListener(name, sync));
+    return () => events.forEach(name => videoElement.removeEventListener(name, sync));
+  }, [videoElement]);
+
+  const totalDuration = duration || storyboard?.duration || 0;
+  const level = pickLevel(storyboard);
+
+  const timeFromPointer = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || totalDuration === 0) return 0;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * totalDuration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (totalDuration === 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDragging(true);
+    setPreviewTime(timeFromPointer(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    setPreviewTime(timeFromPointer(e.clientX));
+  };
+
+  // ドラッグ中は位置だけを追い、離したときに一度だけシークする
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDragging) return;
+    setIsDragging(false);
+    const time = timeFromPointer(e.clientX);
+    videoElement.currentTime = time;
+    setCurrentTime(time);
+    if (e.pointerType !== 'mouse') setPreviewTime(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.key === 'ArrowRight' ? 5 : e.key === 'ArrowLeft' ? -5 : 0;
+    if (!step) return;
+    e.preventDefault();
+    videoElement.currentTime = Math.min(totalDuration, Math.max(0, videoElement.currentTime + step));
+  };
+
+  const displayedTime = isDragging && previewTime !== null ? previewTime : currentTime;
+  const progress = totalDuration > 0 ? (displayedTime / totalDuration) * 100 : 0;
+  const buffered = totalDuration > 0 ? (bufferedEnd / totalDuration) * 100 : 0;
+  const previewPercent = previewTime !== null && totalDuration > 0 ? (previewTime / totalDuration) * 100 : 0;
+  const frame = level && previewTime !== null ? getFrame(level, previewTime) : null;
+
+  return (
+    <div className="px-1 pt-3 pb-1 select-none">
+      <div
+        ref={barRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="再生位置"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(totalDuration)}
+        aria-valuenow={Math.round(displayedTime)}
+        aria-valuetext={formatDuration(Math.floor(displayedTime))}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => { if (!isDragging) setPreviewTime(null); }}
+        onKeyDown={handleKeyDown}
+        className="relative h-4 flex items-center cursor-pointer group touch-none focus:outline-none"
+      >
+        <div className="relative w-full h-1 group-hover:h-1.5 transition-all rounded-full bg-yt-light-gray/30 overflow-hidden">
+          <div className="absolute inset-y-0 left-0 bg-yt-light-gray/50" style={{ width: `${buffered}%` }} />
+          <div className="absolute inset-y-0 left-0 bg-red-600" style={{ width: `${progress}%` }} />
+        </div>
+        <div
+          className="absolute w-3 h-3 rounded-full bg-red-600 -translate-x-1/2 scale-0 group-hover:scale-100 group-focus:scale-100 transition-transform"
+          style={{ left: `${progress}%` }}
+        />
+
+        {previewTime !== null && (
+          <div
+            className="absolute bottom-full mb-2 -translate-x-1/2 flex flex-col items-center pointer-events-none z-20"
+            // 端ではプレビューがはみ出さないよう、中心位置を内側に寄せる
+            style={{ left: `clamp(${(level?.width ?? 48) / 2}px, ${previewPercent}%, calc(100% - ${(level?.width ?? 48) / 2}px))` }}
+          >
+            {frame && level && (
+              <div
+                className="rounded-md border-2 border-white shadow-lg bg-black"
+                style={{
+                  width: level.width,
+                  height: level.height,
+                  backgroundImage: `url(${frame.url})`,
+                  backgroundPosition: `-${frame.x}px -${frame.y}px`,
+                  backgroundRepeat: 'no-repeat',
+                }}
+              />
+            )}
+            <span className="mt-1 px-2 py-0.5 rounded bg-black/80 text-white text-xs font-semibold">
+              {formatDuration(Math.floor(previewTime))}
+            </span>
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-yt-light-gray mt-1">
+        <span>{formatDuration(Math.floor(displayedTime))}</span>
+        <span>{formatDuration(Math.floor(totalDuration))}</span>
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardSeekBar;
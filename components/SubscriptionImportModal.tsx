@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import type { Channel } from '../types';
+import { useSubscription } from '../contexts/SubscriptionContext';
+import { getChannelDetails, DEFAULT_CHANNEL_AVATAR_URL } from '../utils/api';
+import { parseSubscriptionsOpml } from '../utils/opml';
+import { CloseIcon } from './icons/Icons';
+
+interface SubscriptionImportModalProps {
+    file: File;
+    onClose: () => void;
+}
+
+type ResolveStatus = 'pending' | 'resolved' | 'failed' | 'unsupported';
+
+interface ImportCandidate {
+    key: string;
+    title: string;
+    status: ResolveStatus;
+    channel: Channel | null;
+}
+
+// チャンネル情報の取得を同時にいくつまで行うか
+const RESOLVE_CONCURRENCY = 4;
+
+const SubscriptionImportModal: React.FC<SubscriptionImportModalProps> = ({ file, onClose }) => {
+    const { isSubscribed, importChannels } = useSubscription();
+    const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            let outlines;
+            try {
+                outlines = parseSubscriptionsOpml(await file.text());
+            } catch (err: any) {
+                setError(err.message || 'ファイルの読み込みに失敗しました。');
+                return;
+            }
+            if (outlines.length === 0) {
+                setError('チャンネルが見つかりませんでした。');
+                return;
+            }
+
+            setCandidates(outlines.map(outline => ({
+                key: outline.channelId ?? outline.xmlUrl,
+                title: outline.title,
+                status: outline.channelId ? 'pending' : 'unsupported',
+                channel: null,
+            })));
+
+            const update = (key: string, patch: Partial<ImportCandidate>) => {
+                if (!cancelled) setCandidates(prev => prev.map(c => c.key === key ? { ...c, ...patch } : c));
+            };
+
+            // 名前とアイコンはチャンネル情報から取り直す (取得できなければ OPML の名前で登録できるようにする)
+            const queue = outlines.filter(outline => outline.channelId);
+            const worker = async () => {
+                for (let outline = queue.shift(); outline && !cancelled; outline = queue.shift()) {
+                    const channelId = outline.channelId!;
+                    try {
+                        const details = await getChannelDetails(channelId);
+                        update(channelId, {
+                            status: 'resolved',
+                            channel: { id: channelId, name: details.name || outline.title, avatarUrl: details.avatarUrl || DEFAULT_CHANNEL_AVATAR_URL, subscriberCount: details.subscriberCount },
+                        });
+                    } catch (err) {
+                        // 取得できなくても、チャンネルIDと OPML の名前で登録できるようにする
+                        console.warn(`Failed to resolve channel ${channelId}`, err);
+                        update(channelId, {
+                            status: 'failed',
+                            channel: { id: channelId, name: outline.title, avatarUrl: DEFAULT_CHANNEL_AVATAR_URL, subscriberCount: '' },
+                        });
+                    }
+                    if (!cancelled && !isSubscribed(channelId)) setSelectedIds(prev => new Set(prev).add(channelId));
+                }
+            };
+            await Promise.all(Array.from({ length: RESOLVE_CONCURRENCY }, worker));
+        };
+
+        load();
+        return () => { cancelled = true; };
+    }, [file]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const pendingCount = candidates.filter(c => c.status === 'pending').length;
+    const selectable = candidates.filter(c => c.channel && !isSubscribed(c.channel.id));
+
+    const handleToggle = (channelId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(channelId)) next.delete(channelId);
+            else next.add(channelId);
+            return next;
+        });
+    };
+
+    const handleSelectAll = () => {
+        setSelectedIds(selectedIds.size === selectable.length ? new Set() : new Set(selectable.map(c => c.channel!.id)));
+    };
+
+    const handleImport = () => {
+        const channels = candidates
+            .filter(c => c.channel && selectedIds.has(c.channel.id))
+            .map(c => c.channel!);
+        const added = importChannels(channels);
+        alert(`${added}件のチャンネルを登録しました。`);
+        onClose();
+    };
+
+    const statusLabel = (candidate: ImportCandidate) => {
+        if (candidate.status === 'pending') return '取得中...';
+        if (candidate.status === 'unsupported') return 'チャンネルIDを特定できません';
+        if (candidate.channel && isSubscribed(candidate.channel.id)) return '登録済み';
+        if (candidate.status === 'failed') return '情報を取得できませんでした (OPML の名前で登録します)';
+        return candidate.channel?.subscriberCount ?? '';
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-yt-white/90 dark:bg-yt-light-black/80 backdrop-blur-lg w-full max-w-2xl rounded-xl shadow-2xl flex flex-col max-h-[80vh] border border-yt-spec-light-20 dark:border-yt-spec-20 animate-scale-in" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-between items-center">
+                    <h2 className="text-xl font-bold text-black dark:text-white">登録チャンネルのインポート</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                        <CloseIcon />
+                    </button>
+                </div>
+
+                {error ? (
+                    <p className="p-8 text-center text-red-500">{error}</p>
+                ) : (
+                    <>
+                        <div className="p-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-between items-center bg-yt-light/50 dark:bg-yt-black/50">
+                            <button
+                                onClick={handleSelectAll}
+                                disabled={selectable.length === 0}
+                                className="text-sm font-semibold text-black dark:text-white px-4 py-2 rounded-lg hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-40"
+                            >
+                                {selectable.length > 0 && selectedIds.size === selectable.length ? 'すべて選択解除' : 'すべて選択'}
+                            </button>
+                            <span className="text-sm text-yt-light-gray">
+                                {pendingCount > 0 ? `チャンネル情報を取得中 (${candidates.length - pendingCount}/${candidates.length})` : `${candidates.length}件のチャンネル`}
+                            </span>
+                        </div>
+
+                        <div className="overflow-y-auto flex-1 p-2">
+                            {candidates.map(candidate => {
+                                const channel = candidate.channel;
+                                const disabled = !channel || isSubscribed(channel.id);
+                                return (
+                                    <label key={candidate.key} className={`flex items-center gap-3 p-2 rounded-lg ${disabled ? 'opacity-60' : 'cursor-pointer hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10'}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={!!channel && selectedIds.has(channel.id)}
+                                            disabled={disabled}
+                                            onChange={() => channel && handleToggle(channel.id)}
+                                            className="w-4 h-4 accent-yt-blue"
+                                        />
+                                        {channel?.avatarUrl ? (
+                                            <img src={channel.avatarUrl} alt={channel.name} className="w-10 h-10 rounded-full flex-shrink-0" />
+                                        ) : (
+                                            <div className="w-10 h-10 rounded-full flex-shrink-0 bg-yt-spec-light-20 dark:bg-yt-spec-20" />
+                                        )}
+                                        <div className="min-w-0 flex-1">
+                                            <p className="font-medium truncate text-black dark:text-white">{channel?.name ?? candidate.title}</p>
+                                            <p className="text-xs text-yt-light-gray truncate">{statusLabel(candidate)}</p>
+                                        </div>
+                                    </label>
+                                );
+                            })}
+                        </div>
+
+                        <div className="p-4 border-t border-yt-spec-light-20 dark:border-yt-spec-20 flex justify-end gap-2">
+                            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-semibold text-black dark:text-white hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                                キャンセル
+                            </button>
+                            <button
+                                onClick={handleImport}
+                                disabled={selectedIds.size === 0}
+                                className="px-4 py-2 rounded-full text-sm font-semibold bg-yt-blue text-white hover:opacity-90 disabled:opacity-40"
+                            >
+                                {selectedIds.size}件を登録
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SubscriptionImportModal;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { CaptionTrack, Transcript } from '../types';
+import { getTranscript, getCaptionTracks } from '../utils/api';
+import { downloadTranscript, formatTranscriptTime, type TranscriptExportFormat } from '../utils/transcript';
+import { getCaptionTrackKey, getCaptionTrackLabel } from '../hooks/useCaptions';
+import { CloseIcon } from './icons/Icons';
+
+interface TranscriptPanelProps {
+  videoId: string;
+  title: string;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const EXPORT_FORMATS: { value: TranscriptExportFormat; label: string }[] = [
+  { value: 'txt', label: 'TXT' },
+  { value: 'srt', label: 'SRT' },
+  { value: 'md', label: 'Markdown' },
+];
+
+// 検索語に一致した部分を <mark> で囲む
+const highlight = (text: string, query: string): React.ReactNode => {
+  if (!query) return text;
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  let index = lowerText.indexOf(lowerQuery);
+  while (index !== -1) {
+    if (index > cursor) parts.push(text.slice(cursor, index));
+    parts.push(<mark key={index} className="bg-yellow-300 dark:bg-yellow-600 text-black dark:text-white rounded-sm">{text.slice(index, index + query.length)}</mark>);
+    cursor = index + query.length;
+    index = lowerText.indexOf(lowerQuery, cursor);
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ videoId, title, currentTime, onSeek, onClose }) => {
+  const [tracks, setTracks] = useState<CaptionTrack[]>([]);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // '' = サーバーが選ぶ既定の字幕
+  const [trackKey, setTrackKey] = useState('');
+  const [query, setQuery] = useState('');
+  const [hitIndex, setHitIndex] = useState(0);
+  const [isAutoScroll, setIsAutoScroll] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setTrackKey('');
+    setQuery('');
+    setTracks([]);
+    let isCurrent = true;
+    getCaptionTracks(videoId)
+      .then(result => { if (isCurrent) setTracks(result); })
+      .catch(err => console.warn("Failed to fetch caption tracks", err));
+    return () => { isCurrent = false; };
+  }, [videoId]);
+
+  const selectedTrack = useMemo(() => tracks.find(t => getCaptionTrackKey(t) === trackKey), [tracks, trackKey]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+    getTranscript(videoId, selectedTrack)
+      .then(result => { if (isCurrent) setTranscript(result); })
+      .catch(err => {
+        if (!isCurrent) return;
+        setTranscript(null);
+        setError(err.message);
+      })
+      .finally(() => { if (isCurrent) setIsLoading(false); });
+    return () => { isCurrent = false; };
+  }, [videoId, selectedTrack]);
+
+  const segments = transcript?.segments ?? [];
+  const trimmedQuery = query.trim();
+
+  const hits = useMemo(() => {
+    if (!trimmedQuery) return [];
+    const lowerQuery = trimmedQuery.toLowerCase();
+    return segments.reduce<number[]>((acc, segment, index) => {
+      if (segment.text.toLowerCase().includes(lowerQuery)) acc.push(index);
+      return acc;
+    }, []);
+  }, [segments, trimmedQuery]);
+
+  useEffect(() => {
+    setHitIndex(0);
+  }, [hits]);
+
+  const activeIndex = useMemo(() => {
+    let index = -1;
+    segments.forEach((segment, i) => {
+      if (segment.start <= currentTime) index = i;
+    });
+    return index;
+  }, [segments, currentTime]);
+
+  // パネル内だけをスクロールし、ページ全体は動かさない
+  const scrollToSegment = (index: number) => {
+    const list = listRef.current;
+    const el = list?.children[index] as HTMLElement | undefined;
+    if (!list || !el) return;
+    const top = el.offsetTop;
+    if (top < list.scrollTop || top + el.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - list.clientHeight / 3, behavior: 'smooth' });
+    }
+  };
+
+  // 検索中はヒット位置を、それ以外は再生中の行を表示する
+  useEffect(() => {
+    if (hits.length > 0) scrollToSegment(hits[hitIndex]);
+  }, [hits, hitIndex]);
+
+  useEffect(() => {
+    if (isAutoScroll && hits.length === 0 && activeIndex >= 0) scrollToSegment(activeIndex);
+  }, [activeIndex, isAutoScroll, hits.length]);
+
+  const moveHit = (step: number) => {
+    if (hits.length === 0) return;
+    setHitIndex(prev => (prev + step + hits.length) % hits.length);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      moveHit(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  const currentHit = hits.length > 0 ? hits[hitIndex] : -1;
+
+  return (
+    <div className="flex flex-col border border-yt-spec-light-20 dark:border-yt-spec-20 rounded-xl overflow-hidden bg-yt-white dark:bg-yt-black">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+        <h2 className="text-base font-bold text-black dark:text-white">文字起こし</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" aria-label="閉じる">
+          <CloseIcon />
+        </button>
+      </div>
+
+      <div className="px-4 py-2 space-y-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="文字起こし内を検索"
+            className="flex-1 min-w-0 h-8 px-3 rounded-lg bg-yt-light dark:bg-yt-light-black text-sm text-black dark:text-white placeholder-yt-light-gray focus:outline-none"
+          />
+          {trimmedQuery && (
+            <>
+              <span className="text-xs text-yt-light-gray whitespace-nowrap">{hits.length > 0 ? `${hitIndex + 1} / ${hits.length}` : '0 件'}</span>
+              <button onClick={() => moveHit(-1)} disabled={hits.length === 0} className="px-2 h-8 text-sm rounded-lg hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-40" aria-label="前の一致">▲</button>
+              <button onClick={() => moveHit(1)} disabled={hits.length === 0} className="px-2 h-8 text-sm rounded-lg hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-40" aria-label="次の一致">▼</button>
+            </>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {tracks.length > 0 && (
+            <select
+              value={trackKey}
+              onChange={(e) => setTrackKey(e.target.value)}
+              className="bg-yt-light dark:bg-yt-light-black text-black dark:text-white font-semibold rounded-lg px-2 py-1 focus:outline-none"
+              aria-label="言語"
+            >
+              <option value="">既定の言語</option>
+              {tracks.map(track => (
+                <option key={getCaptionTrackKey(track)} value={getCaptionTrackKey(track)}>{getCaptionTrackLabel(track)}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-1 text-yt-light-gray cursor-pointer select-none">
+            <input type="checkbox" checked={isAutoScroll} onChange={(e) => setIsAutoScroll(e.target.checked)} />
+            自動スクロール
+          </label>
+          <div className="flex items-center gap-1 ml-auto">
+            {EXPORT_FORMATS.map(format => (
+              <button
+                key={format.value}
+                onClick={() => downloadTranscript(segments, format.value, title, videoId)}
+                disabled={segments.length === 0}
+                className="px-2 py-1 rounded-lg font-semibold text-yt-blue hover:bg-yt-blue/10 disabled:opacity-40"
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div ref={listRef} className="relative max-h-[420px] overflow-y-auto py-1">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-yt-blue"></div></div>
+        ) : error ? (
+          <p className="px-4 py-6 text-sm text-center text-yt-light-gray">文字起こしを取得できませんでした。</p>
+        ) : segments.map((segment, index) => (
+          <button
+            key={`${segment.start}-${index}`}
+            onClick={() => onSeek(segment.start)}
+            className={`w-full flex items-start gap-3 px-4 py-1.5 text-left text-sm transition-colors ${index === activeIndex ? 'bg-yt-spec-light-20 dark:bg-yt-spec-20' : 'hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10'} ${index === currentHit ? 'ring-2 ring-inset ring-yt-blue' : ''}`}
+          >
+            <span className="flex-shrink-0 w-12 text-xs font-semibold text-yt-blue pt-0.5">{formatTranscriptTime(segment.start)}</span>
+            <span className="flex-1 text-black dark:text-white whitespace-pre-wrap break-words">{highlight(segment.text, trimmedQuery)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
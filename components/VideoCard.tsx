@@ -4,6 +4,7 @@ import { Link } from 'react-router-dom';
 import type { Video } from '../types';
 import { ChevronRightIcon, MoreIconHorizontal, BlockIcon, TrashIcon } from './icons/Icons';
 import { usePreference } from '../contexts/PreferenceContext';
+import { getDirectThumbnailUrl } from '../utils/proxyThumbnail';
 
 interface VideoCardProps {
   video: Video;
@@ -92,13 +93,19 @@ const VideoCard: React.FC<VideoCardProps> = memo(({ video, hideChannelInfo = fal
     <div className="flex flex-col group cursor-pointer relative">
       <Link to={`/watch/${video.id}`}>
         <div className="relative rounded-xl overflow-hidden aspect-video bg-yt-light dark:bg-yt-dark-gray shadow-sm group-hover:shadow-xl transition-shadow duration-300">
-            <img 
-                src={video.thumbnailUrl} 
-                alt={video.title} 
-                loading="lazy"
-                decoding="async"
-                className="w-full h-full object-cover" 
-            />
+            <picture>
+                {/* Small screens get a resized WebP from the thumbnail cache instead of the full-size JPEG */}
+                {/^[a-zA-Z0-9_-]{11}$/.test(video.id) && (
+                    <source media="(max-width: 640px)" type="image/webp" srcSet={getDirectThumbnailUrl(video.id, 'hq', { width: 320, format: 'webp' })} />
+                )}
+                <img 
+                    src={video.thumbnailUrl} 
+                    alt={video.title} 
+                    loading="lazy"
+                    decoding="async"
+                    className="w-full h-full object-cover" 
+                />
+            </picture>
             {video.duration && (
                 <span className="absolute bottom-1.5 right-1.5 bg-black/80 text-white text-xs font-medium px-1.5 py-0.5 rounded-[4px]">
                 {video.duration}
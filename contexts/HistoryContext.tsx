@@ -1,25 +1,49 @@
 
 
 import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
-import type { Video } from '../types';
+import type { Video, HistoryEntry } from '../types';
 
 interface HistoryContextType {
-  history: Video[];
-  shortsHistory: Video[];
+  history: HistoryEntry[];
+  shortsHistory: HistoryEntry[];
   addVideoToHistory: (video: Video) => void;
   addShortToHistory: (video: Video) => void;
   clearHistory: () => void;
   removeVideosFromHistory: (videoIds: string[]) => void;
+  // 他のサービスから移行した履歴をまとめ、新たに加わって履歴に残った動画の数を返す
+  importHistory: (entries: HistoryEntry[]) => number;
 }
 
 const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
 
 const HISTORY_KEY = 'videoHistory';
 const SHORTS_HISTORY_KEY = 'shortsHistory';
-const MAX_HISTORY_LENGTH = 200;
+export const MAX_HISTORY_LENGTH = 200;
+
+// 視聴日時の新しい順に並べる。日時の無い履歴のうち、日時を記録していなかった頃の既存の履歴は先頭に、
+// 日時を含まないインポート元 (Invidious など) の履歴は末尾に、それぞれ元の順序のまま置く
+const watchedTime = (entry: HistoryEntry, fallback: number) => entry.watchedAt ? Date.parse(entry.watchedAt) : fallback;
+
+// 同じ動画は1件にまとめ、動画の情報は既存の履歴のものを優先して、視聴日時は新しいほうを残す
+export const mergeHistoryEntries = (current: HistoryEntry[], imported: HistoryEntry[]): HistoryEntry[] => {
+  const merged = new Map<string, { entry: HistoryEntry; time: number }>();
+  for (const entry of current) {
+    if (!merged.has(entry.id)) merged.set(entry.id, { entry, time: watchedTime(entry, Infinity) });
+  }
+  for (const entry of imported) {
+    const time = watchedTime(entry, -Infinity);
+    const existing = merged.get(entry.id);
+    if (!existing) merged.set(entry.id, { entry, time });
+    else if (time > existing.time) merged.set(entry.id, { entry: { ...existing.entry, watchedAt: entry.watchedAt }, time });
+  }
+  return Array.from(merged.values())
+    .sort((a, b) => b.time - a.time || 0)
+    .map(({ entry }) => entry)
+    .slice(0, MAX_HISTORY_LENGTH);
+};
 
 export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [history, setHistory] = useState<Video[]>(() => {
+  const [history, setHistory] = useState<HistoryEntry[]>(() => {
     try {
       const item = window.localStorage.getItem(HISTORY_KEY);
       return item ? JSON.parse(item) : [];
@@ -29,7 +53,7 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   });
 
-  const [shortsHistory, setShortsHistory] = useState<Video[]>(() => {
+  const [shortsHistory, setShortsHistory] = useState<HistoryEntry[]>(() => {
     try {
       const item = window.localStorage.getItem(SHORTS_HISTORY_KEY);
       return item ? JSON.parse(item) : [];
@@ -58,7 +82,7 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
   const addVideoToHistory = useCallback((video: Video) => {
     setHistory(prev => {
       // 既存の履歴から同じIDの動画を削除し、新しい動画を先頭に追加する
-      const newHistory = [video, ...prev.filter(v => v.id !== video.id)];
+      const newHistory = [{ ...video, watchedAt: new Date().toISOString() }, ...prev.filter(v => v.id !== video.id)];
       // 最大履歴長を超えないように切り詰める
       return newHistory.slice(0, MAX_HISTORY_LENGTH);
     });
@@ -67,7 +91,7 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
   const addShortToHistory = useCallback((video: Video) => {
     setShortsHistory(prev => {
       // 既存の履歴から同じIDの動画を削除し、新しい動画を先頭に追加する
-      const newHistory = [video, ...prev.filter(v => v.id !== video.id)];
+      const newHistory = [{ ...video, watchedAt: new Date().toISOString() }, ...prev.filter(v => v.id !== video.id)];
       // 最大履歴長を超えないように切り詰める
       return newHistory.slice(0, MAX_HISTORY_LENGTH);
     });
@@ -83,8 +107,16 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     setShortsHistory(prev => prev.filter(video => !videoIds.includes(video.id)));
   }, []);
 
+  const importHistory = useCallback((entries: HistoryEntry[]) => {
+    const existingIds = new Set(history.map(v => v.id));
+    // MAX_HISTORY_LENGTH に切り詰めた後に残る新しい動画だけを数える (インポート画面の見積もりと同じ数え方)
+    const added = mergeHistoryEntries(history, entries).filter(v => !existingIds.has(v.id)).length;
+    setHistory(prev => mergeHistoryEntries(prev, entries));
+    return added;
+  }, [history]);
+
   return (
-    <HistoryContext.Provider value={{ history, shortsHistory, addVideoToHistory, addShortToHistory, clearHistory, removeVideosFromHistory }}>
+    <HistoryContext.Provider value={{ history, shortsHistory, addVideoToHistory, addShortToHistory, clearHistory, removeVideosFromHistory, importHistory }}>
       {children}
     </HistoryContext.Provider>
   );
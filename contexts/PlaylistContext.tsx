@@ -1,5 +1,5 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
-import type { Playlist } from '../types';
+import type { Playlist, ImportedPlaylist } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 interface PlaylistContextType {
@@ -12,6 +12,8 @@ interface PlaylistContextType {
   reorderVideosInPlaylist: (playlistId: string, startIndex: number, endIndex: number) => void;
   isVideoInPlaylist: (playlistId: string, videoId: string) => boolean;
   getPlaylistsContainingVideo: (videoId: string) => string[];
+  // 同じ名前の再生リストがあれば重複しない動画だけを追加し、なければ新しく作成する
+  importPlaylists: (imported: ImportedPlaylist[]) => { created: number; updated: number };
 }
 
 const PlaylistContext = createContext<PlaylistContextType | undefined>(undefined);
@@ -98,8 +100,34 @@ export const PlaylistProvider: React.FC<{ children: ReactNode }> = ({ children }
       return playlists.filter(p => p.videoIds.includes(videoId)).map(p => p.id);
   }
 
+  const importPlaylists = (imported: ImportedPlaylist[]) => {
+    const existingNames = new Set(playlists.map(p => p.name));
+    const created = imported.filter(p => !existingNames.has(p.name)).length;
+
+    setPlaylists(prev => {
+      const next = [...prev];
+      for (const item of imported) {
+        const index = next.findIndex(p => p.name === item.name);
+        if (index >= 0) {
+          const videoIds = next[index].videoIds;
+          next[index] = { ...next[index], videoIds: [...videoIds, ...item.videoIds.filter(id => !videoIds.includes(id))] };
+        } else {
+          next.unshift({
+            id: uuidv4(),
+            name: item.name,
+            videoIds: [...new Set(item.videoIds)],
+            createdAt: item.createdAt ?? new Date().toISOString(),
+            authorName: 'あなた',
+          });
+        }
+      }
+      return next;
+    });
+    return { created, updated: imported.length - created };
+  };
+
   return (
-    <PlaylistContext.Provider value={{ playlists, createPlaylist, renamePlaylist, deletePlaylist, addVideoToPlaylist, removeVideoFromPlaylist, reorderVideosInPlaylist, isVideoInPlaylist, getPlaylistsContainingVideo }}>
+    <PlaylistContext.Provider value={{ playlists, createPlaylist, renamePlaylist, deletePlaylist, addVideoToPlaylist, removeVideoFromPlaylist, reorderVideosInPlaylist, isVideoInPlaylist, getPlaylistsContainingVideo, importPlaylists }}>
       {children}
     </PlaylistContext.Provider>
   );
@@ -30,6 +30,10 @@ interface PreferenceContextType {
   defaultPlayerMode: 'player' | 'stream';
   setDefaultPlayerMode: (mode: 'player' | 'stream') => void;
 
+  // Preferred caption language code (null = captions off)
+  preferredCaptionLanguage: string | null;
+  setPreferredCaptionLanguage: (languageCode: string | null) => void;
+
   // Versioning for Update Notification
   checkAppVersion: () => boolean; // Returns true if update notification should be shown
   
@@ -106,6 +110,12 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       } catch { return 'player'; }
   });
 
+  const [preferredCaptionLanguage, _setPreferredCaptionLanguage] = useState<string | null>(() => {
+      try {
+          return window.localStorage.getItem('preferredCaptionLanguage') || null;
+      } catch { return null; }
+  });
+
   useEffect(() => { localStorage.setItem('ngKeywords', JSON.stringify(ngKeywords)); }, [ngKeywords]);
   useEffect(() => { localStorage.setItem('ngChannels', JSON.stringify(ngChannels)); }, [ngChannels]);
   useEffect(() => { localStorage.setItem('hiddenVideos', JSON.stringify(hiddenVideos)); }, [hiddenVideos]);
@@ -211,6 +221,12 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       localStorage.setItem('defaultPlayerMode', mode);
   };
 
+  const setPreferredCaptionLanguage = (languageCode: string | null) => {
+      _setPreferredCaptionLanguage(languageCode);
+      if (languageCode) localStorage.setItem('preferredCaptionLanguage', languageCode);
+      else localStorage.removeItem('preferredCaptionLanguage');
+  };
+
   const checkAppVersion = () => {
       const lastSeen = localStorage.getItem('lastSeenAppVersion');
       if (lastSeen !== CURRENT_APP_VERSION) {
@@ -229,7 +245,7 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       playlists: JSON.parse(localStorage.getItem('playlists') || '[]'),
       preferences: { 
           ngKeywords, ngChannels, hiddenVideos, isShortsAutoplayEnabled, 
-          isLiteMode, defaultPlayerMode 
+          isLiteMode, defaultPlayerMode, preferredCaptionLanguage
       }
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -264,6 +280,7 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
             localStorage.setItem('isShortsAutoplayEnabled', String(p.isShortsAutoplayEnabled ?? true));
             if(p.isLiteMode !== undefined) localStorage.setItem('isLiteMode', String(p.isLiteMode));
             if(p.defaultPlayerMode) localStorage.setItem('defaultPlayerMode', p.defaultPlayerMode);
+            if(p.preferredCaptionLanguage) localStorage.setItem('preferredCaptionLanguage', p.preferredCaptionLanguage);
           }
 
           window.location.reload();
@@ -282,6 +299,7 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       ngKeywords, ngChannels, hiddenVideos, negativeKeywords, isShortsAutoplayEnabled,
       isLiteMode, toggleLiteMode,
       defaultPlayerMode, setDefaultPlayerMode,
+      preferredCaptionLanguage, setPreferredCaptionLanguage,
       checkAppVersion,
       addNgKeyword, removeNgKeyword, addNgChannel, removeNgChannel, isNgChannel,
       addHiddenVideo, unhideVideo, isvideoHidden, removeNegativeProfileForVideos,
@@ -0,0 +1,141 @@
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { SkipCategory, SkipMode, SkipSegment } from '../types';
+import { parseSponsorBlockJson, toSponsorBlockJson } from '../utils/sponsorBlock';
+
+interface SkipSegmentContextType {
+  categoryModes: Record<SkipCategory, SkipMode>;
+  setCategoryMode: (category: SkipCategory, mode: SkipMode) => void;
+  getSegments: (videoId: string) => SkipSegment[];
+  addSegment: (videoId: string, category: SkipCategory, start: number, end: number) => void;
+  removeSegment: (videoId: string, segmentId: string) => void;
+  exportSegments: () => void;
+  // 取り込んだ区間の数を返す (重複は数えない)
+  importSegments: (file: File, fallbackVideoId?: string) => Promise<number>;
+}
+
+const SkipSegmentContext = createContext<SkipSegmentContextType | undefined>(undefined);
+
+const SEGMENTS_KEY = 'skipSegments';
+const MODES_KEY = 'skipCategoryModes';
+
+const DEFAULT_MODES: Record<SkipCategory, SkipMode> = {
+  sponsor: 'auto',
+  intro: 'manual',
+  outro: 'manual',
+  selfpromo: 'manual',
+  music_offtopic: 'off',
+};
+
+// 同じカテゴリで開始・終了がほぼ同じ区間は同一とみなす
+const DUPLICATE_TOLERANCE = 0.5;
+
+const isDuplicate = (a: Pick<SkipSegment, 'category' | 'start' | 'end'>, b: Pick<SkipSegment, 'category' | 'start' | 'end'>) =>
+  a.category === b.category && Math.abs(a.start - b.start) <= DUPLICATE_TOLERANCE && Math.abs(a.end - b.end) <= DUPLICATE_TOLERANCE;
+
+export const SkipSegmentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [segmentsByVideo, setSegmentsByVideo] = useState<Record<string, SkipSegment[]>>(() => {
+    try {
+      const item = window.localStorage.getItem(SEGMENTS_KEY);
+      return item ? JSON.parse(item) : {};
+    } catch (error) {
+      console.error("Failed to parse skip segments from localStorage", error);
+      return {};
+    }
+  });
+
+  const [categoryModes, setCategoryModes] = useState<Record<SkipCategory, SkipMode>>(() => {
+    try {
+      const item = window.localStorage.getItem(MODES_KEY);
+      return { ...DEFAULT_MODES, ...(item ? JSON.parse(item) : {}) };
+    } catch {
+      return DEFAULT_MODES;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(SEGMENTS_KEY, JSON.stringify(segmentsByVideo));
+    } catch (error) {
+      console.error("Failed to save skip segments to localStorage", error);
+    }
+  }, [segmentsByVideo]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(MODES_KEY, JSON.stringify(categoryModes));
+    } catch (error) {
+      console.error("Failed to save skip category modes to localStorage", error);
+    }
+  }, [categoryModes]);
+
+  const setCategoryMode = useCallback((category: SkipCategory, mode: SkipMode) => {
+    setCategoryModes(prev => ({ ...prev, [category]: mode }));
+  }, []);
+
+  const getSegments = useCallback((videoId: string) => segmentsByVideo[videoId] ?? [], [segmentsByVideo]);
+
+  const addSegment = useCallback((videoId: string, category: SkipCategory, start: number, end: number) => {
+    const segment: SkipSegment = { id: uuidv4(), videoId, category, start, end, createdAt: new Date().toISOString() };
+    setSegmentsByVideo(prev => {
+      const current = prev[videoId] ?? [];
+      if (current.some(s => isDuplicate(s, segment))) return prev;
+      return { ...prev, [videoId]: [...current, segment].sort((a, b) => a.start - b.start) };
+    });
+  }, []);
+
+  const removeSegment = useCallback((videoId: string, segmentId: string) => {
+    setSegmentsByVideo(prev => {
+      const remaining = (prev[videoId] ?? []).filter(s => s.id !== segmentId);
+      const next = { ...prev };
+      if (remaining.length > 0) next[videoId] = remaining;
+      else delete next[videoId];
+      return next;
+    });
+  }, []);
+
+  const exportSegments = useCallback(() => {
+    const blob = new Blob([JSON.stringify(toSponsorBlockJson(segmentsByVideo), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `xeroxyt_skip_segments_${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [segmentsByVideo]);
+
+  const importSegments = useCallback(async (file: File, fallbackVideoId?: string) => {
+    const imported = parseSponsorBlockJson(JSON.parse(await file.text()), fallbackVideoId);
+    const next = { ...segmentsByVideo };
+    let added = 0;
+    for (const item of imported) {
+      const current = next[item.videoId] ?? [];
+      if (current.some(s => (item.uuid && s.id === item.uuid) || isDuplicate(s, item))) continue;
+      next[item.videoId] = [...current, {
+        id: item.uuid ?? uuidv4(),
+        videoId: item.videoId,
+        category: item.category,
+        start: item.start,
+        end: item.end,
+        createdAt: new Date().toISOString(),
+      }].sort((a, b) => a.start - b.start);
+      added++;
+    }
+    if (added > 0) setSegmentsByVideo(next);
+    return added;
+  }, [segmentsByVideo]);
+
+  return (
+    <SkipSegmentContext.Provider value={{ categoryModes, setCategoryMode, getSegments, addSegment, removeSegment, exportSegments, importSegments }}>
+      {children}
+    </SkipSegmentContext.Provider>
+  );
+};
+
+export const useSkipSegments = (): SkipSegmentContextType => {
+  const context = useContext(SkipSegmentContext);
+  if (context === undefined) {
+    throw new Error('useSkipSegments must be used within a SkipSegmentProvider');
+  }
+  return context;
+};
@@ -2,12 +2,16 @@
 
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
 import type { Channel } from '../types';
+import { buildSubscriptionsOpml } from '../utils/opml';
 
 interface SubscriptionContextType {
   subscribedChannels: Channel[];
   subscribe: (channel: Channel) => void;
   unsubscribe: (channelId: string) => void;
   isSubscribed: (channelId: string) => boolean;
+  // 未登録のチャンネルだけを追加し、追加した数を返す
+  importChannels: (channels: Channel[]) => number;
+  exportSubscriptionsOpml: () => void;
 }
 
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
@@ -49,8 +53,29 @@ export const SubscriptionProvider: React.FC<{ children: ReactNode }> = ({ childr
     return subscribedChannels.some(c => c.id === channelId);
   };
 
+  const importChannels = (channels: Channel[]) => {
+    const existingIds = new Set(subscribedChannels.map(c => c.id));
+    const added = channels.filter(channel => {
+      if (existingIds.has(channel.id)) return false;
+      existingIds.add(channel.id);
+      return true;
+    });
+    if (added.length > 0) setSubscribedChannels(prev => [...prev, ...added.filter(c => !prev.some(p => p.id === c.id))]);
+    return added.length;
+  };
+
+  const exportSubscriptionsOpml = () => {
+    const blob = new Blob([buildSubscriptionsOpml(subscribedChannels, window.location.origin)], { type: 'text/x-opml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `xeroxyt_subscriptions_${new Date().toISOString().slice(0, 10)}.opml`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
-    <SubscriptionContext.Provider value={{ subscribedChannels, subscribe, unsubscribe, isSubscribed }}>
+    <SubscriptionContext.Provider value={{ subscribedChannels, subscribe, unsubscribe, isSubscribed, importChannels, exportSubscriptionsOpml }}>
       {children}
     </SubscriptionContext.Provider>
   );
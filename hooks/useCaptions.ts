@@ -0,0 +1,77 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getCaptionTracks } from '../utils/api';
+import { usePreference } from '../contexts/PreferenceContext';
+import type { CaptionTrack } from '../types';
+
+export const getCaptionTrackKey = (track: CaptionTrack) => `${track.languageCode}:${track.kind}`;
+
+export const getCaptionTrackLabel = (track: CaptionTrack) =>
+    track.kind === 'asr' ? `${track.name} (自動生成)` : track.name;
+
+// 優先言語と完全一致するもの → 地域違い (ja と ja-JP など) の順に探し、同じ言語なら手動字幕を優先する
+export const pickCaptionTrack = (tracks: CaptionTrack[], languageCode: string | null): CaptionTrack | null => {
+    if (!languageCode) return null;
+    const lang = languageCode.toLowerCase();
+    const base = lang.split('-')[0];
+    const byPriority = [...tracks].sort((a, b) => (a.kind === 'asr' ? 1 : 0) - (b.kind === 'asr' ? 1 : 0));
+    return byPriority.find(t => t.languageCode.toLowerCase() === lang)
+        ?? byPriority.find(t => t.languageCode.toLowerCase().split('-')[0] === base)
+        ?? null;
+};
+
+// 字幕トラックを取得して <video> に <track> 要素として追加し、選択中のものだけを表示する。
+// <video> を React 以外で生成するページ (Lite モード) でも使えるよう、要素は直接操作する
+export const useCaptions = (videoId: string | null | undefined, videoElement: HTMLVideoElement | null) => {
+    const { preferredCaptionLanguage, setPreferredCaptionLanguage } = usePreference();
+    const [tracks, setTracks] = useState<CaptionTrack[]>([]);
+    // 動画ごとに選び直した場合の上書き (undefined なら優先言語から選ぶ)
+    const [selectedKey, setSelectedKey] = useState<string | null | undefined>(undefined);
+
+    useEffect(() => {
+        setTracks([]);
+        setSelectedKey(undefined);
+        if (!videoId || !videoElement) return;
+
+        let isCurrent = true;
+        getCaptionTracks(videoId)
+            .then(result => { if (isCurrent) setTracks(result); })
+            .catch(err => console.warn("Failed to fetch caption tracks", err));
+        return () => { isCurrent = false; };
+    }, [videoId, videoElement]);
+
+    const selectedTrack = useMemo(() => {
+        if (selectedKey === null) return null;
+        if (selectedKey !== undefined) return tracks.find(t => getCaptionTrackKey(t) === selectedKey) ?? null;
+        return pickCaptionTrack(tracks, preferredCaptionLanguage);
+    }, [tracks, selectedKey, preferredCaptionLanguage]);
+
+    useEffect(() => {
+        if (!videoElement || tracks.length === 0) return;
+        const elements = tracks.map(track => {
+            const el = document.createElement('track');
+            el.kind = 'subtitles';
+            el.src = track.url;
+            el.srclang = track.languageCode;
+            el.label = getCaptionTrackLabel(track);
+            el.dataset.captionKey = getCaptionTrackKey(track);
+            videoElement.appendChild(el);
+            return el;
+        });
+        return () => elements.forEach(el => el.remove());
+    }, [videoElement, tracks]);
+
+    useEffect(() => {
+        if (!videoElement) return;
+        const selected = selectedTrack ? getCaptionTrackKey(selectedTrack) : null;
+        videoElement.querySelectorAll<HTMLTrackElement>('track[data-caption-key]').forEach(el => {
+            el.track.mode = el.dataset.captionKey === selected ? 'showing' : 'disabled';
+        });
+    }, [videoElement, tracks, selectedTrack]);
+
+    const selectTrack = (track: CaptionTrack | null) => {
+        setSelectedKey(track ? getCaptionTrackKey(track) : null);
+        setPreferredCaptionLanguage(track ? track.languageCode : null);
+    };
+
+    return { tracks, selectedTrack, selectTrack };
+};
@@ -0,0 +1,69 @@
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getComments } from '../utils/api';
+import type { Comment, CommentSort } from '../types';
+
+// コメントの取得・並べ替え・ページ送りをまとめて扱う。enabled が false の間は取得しない (Shorts のドロワーなど)
+export const useComments = (videoId: string | undefined, enabled: boolean = true) => {
+    const [comments, setComments] = useState<Comment[]>([]);
+    const [countText, setCountText] = useState<string | null>(null);
+    const [sort, setSort] = useState<CommentSort>('top');
+    const [nextPageToken, setNextPageToken] = useState<string | undefined>(undefined);
+    const [isLoading, setIsLoading] = useState(false);
+    // 動画や並び順が変わった後に古いレスポンスが反映されないようにする
+    const requestIdRef = useRef(0);
+    const loadedKeyRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!videoId || !enabled) return;
+        const key = `${videoId}:${sort}`;
+        if (loadedKeyRef.current === key) return;
+        loadedKeyRef.current = key;
+
+        const requestId = ++requestIdRef.current;
+        setComments([]);
+        setCountText(null);
+        setNextPageToken(undefined);
+        setIsLoading(true);
+        getComments(videoId, sort)
+            .then(page => {
+                if (requestId !== requestIdRef.current) return;
+                setComments(page.comments);
+                setCountText(page.countText ?? null);
+                setNextPageToken(page.nextPageToken);
+            })
+            .catch(err => {
+                console.warn("Failed to fetch comments", err);
+                if (requestId === requestIdRef.current) loadedKeyRef.current = null;
+            })
+            .finally(() => {
+                if (requestId === requestIdRef.current) setIsLoading(false);
+            });
+    }, [videoId, sort, enabled]);
+
+    const loadMore = useCallback(async () => {
+        if (!videoId || !nextPageToken || isLoading) return;
+        const requestId = requestIdRef.current;
+        setIsLoading(true);
+        try {
+            const page = await getComments(videoId, sort, nextPageToken);
+            if (requestId !== requestIdRef.current) return;
+            setComments(prev => [...prev, ...page.comments]);
+            setNextPageToken(page.nextPageToken);
+        } catch (err) {
+            console.warn("Failed to fetch more comments", err);
+        } finally {
+            if (requestId === requestIdRef.current) setIsLoading(false);
+        }
+    }, [videoId, sort, nextPageToken, isLoading]);
+
+    return {
+        comments,
+        countText,
+        sort,
+        setSort,
+        hasMore: !!nextPageToken,
+        isLoading,
+        loadMore,
+    };
+};
@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// 埋め込みプレーヤー (iframe) と Stream モードの <video> のどちらが表示中でも、
+// 再生位置の取得とシークを同じ形で扱えるようにする
+export const usePlayerControl = (videoId: string | undefined) => {
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+
+    useEffect(() => {
+        setCurrentTime(0);
+    }, [videoId]);
+
+    useEffect(() => {
+        if (!videoElement) return;
+        const handleTimeUpdate = () => setCurrentTime(videoElement.currentTime);
+        videoElement.addEventListener('timeupdate', handleTimeUpdate);
+        videoElement.addEventListener('seeked', handleTimeUpdate);
+        return () => {
+            videoElement.removeEventListener('timeupdate', handleTimeUpdate);
+            videoElement.removeEventListener('seeked', handleTimeUpdate);
+        };
+    }, [videoElement]);
+
+    // iframe からの infoDelivery で再生位置を受け取る
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const iframe = iframeRef.current;
+            if (!iframe || event.source !== iframe.contentWindow) return;
+            let data = event.data;
+            if (typeof data === 'string') {
+                try {
+                    data = JSON.parse(data);
+                } catch (e) {
+                    return;
+                }
+            }
+            if (data?.event === 'infoDelivery' && typeof data.info?.currentTime === 'number') {
+                setCurrentTime(data.info.currentTime);
+            }
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const postToIframe = useCallback((message: object) => {
+        iframeRef.current?.contentWindow?.postMessage(JSON.stringify(message), '*');
+    }, []);
+
+    // 埋め込みプレーヤーは listening を受け取るまでイベントを送ってこない
+    const handleIframeLoad = useCallback(() => {
+        postToIframe({ event: 'listening', id: 1, channel: 'widget' });
+    }, [postToIframe]);
+
+    const sendIframeCommand = useCallback((func: string, args: unknown[] = []) => {
+        postToIframe({ event: 'command', func, args });
+    }, [postToIframe]);
+
+    const seekTo = useCallback((seconds: number) => {
+        if (videoElement) {
+            videoElement.currentTime = seconds;
+            if (videoElement.paused) videoElement.play().catch(() => {});
+        }
+        sendIframeCommand('seekTo', [seconds, true]);
+        setCurrentTime(seconds);
+    }, [videoElement, sendIframeCommand]);
+
+    return {
+        iframeRef,
+        videoRef: setVideoElement,
+        videoElement,
+        currentTime,
+        seekTo,
+        sendIframeCommand,
+        handleIframeLoad,
+    };
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { getSearchSuggestions } from '../utils/api';
+
+const DEBOUNCE_MS = 200;
+
+// 入力が止まってから候補を取得し、次の入力が来たら前のリクエストは中断する
+export const useSearchSuggestions = (query: string, enabled: boolean = true) => {
+    const [suggestions, setSuggestions] = useState<string[]>([]);
+
+    useEffect(() => {
+        const trimmed = query.trim();
+        if (!enabled || !trimmed) {
+            setSuggestions([]);
+            return;
+        }
+
+        const controller = new AbortController();
+        const timer = window.setTimeout(() => {
+            getSearchSuggestions(trimmed, controller.signal)
+                .then(setSuggestions)
+                .catch(err => {
+                    if (err?.name !== 'AbortError') console.warn("Failed to fetch search suggestions", err);
+                });
+        }, DEBOUNCE_MS);
+
+        return () => {
+            window.clearTimeout(timer);
+            controller.abort();
+        };
+    }, [query, enabled]);
+
+    return suggestions;
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSkipSegments } from '../contexts/SkipSegmentContext';
+import type { SkipSegment } from '../types';
+
+// 区間の終わり際に入った場合はスキップしない (シーク直後に再度飛ばされるのを防ぐ)
+const END_MARGIN = 0.5;
+const NOTICE_DURATION_MS = 4000;
+// シーク先はキーフレームに丸められるため、区間の先頭より少し前に着地しても区間内とみなす
+const SEEK_TOLERANCE = 1;
+
+// 再生位置を監視し、カテゴリの設定に応じて区間を自動でスキップするか、スキップボタン用に返す
+export const useSegmentSkipper = (videoId: string | undefined, currentTime: number, seekTo: (seconds: number) => void) => {
+    const { getSegments, categoryModes } = useSkipSegments();
+    const segments = videoId ? getSegments(videoId) : [];
+    const [skippedNotice, setSkippedNotice] = useState<SkipSegment | null>(null);
+    // 自動スキップ済みの区間。区間より前に戻った場合はもう一度スキップできるよう外す
+    const skippedIdsRef = useRef<Set<string>>(new Set());
+    // 取り消した区間 (id -> 戻った後に区間内へ入ったか)。区間内に入ってから外へ出るまでは自動スキップしない
+    const suppressedRef = useRef<Map<string, boolean>>(new Map());
+
+    useEffect(() => {
+        skippedIdsRef.current = new Set();
+        suppressedRef.current = new Map();
+        setSkippedNotice(null);
+    }, [videoId]);
+
+    const activeSegment = segments.find(s =>
+        categoryModes[s.category] !== 'off' && currentTime >= s.start && currentTime < s.end - END_MARGIN
+    ) ?? null;
+
+    useEffect(() => {
+        segments.forEach(s => {
+            const entered = suppressedRef.current.get(s.id);
+            if (entered === undefined) {
+                if (currentTime < s.start) skippedIdsRef.current.delete(s.id);
+                return;
+            }
+            if (currentTime >= s.start - SEEK_TOLERANCE && currentTime < s.end) suppressedRef.current.set(s.id, true);
+            else if (entered) suppressedRef.current.delete(s.id);
+        });
+        if (!activeSegment || categoryModes[activeSegment.category] !== 'auto') return;
+        if (skippedIdsRef.current.has(activeSegment.id) || suppressedRef.current.has(activeSegment.id)) return;
+        skippedIdsRef.current.add(activeSegment.id);
+        seekTo(activeSegment.end);
+        setSkippedNotice(activeSegment);
+    }, [currentTime, activeSegment, categoryModes, segments, seekTo]);
+
+    useEffect(() => {
+        if (!skippedNotice) return;
+        const timer = window.setTimeout(() => setSkippedNotice(null), NOTICE_DURATION_MS);
+        return () => window.clearTimeout(timer);
+    }, [skippedNotice]);
+
+    const manualSegment = activeSegment && categoryModes[activeSegment.category] === 'manual' ? activeSegment : null;
+
+    const skip = (segment: SkipSegment) => {
+        skippedIdsRef.current.add(segment.id);
+        seekTo(segment.end);
+    };
+
+    // 自動スキップを取り消して区間の先頭に戻る (戻った区間は次に範囲外へ出るまで再スキップしない)
+    const undoSkip = () => {
+        if (!skippedNotice) return;
+        suppressedRef.current.set(skippedNotice.id, false);
+        seekTo(skippedNotice.start);
+        setSkippedNotice(null);
+    };
+
+    return { segments, manualSegment, skippedNotice, skip, undoSkip };
+};
@@ -8,6 +8,7 @@ import { PlaylistProvider } from './contexts/PlaylistContext';
 import { SearchHistoryProvider } from './contexts/SearchHistoryContext';
 import { HistoryProvider } from './contexts/HistoryContext';
 import { PreferenceProvider } from './contexts/PreferenceContext';
+import { SkipSegmentProvider } from './contexts/SkipSegmentContext';
 import { ThemeProvider } from './hooks/useTheme';
 
 const rootElement = document.getElementById('root');
@@ -25,7 +26,9 @@ root.render(
             <SearchHistoryProvider>
               <HistoryProvider>
                 <PreferenceProvider>
-                  <App />
+                  <SkipSegmentProvider>
+                    <App />
+                  </SkipSegmentProvider>
                 </PreferenceProvider>
               </HistoryProvider>
             </SearchHistoryProvider>
@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useParams, Link } from 'react-router-dom';
-import { getChannelDetails, getChannelVideos, getChannelHome, mapHomeVideoToVideo, getChannelShorts, getPlayerConfig } from '../utils/api';
+import { getChannelDetails, getChannelVideos, getChannelHome, mapHomeVideoToVideo, getChannelShorts, getPlayerConfig, getChannelFeedUrl } from '../utils/api';
 import type { ChannelDetails, Video, Channel, ChannelHomeData } from '../types';
 import VideoGrid from '../components/VideoGrid';
 import VideoCard from '../components/VideoCard';
@@ -12,7 +12,7 @@ import { useSubscription } from '../contexts/SubscriptionContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import HorizontalScrollContainer from '../components/HorizontalScrollContainer';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
-import { BlockIcon } from '../components/icons/Icons';
+import { BlockIcon, RssIcon } from '../components/icons/Icons';
 
 type Tab = 'home' | 'videos' | 'shorts';
 
@@ -28,7 +28,7 @@ const ChannelPage: React.FC = () => {
     const [shorts, setShorts] = useState<Video[]>([]);
     const [playerParams, setPlayerParams] = useState<string | null>(null);
     
-    const [videosPageToken, setVideosPageToken] = useState<string | undefined>('1');
+    const [videosPageToken, setVideosPageToken] = useState<string | undefined>(undefined);
     const [isFetchingMore, setIsFetchingMore] = useState(false);
     const [isTabLoading, setIsTabLoading] = useState(false);
     
@@ -43,7 +43,7 @@ const ChannelPage: React.FC = () => {
             setVideos([]);
             setShorts([]);
             setHomeData(null);
-            setVideosPageToken('1');
+            setVideosPageToken(undefined);
             setActiveTab('home');
             
             try {
@@ -64,7 +64,7 @@ const ChannelPage: React.FC = () => {
     const fetchTabData = useCallback(async (tab: Tab, pageToken?: string) => {
         if (!channelId || (isFetchingMore && tab === 'videos')) return;
         
-        if (pageToken && pageToken !== '1') {
+        if (pageToken) {
             setIsFetchingMore(true);
         } else {
             setIsTabLoading(true);
@@ -86,7 +86,7 @@ const ChannelPage: React.FC = () => {
                         channelAvatarUrl: channelDetails?.avatarUrl || v.channelAvatarUrl,
                         channelId: channelDetails?.id || v.channelId
                     }));
-                    setVideos(prev => pageToken && pageToken !== '1' ? [...prev, ...enrichedVideos] : enrichedVideos);
+                    setVideos(prev => pageToken ? [...prev, ...enrichedVideos] : enrichedVideos);
                     setVideosPageToken(vData.nextPageToken);
                     break;
                 case 'shorts':
@@ -128,7 +128,7 @@ const ChannelPage: React.FC = () => {
             if (activeTab === 'home' && !homeData) {
                 fetchTabData('home');
             } else if (activeTab === 'videos' && videos.length === 0) {
-                fetchTabData('videos', '1');
+                fetchTabData('videos');
             } else if (activeTab === 'shorts' && shorts.length === 0) {
                 fetchTabData('shorts');
             }
@@ -298,6 +298,16 @@ const ChannelPage: React.FC = () => {
                         >
                             <BlockIcon />
                         </button>
+
+                        <a
+                            href={getChannelFeedUrl(channelDetails.id)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="p-2 rounded-full transition-colors bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]"
+                            title="Atom フィード"
+                        >
+                            <RssIcon />
+                        </a>
                     </div>
                 </div>
             </div>
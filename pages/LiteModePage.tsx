@@ -1,6 +1,10 @@
 
 import React, { useState, useRef } from 'react';
 import { usePreference } from '../contexts/PreferenceContext';
+import { getStreamData, getPreferredCombinedFormat, getMediaRelayUrl, getPlayerConfig } from '../utils/api';
+import type { StreamData } from '../types';
+import { useCaptions } from '../hooks/useCaptions';
+import CaptionPicker from '../components/CaptionPicker';
 
 const LiteModePage: React.FC = () => {
     const { toggleLiteMode } = usePreference();
@@ -10,13 +14,16 @@ const LiteModePage: React.FC = () => {
     const [loadingAction, setLoadingAction] = useState<'embed' | 'stream' | 'download' | null>(null);
     const [progress, setProgress] = useState(0);
     const [error, setError] = useState<string | null>(null);
-    const [streamData, setStreamData] = useState<any | null>(null);
+    const [streamData, setStreamData] = useState<StreamData | null>(null);
     
     // UI State
     const [activeView, setActiveView] = useState<'none' | 'player' | 'download'>('none');
     
     const playerContainerRef = useRef<HTMLDivElement>(null);
     const progressInterval = useRef<any>(null);
+    // ストリーミング再生中の <video> (字幕トラックの追加先)
+    const [streamVideo, setStreamVideo] = useState<HTMLVideoElement | null>(null);
+    const { tracks: captionTracks, selectedTrack: selectedCaption, selectTrack: selectCaption } = useCaptions(videoId, streamVideo);
 
     const extractYouTubeVideoId = (url: string) => {
         const match = url.match(/(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/(?:watch\?v=|shorts\/)|youtu\.be\/)([A-Za-z0-9_-]{11})/);
@@ -42,17 +49,6 @@ const LiteModePage: React.FC = () => {
         setProgress(100);
     };
 
-    const fetchKey = async () => {
-        try {
-            const response = await fetch('https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json');
-            if (!response.ok) throw new Error('キー取得に失敗しました');
-            const jsonData = await response.json();
-            return jsonData.params ? jsonData.params.trim() : '?autoplay=1';
-        } catch (e) {
-            console.error("Failed to fetch key", e);
-            return '?autoplay=1';
-        }
-    };
 
     const handleAction = async (actionType: 'embed' | 'stream' | 'download') => {
         const vId = extractYouTubeVideoId(urlInput);
@@ -68,6 +64,7 @@ const LiteModePage: React.FC = () => {
         }
 
         setError(null);
+        setStreamVideo(null);
         setIsLoading(true);
         setLoadingAction(actionType);
         startFakeProgress();
@@ -75,7 +72,7 @@ const LiteModePage: React.FC = () => {
         try {
             if (actionType === 'embed') {
                 setActiveView('player');
-                const key = await fetchKey();
+                const key = await getPlayerConfig();
                 const fixedKey = key.replace(/\?autoplay=0/, '?autoplay=1');
                 const embedUrl = `https://www.youtubeeducation.com/embed/${vId}${fixedKey}`;
                 
@@ -85,19 +82,18 @@ const LiteModePage: React.FC = () => {
             } else {
                 let data = streamData;
                 if (!data || vId !== videoId) {
-                    // Fetch from the proxy endpoint that returns the detailed JSON
-                    const response = await fetch(`/api/stream/${vId}`);
-                    if (!response.ok) {
-                        throw new Error(`ストリーム情報の取得に失敗しました。 (${response.status})`);
+                    try {
+                        data = await getStreamData(vId);
+                    } catch (e: any) {
+                        throw new Error(`ストリーム情報の取得に失敗しました。 (${e.message})`);
                     }
-                    data = await response.json();
                     setStreamData(data);
                 }
 
                 if (actionType === 'stream') {
                     setActiveView('player');
                     // Small delay to ensure DOM update
-                    setTimeout(() => createStreamPlayer(data, playerContainerRef.current), 0);
+                    setTimeout(() => createStreamPlayer(vId, data, playerContainerRef.current), 0);
                 } else if (actionType === 'download') {
                     setActiveView('download');
                 }
@@ -115,11 +111,11 @@ const LiteModePage: React.FC = () => {
         }
     };
 
-    const createStreamPlayer = (data: any, container: HTMLDivElement | null) => {
+    const createStreamPlayer = (vId: string, data: StreamData, container: HTMLDivElement | null) => {
         if (!container) return;
         
-        // Prioritize 360p video URL
-        const url = data.videourl?.['360p']?.video?.url;
+        // Prioritize 360p video URL, played through the server relay
+        const url = getMediaRelayUrl(vId, getPreferredCombinedFormat(data));
         
         if (!url) {
             setError('ストリーミング可能な動画ソース(360p)が見つかりませんでした。');
@@ -139,6 +135,7 @@ const LiteModePage: React.FC = () => {
         video.setAttribute('playsinline', '');
         
         container.appendChild(video);
+        setStreamVideo(video);
         
         video.play().catch(e => console.warn("Autoplay prevented:", e));
     };
@@ -167,7 +164,7 @@ const LiteModePage: React.FC = () => {
                     />
                     <div className="flex gap-2">
                         <button onClick={handlePaste} className="bg-[#e0e3eb] border-none rounded-[8px] px-4 py-2 text-[1.1rem] cursor-pointer text-[#555] hover:bg-[#ccc] hover:text-black min-w-[80px]">Paste</button>
-                        <button onClick={() => { setUrlInput(''); setActiveView('none'); setError(null); }} className="bg-[#e0e3eb] border-none rounded-[8px] px-4 py-2 text-[1.1rem] cursor-pointer text-[#555] hover:bg-[#ccc] hover:text-black">×</button>
+                        <button onClick={() => { setUrlInput(''); setActiveView('none'); setError(null); setStreamVideo(null); }} className="bg-[#e0e3eb] border-none rounded-[8px] px-4 py-2 text-[1.1rem] cursor-pointer text-[#555] hover:bg-[#ccc] hover:text-black">×</button>
                     </div>
                 </div>
 
@@ -202,6 +199,16 @@ const LiteModePage: React.FC = () => {
                     ref={playerContainerRef} 
                     className={`mt-6 w-full ${activeView === 'player' ? 'block' : 'hidden'}`}
                 ></div>
+                {activeView === 'player' && streamVideo && (
+                    <div className="mt-3 flex justify-end">
+                        <CaptionPicker
+                            tracks={captionTracks}
+                            selectedTrack={selectedCaption}
+                            onSelect={selectCaption}
+                            className="bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] px-3 py-2 text-sm text-[#333] outline-none"
+                        />
+                    </div>
+                )}
 
                 {/* Download Links */}
                 {activeView === 'download' && streamData && (
@@ -209,23 +216,18 @@ const LiteModePage: React.FC = () => {
                         <h3 className="text-center text-[#3c3e4e] text-xl font-bold mb-4">Download Links</h3>
                         <div className="flex flex-col gap-2 max-h-[300px] overflow-y-auto">
                             {/* Video Links */}
-                            {['1080p', '720p', '480p', '360p', '240p'].map(quality => {
-                                const url = streamData.videourl?.[quality]?.video?.url;
-                                if (!url) return null;
-                                const label = quality === '360p' ? `${quality} (音声あり)` : `${quality} (音声なし)`;
-                                return (
-                                    <a key={quality} href={url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
-                                        Download Video {label} (MP4)
-                                    </a>
-                                );
-                            })}
+                            {streamData.combinedFormats.map(format => (
+                                <a key={format.itag ?? format.url} href={format.url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
+                                    Download Video {format.quality} (音声あり) ({format.container.toUpperCase()})
+                                </a>
+                            ))}
                             
                             {/* Audio Link */}
-                            {streamData.videourl?.['144p']?.audio?.url && (
+                            {streamData.audioOnlyFormat && (
                                 <>
                                     <h4 className="mt-4 font-bold text-[#333]">オーディオ (音声のみ)</h4>
-                                    <a href={streamData.videourl['144p'].audio.url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
-                                        Download Audio (M4A)
+                                    <a href={streamData.audioOnlyFormat.url} target="_blank" rel="noreferrer" className="block bg-[#f7f8fa] border-[1.5px] border-[#e0e3eb] rounded-[8px] p-3 text-[#333] font-medium hover:bg-[#e9ecf0] transition-colors break-all">
+                                        Download Audio ({streamData.audioOnlyFormat.container.toUpperCase()})
                                     </a>
                                 </>
                             )}
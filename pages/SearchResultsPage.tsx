@@ -1,18 +1,22 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 // FIX: Use named import for useSearchParams from react-router-dom
 import { useSearchParams } from 'react-router-dom';
 import { searchVideos, parseDuration } from '../utils/api';
-import type { Video, Channel, ApiPlaylist } from '../types';
+import type { Video, Channel, ApiPlaylist, SearchFilters } from '../types';
 import SearchVideoResultCard from '../components/SearchVideoResultCard';
 import SearchChannelResultCard from '../components/SearchChannelResultCard';
 import SearchPlaylistResultCard from '../components/SearchPlaylistResultCard';
 import ShortsShelf from '../components/ShortsShelf';
+import SearchFilterBar, { readSearchFilters, writeSearchFilters } from '../components/SearchFilterBar';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { usePreference } from '../contexts/PreferenceContext';
 
 const SearchResultsPage: React.FC = () => {
-    const [searchParams] = useSearchParams();
+    const [searchParams, setSearchParams] = useSearchParams();
     const query = searchParams.get('search_query');
+    // searchParams は遷移のたびに別オブジェクトになるため、中身が同じなら同じ filters を使い回して再検索を防ぐ
+    const filterKey = JSON.stringify(readSearchFilters(searchParams));
+    const filters = useMemo<SearchFilters>(() => JSON.parse(filterKey), [filterKey]);
     const { ngKeywords, ngChannels } = usePreference();
     
     const [videos, setVideos] = useState<Video[]>([]);
@@ -51,10 +55,10 @@ const SearchResultsPage: React.FC = () => {
         return true;
     }, [ngChannels, ngKeywords]);
 
-    const performSearch = useCallback(async (searchQuery: string, pageToken: string = '1') => {
+    const performSearch = useCallback(async (searchQuery: string, searchFilters: SearchFilters, pageToken?: string) => {
         if (!searchQuery) return;
         
-        if (pageToken === '1') {
+        if (!pageToken) {
             setError(null);
             setIsLoading(true);
         } else {
@@ -62,7 +66,7 @@ const SearchResultsPage: React.FC = () => {
         }
         
         try {
-            const results = await searchVideos(searchQuery, pageToken);
+            const results = await searchVideos(searchQuery, pageToken, undefined, searchFilters);
             
             const separatedShorts: Video[] = [];
             const separatedVideos: Video[] = [];
@@ -80,7 +84,7 @@ const SearchResultsPage: React.FC = () => {
             const filteredChannels = results.channels.filter(isContentAllowed);
             const filteredPlaylists = results.playlists.filter(isContentAllowed);
 
-            if (pageToken === '1') {
+            if (!pageToken) {
                 setVideos(filteredVideos);
                 setShorts(filteredShorts);
                 setChannels(filteredChannels);
@@ -104,20 +108,33 @@ const SearchResultsPage: React.FC = () => {
         setChannels([]);
         setPlaylists([]);
         setNextPageToken(undefined);
-        if (query) performSearch(query, '1');
+        if (query) performSearch(query, filters);
         else setIsLoading(false);
-    }, [query, performSearch]);
+    }, [query, filters, performSearch]);
 
     const handleLoadMore = () => {
         if (query && nextPageToken && !isFetchingMore) {
-            performSearch(query, nextPageToken);
+            performSearch(query, filters, nextPageToken);
         }
     };
 
     const lastElementRef = useInfiniteScroll(handleLoadMore, !!nextPageToken, isFetchingMore || isLoading);
 
+    const handleFiltersChange = (nextFilters: SearchFilters) => {
+        setSearchParams(writeSearchFilters(searchParams, nextFilters));
+    };
+
+    // 結果が 0 件でも条件を変えられるよう、フィルターは常に表示する
+    const filterBar = query ? (
+        <div className="max-w-6xl mx-auto px-2 sm:px-4 pt-4">
+            <SearchFilterBar filters={filters} onChange={handleFiltersChange} />
+        </div>
+    ) : null;
+
     if (isLoading) {
         return (
+            <>
+             {filterBar}
              <div className="flex flex-col space-y-6 max-w-6xl mx-auto p-4">
                 {Array.from({ length: 5 }).map((_, index) => (
                    <div key={index} className="flex flex-col sm:flex-row gap-4 animate-pulse">
@@ -130,19 +147,22 @@ const SearchResultsPage: React.FC = () => {
                    </div>
                 ))}
             </div>
+            </>
         );
     }
     
     if (error && videos.length === 0) {
-        return <div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div>;
+        return <>{filterBar}<div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div></>;
     }
 
     if (videos.length === 0 && channels.length === 0 && playlists.length === 0 && shorts.length === 0 && query) {
-        return <div className="text-center mt-10">「{query}」の検索結果はありません。<br/><span className="text-xs text-yt-light-gray">※NG設定により非表示になっている可能性があります</span></div>
+        return <>{filterBar}<div className="text-center mt-10">「{query}」の検索結果はありません。<br/><span className="text-xs text-yt-light-gray">※NG設定やフィルタにより非表示になっている可能性があります</span></div></>
     }
 
     return (
-        <div className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+        <>
+        {filterBar}
+        <div className="max-w-6xl mx-auto px-2 sm:px-4 pb-4">
             {channels.length > 0 && (
                 <div className="mb-6 space-y-4">
                     {channels.map(channel => (
@@ -184,6 +204,7 @@ const SearchResultsPage: React.FC = () => {
                 </div>
             )}
         </div>
+        </>
     );
 };
 
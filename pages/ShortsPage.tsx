@@ -5,15 +5,17 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import ShortsPlayer from '../components/ShortsPlayer';
-import { getPlayerConfig, getComments, parseDuration, getChannelShorts, getVideoDetails } from '../utils/api';
+import { getPlayerConfig, parseDuration, getChannelShorts, getVideoDetails } from '../utils/api';
 import { getXraiShorts } from '../utils/recommendation';
-import type { Video, Comment } from '../types';
+import type { Video } from '../types';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import { LikeIcon, CommentIcon, CloseIcon, BlockIcon, TrashIcon } from '../components/icons/Icons';
-import CommentComponent from '../components/Comment';
+import CommentList from '../components/CommentList';
+import CommentSortToggle from '../components/CommentSortToggle';
+import { useComments } from '../hooks/useComments';
 import { useTheme } from '../hooks/useTheme';
 
 // Re-created Chevron Icons - Increased size (approx 1.7x) and bolder design
@@ -45,8 +47,6 @@ const ShortsPage: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [playerParams, setPlayerParams] = useState<string | null>(null);
     const [showComments, setShowComments] = useState(false);
-    const [comments, setComments] = useState<Comment[]>([]);
-    const [areCommentsLoading, setAreCommentsLoading] = useState(false);
 
     const { theme } = useTheme();
     const { subscribedChannels } = useSubscription();
@@ -259,11 +259,12 @@ const ShortsPage: React.FC = () => {
         }
     }, [currentIndex, videos]);
     
-    // Reset comments when index changes
+    // Close the comment drawer when index changes
     useEffect(() => {
         setShowComments(false);
-        setComments([]);
     }, [currentIndex]);
+
+    const { comments, countText, sort: commentSort, setSort: setCommentSort, hasMore: hasMoreComments, isLoading: areCommentsLoading, loadMore: loadMoreComments } = useComments(videos[currentIndex]?.id, showComments);
     
     const getParamsForVideo = (index: number, videoId: string) => {
         if (!playerParams) return '';
@@ -284,17 +285,8 @@ const ShortsPage: React.FC = () => {
         return () => clearTimeout(historyTimer);
     }, [currentIndex, videos, addShortToHistory]);
     
-    const handleToggleComments = async () => {
-        const willBeOpen = !showComments;
-        setShowComments(willBeOpen);
-        if (willBeOpen && comments.length === 0 && videos[currentIndex]) {
-            setAreCommentsLoading(true);
-            try {
-                const data = await getComments(videos[currentIndex].id);
-                setComments(data);
-            } catch (e) { console.error("Failed to fetch comments", e); } 
-            finally { setAreCommentsLoading(false); }
-        }
+    const handleToggleComments = () => {
+        setShowComments(prev => !prev);
     };
     
     const handleNotInterested = () => {
@@ -409,16 +401,23 @@ const ShortsPage: React.FC = () => {
                 {showComments && (
                     <div className="absolute inset-0 md:static md:w-[360px] md:h-[85vh] md:max-h-[900px] glass-panel rounded-2xl shadow-2xl flex flex-col animate-scale-in z-20 bg-white/95 dark:bg-black/95 md:bg-transparent">
                          <div className="flex items-center justify-between p-4 border-b border-white/20">
-                             <h3 className="font-bold text-black dark:text-white">コメント {comments.length > 0 && `(${comments.length})`}</h3>
-                             <button onClick={() => setShowComments(false)} className="p-2 hover:bg-white/10 rounded-full"><CloseIcon /></button>
+                             <h3 className="font-bold text-black dark:text-white">コメント {countText ? `(${countText})` : comments.length > 0 && `(${comments.length})`}</h3>
+                             <div className="flex items-center gap-2">
+                                 <CommentSortToggle sort={commentSort} onChange={setCommentSort} />
+                                 <button onClick={() => setShowComments(false)} className="p-2 hover:bg-white/10 rounded-full"><CloseIcon /></button>
+                             </div>
                          </div>
                          <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-                             {areCommentsLoading ? <div className="flex justify-center py-8"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div></div>
-                             : comments.length > 0 ? (
-                                 <div className="space-y-2">
-                                     {comments.map((comment, idx) => ( <div key={idx} className="bg-black/5 dark:bg-white/5 rounded-lg p-2 backdrop-blur-sm"><CommentComponent comment={comment} /></div> ))}
-                                 </div>
-                             ) : <div className="text-center text-yt-light-gray py-10">コメントはありません</div> }
+                             {videos[currentIndex] && (
+                                 <CommentList
+                                     videoId={videos[currentIndex].id}
+                                     comments={comments}
+                                     hasMore={hasMoreComments}
+                                     isLoading={areCommentsLoading}
+                                     onLoadMore={loadMoreComments}
+                                     itemClassName="bg-black/5 dark:bg-white/5 rounded-lg p-2 backdrop-blur-sm"
+                                 />
+                             )}
                          </div>
                     </div>
                 )}
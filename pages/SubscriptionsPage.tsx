@@ -2,10 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 // FIX: Use named import for Link from react-router-dom
 import { Link } from 'react-router-dom';
 import { useSubscription } from '../contexts/SubscriptionContext';
-import { getChannelVideos } from '../utils/api';
+import { getChannelVideos, getChannelFeedUrl, getMergedFeedUrls, MAX_FEED_CHANNELS } from '../utils/api';
 import type { Video } from '../types';
 import VideoGrid from '../components/VideoGrid';
 import VideoCardSkeleton from '../components/icons/VideoCardSkeleton';
+import { RssIcon } from '../components/icons/Icons';
 
 // Parse "1 hour ago", "1 day ago" etc to comparable value
 const parseRelativeTime = (timeStr: string): number => {
@@ -106,13 +107,40 @@ const SubscriptionsPage: React.FC = () => {
         fetchSubscriptionFeed();
     }, [fetchSubscriptionFeed]);
 
+    const feedUrls = subscribedChannels.length === 0 ? []
+        : selectedChannelId === 'all' ? getMergedFeedUrls(subscribedChannels.map(c => c.id)) : [getChannelFeedUrl(selectedChannelId)];
+
     if (error) {
         return <div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div>;
     }
 
     return (
         <div>
-            <h1 className="text-2xl font-bold mb-4">登録チャンネル</h1>
+            <div className="flex items-center justify-between mb-4">
+                <h1 className="text-2xl font-bold">登録チャンネル</h1>
+                {feedUrls.length > 0 && (
+                    // フィードリーダーで購読するための Atom フィード (選択中のチャンネル、または登録チャンネル全体)。
+                    // まとめたフィードは1つに MAX_FEED_CHANNELS 件までなので、それを超える場合は分けて表示する
+                    <div className="flex items-center gap-2">
+                        {feedUrls.length > 1 && (
+                            <span className="text-xs text-yt-light-gray">{MAX_FEED_CHANNELS}チャンネルずつ{feedUrls.length}個のフィードに分けています</span>
+                        )}
+                        {feedUrls.map((url, i) => (
+                            <a
+                                key={url}
+                                href={url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm font-semibold bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]"
+                                title={feedUrls.length > 1 ? `Atom フィード (${i * MAX_FEED_CHANNELS + 1}〜${Math.min((i + 1) * MAX_FEED_CHANNELS, subscribedChannels.length)}件目のチャンネル)` : 'Atom フィード'}
+                            >
+                                <RssIcon />
+                                <span>{feedUrls.length > 1 ? `フィード ${i + 1}` : 'フィード'}</span>
+                            </a>
+                        ))}
+                    </div>
+                )}
+            </div>
 
             {subscribedChannels.length > 0 && (
                 <div className="mb-6 border-b border-yt-spec-light-20 dark:border-yt-spec-20 overflow-hidden">
@@ -2,8 +2,8 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useParams, Link, useSearchParams, useNavigate } from 'react-router-dom';
-import { getVideoDetails, getPlayerConfig, getComments, getVideosByIds, getExternalRelatedVideos, getRawStreamData } from '../utils/api';
-import type { VideoDetails, Video, Comment, Channel } from '../types';
+import { getVideoDetails, getPlayerConfig, getVideosByIds, getExternalRelatedVideos, getStreamData, getPreferredCombinedFormat, getMediaRelayUrl } from '../utils/api';
+import type { VideoDetails, Video, Channel, StreamData } from '../types';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { usePlaylist } from '../contexts/PlaylistContext';
@@ -11,8 +11,20 @@ import { usePreference } from '../contexts/PreferenceContext';
 import VideoPlayerPageSkeleton from '../components/skeletons/VideoPlayerPageSkeleton';
 import PlaylistModal from '../components/PlaylistModal';
 import DownloadModal from '../components/DownloadModal';
-import CommentComponent from '../components/Comment';
+import CommentList from '../components/CommentList';
+import CommentSortToggle from '../components/CommentSortToggle';
 import PlaylistPanel from '../components/PlaylistPanel';
+import DashVideoPlayer from '../components/DashVideoPlayer';
+import { useComments } from '../hooks/useComments';
+import { usePlayerControl } from '../hooks/usePlayerControl';
+import ChapterList from '../components/ChapterList';
+import { useCaptions } from '../hooks/useCaptions';
+import CaptionPicker from '../components/CaptionPicker';
+import TranscriptPanel from '../components/TranscriptPanel';
+import StoryboardSeekBar from '../components/StoryboardSeekBar';
+import SkipSegmentPanel from '../components/SkipSegmentPanel';
+import { useSegmentSkipper } from '../hooks/useSegmentSkipper';
+import { getSkipCategory } from '../utils/sponsorBlock';
 import RelatedVideoCard from '../components/RelatedVideoCard';
 import { LikeIcon, SaveIcon, MoreIconHorizontal, DownloadIcon, DislikeIcon, ChevronRightIcon } from '../components/icons/Icons';
 
@@ -23,7 +35,6 @@ const VideoPlayerPage: React.FC = () => {
     const playlistId = searchParams.get('list');
 
     const [videoDetails, setVideoDetails] = useState<VideoDetails | null>(null);
-    const [comments, setComments] = useState<Comment[]>([]);
     const [relatedVideos, setRelatedVideos] = useState<Video[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -45,9 +56,15 @@ const VideoPlayerPage: React.FC = () => {
 
     // Streaming State
     const { defaultPlayerMode, setDefaultPlayerMode } = usePreference();
-    const [streamData, setStreamData] = useState<any>(null);
+    const [streamData, setStreamData] = useState<StreamData | null>(null);
     const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
+    const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+    const [isSkipPanelOpen, setIsSkipPanelOpen] = useState(false);
     const [isStreamDataLoading, setIsStreamDataLoading] = useState(false);
+    const { iframeRef, videoRef, videoElement, currentTime, seekTo, handleIframeLoad } = usePlayerControl(videoId);
+    const { segments: skipSegments, manualSegment, skippedNotice, skip: skipSegment, undoSkip } = useSegmentSkipper(videoId, currentTime, seekTo);
+    const { tracks: captionTracks, selectedTrack: selectedCaption, selectTrack: selectCaption } = useCaptions(videoId, videoElement);
+    const { comments, countText, sort: commentSort, setSort: setCommentSort, hasMore: hasMoreComments, isLoading: areCommentsLoading, loadMore: loadMoreComments } = useComments(videoId);
 
     const { isSubscribed, subscribe, unsubscribe } = useSubscription();
     const { addVideoToHistory } = useHistory();
@@ -149,7 +166,7 @@ const VideoPlayerPage: React.FC = () => {
         if (streamData || !videoId || isStreamDataLoading) return;
         setIsStreamDataLoading(true);
         try {
-            const data = await getRawStreamData(videoId);
+            const data = await getStreamData(videoId);
             setStreamData(data);
         } catch (e) {
             console.error("Failed to fetch stream data", e);
@@ -174,7 +191,6 @@ const VideoPlayerPage: React.FC = () => {
                 setIsLoading(true);
                 setError(null);
                 setVideoDetails(null);
-                setComments([]);
                 setRelatedVideos([]);
                 setStreamData(null); // Reset stream data on video change
                 // Note: defaultPlayerMode persists, so we don't reset it here
@@ -203,18 +219,7 @@ const VideoPlayerPage: React.FC = () => {
                     }
                 });
 
-            // 2. Comments (Background)
-            getComments(videoId)
-                .then(commentsData => {
-                    if (isMounted) {
-                        setComments(commentsData);
-                    }
-                })
-                .catch(err => {
-                    console.warn("Failed to fetch comments", err);
-                });
-
-            // 3. External Related Videos (Background)
+            // 2. External Related Videos (Background)
             getExternalRelatedVideos(videoId)
                 .then(externalRelated => {
                     if (isMounted && externalRelated && externalRelated.length > 0) {
@@ -321,10 +326,9 @@ const VideoPlayerPage: React.FC = () => {
 
     // Get 360p MP4 URL for Stream mode
     const getStreamUrl = useMemo(() => {
-        if (!streamData?.videourl) return null;
-        // Prioritize 360p as requested
-        return streamData.videourl['360p']?.video?.url || null;
-    }, [streamData]);
+        if (!videoId) return null;
+        return getMediaRelayUrl(videoId, getPreferredCombinedFormat(streamData));
+    }, [videoId, streamData]);
 
     const updateUrlParams = (key: string, value: string | null) => {
         const newSearchParams = new URLSearchParams(searchParams);
@@ -407,6 +411,8 @@ const VideoPlayerPage: React.FC = () => {
       channelAvatarUrl: mainChannel.avatarUrl,
     };
 
+    const commentCountLabel = `${countText ?? comments.length.toLocaleString()}件のコメント`;
+
     const hasCollaborators = videoDetails.collaborators && videoDetails.collaborators.length > 1;
     const collaboratorsList = videoDetails.collaborators || [];
 
@@ -419,6 +425,8 @@ const VideoPlayerPage: React.FC = () => {
                     {defaultPlayerMode === 'player' ? (
                         playerParams && videoId && (
                             <iframe
+                                ref={iframeRef}
+                                onLoad={handleIframeLoad}
                                 src={iframeSrc}
                                 key={iframeSrc}
                                 title={videoDetails.title}
@@ -429,9 +437,12 @@ const VideoPlayerPage: React.FC = () => {
                             ></iframe>
                         )
                     ) : (
-                        getStreamUrl ? (
+                        streamData?.dashManifestUrl ? (
+                            <DashVideoPlayer ref={videoRef} src={streamData.dashManifestUrl} />
+                        ) : getStreamUrl ? (
                             // Standard HTML5 Video for 360p MP4 Playback
                             <video 
+                                ref={videoRef}
                                 src={getStreamUrl} 
                                 controls 
                                 autoPlay 
@@ -457,7 +468,29 @@ const VideoPlayerPage: React.FC = () => {
                             </div>
                         )
                     )}
+
+                    {/* スキップ区間: 手動スキップのボタンと自動スキップの通知 */}
+                    {manualSegment && (
+                        <button
+                            onClick={() => skipSegment(manualSegment)}
+                            className="absolute right-4 bottom-16 z-10 flex items-center gap-2 px-4 py-2 rounded-lg bg-black/80 text-white text-sm font-semibold hover:bg-black"
+                        >
+                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: getSkipCategory(manualSegment.category).color }} />
+                            スキップ: {getSkipCategory(manualSegment.category).label}
+                        </button>
+                    )}
+                    {skippedNotice && (
+                        <div className="absolute left-4 bottom-16 z-10 flex items-center gap-3 px-4 py-2 rounded-lg bg-black/80 text-white text-sm">
+                            <span>{getSkipCategory(skippedNotice.category).label}をスキップしました</span>
+                            <button onClick={undoSkip} className="font-semibold text-yt-blue hover:underline">元に戻す</button>
+                        </div>
+                    )}
                 </div>
+                {defaultPlayerMode === 'stream' && videoElement && (
+                    <div className="relative z-20">
+                        <StoryboardSeekBar videoId={videoDetails.id} videoElement={videoElement} />
+                    </div>
+                )}
 
                 <div className="">
                     {/* Title & Mode Switch */}
@@ -466,8 +499,13 @@ const VideoPlayerPage: React.FC = () => {
                             {videoDetails.title}
                         </h1>
                         
+                        <div className="flex items-center gap-2 flex-shrink-0 self-start">
+                        {defaultPlayerMode === 'stream' && (
+                            <CaptionPicker tracks={captionTracks} selectedTrack={selectedCaption} onSelect={selectCaption} />
+                        )}
+
                         {/* Player Mode Switch */}
-                        <div className="flex bg-yt-light dark:bg-yt-light-black rounded-lg p-1 flex-shrink-0 self-start">
+                        <div className="flex bg-yt-light dark:bg-yt-light-black rounded-lg p-1 flex-shrink-0">
                             <button 
                                 className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${defaultPlayerMode === 'player' ? 'bg-white dark:bg-yt-spec-20 text-black dark:text-white shadow-sm' : 'text-yt-light-gray hover:text-black dark:hover:text-white'}`}
                                 onClick={() => setDefaultPlayerMode('player')}
@@ -481,6 +519,7 @@ const VideoPlayerPage: React.FC = () => {
                                 Stream
                             </button>
                         </div>
+                        </div>
                     </div>
 
                     {/* Actions Bar Container - UPDATED for wrapping behavior */}
@@ -581,6 +620,20 @@ const VideoPlayerPage: React.FC = () => {
                                 <SaveIcon />
                             </button>
 
+                            <button 
+                                onClick={() => setIsTranscriptOpen(prev => !prev)} 
+                                className={`flex items-center justify-center rounded-full h-9 px-4 text-sm font-semibold transition-colors flex-shrink-0 whitespace-nowrap ${isTranscriptOpen ? 'bg-black dark:bg-white text-white dark:text-black' : 'bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]'}`}
+                            >
+                                文字起こし
+                            </button>
+
+                            <button 
+                                onClick={() => setIsSkipPanelOpen(prev => !prev)} 
+                                className={`flex items-center justify-center rounded-full h-9 px-4 text-sm font-semibold transition-colors flex-shrink-0 whitespace-nowrap ${isSkipPanelOpen ? 'bg-black dark:bg-white text-white dark:text-black' : 'bg-yt-light dark:bg-[#272727] hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]'}`}
+                            >
+                                スキップ区間{skipSegments.length > 0 ? ` (${skipSegments.length})` : ''}
+                            </button>
+
                             <button className="flex items-center justify-center bg-yt-light dark:bg-[#272727] rounded-full w-9 h-9 hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0"
                             >
                                 <MoreIconHorizontal />
@@ -588,6 +641,8 @@ const VideoPlayerPage: React.FC = () => {
                         </div>
                     </div>
 
+                    <ChapterList chapters={videoDetails.chapters} currentTime={currentTime} onSeek={seekTo} />
+
                     {/* Description Box */}
                     <div className={`mt-4 bg-yt-spec-light-10 dark:bg-yt-dark-gray p-3 rounded-xl text-sm cursor-pointer hover:bg-yt-spec-light-20 dark:hover:bg-yt-gray transition-colors ${isDescriptionExpanded ? '' : 'h-24 overflow-hidden relative'}`} onClick={() => setIsDescriptionExpanded(prev => !prev)}>
                         <div className="font-bold mb-2 text-black dark:text-white">
@@ -610,25 +665,24 @@ const VideoPlayerPage: React.FC = () => {
                     <div className="mt-6 hidden lg:block">
                         <div className="flex flex-col mb-6">
                             <div className="flex items-center justify-between">
-                                <h2 className="text-xl font-bold">{comments.length.toLocaleString()}件のコメント</h2>
+                                <h2 className="text-xl font-bold">{commentCountLabel}</h2>
+                                <CommentSortToggle sort={commentSort} onChange={setCommentSort} />
                             </div>
                         </div>
 
-                        {comments.length > 0 ? (
-                            <div className="space-y-4">
-                                {comments.map(comment => (
-                                    <CommentComponent key={comment.comment_id} comment={comment} />
-                                ))}
-                            </div>
-                        ) : (
-                             <div className="py-4 text-yt-light-gray">コメントの読み込み中、またはコメントがありません。</div>
-                        )}
+                        <CommentList videoId={videoDetails.id} comments={comments} hasMore={hasMoreComments} isLoading={areCommentsLoading} onLoadMore={loadMoreComments} />
                     </div>
                 </div>
             </div>
             
             {/* Sidebar: Playlist & Related Videos */}
             <div className="w-full lg:w-[350px] xl:w-[400px] flex-shrink-0 flex flex-col gap-4 pb-10">
+                {isTranscriptOpen && (
+                    <TranscriptPanel videoId={videoDetails.id} title={videoDetails.title} currentTime={currentTime} onSeek={seekTo} onClose={() => setIsTranscriptOpen(false)} />
+                )}
+                {isSkipPanelOpen && (
+                    <SkipSegmentPanel videoId={videoDetails.id} segments={skipSegments} currentTime={currentTime} onSeek={seekTo} onClose={() => setIsSkipPanelOpen(false)} />
+                )}
                 {currentPlaylist && (
                      <PlaylistPanel playlist={currentPlaylist} authorName={currentPlaylist.authorName} videos={isShuffle ? shuffledVideos : playlistVideos} currentVideoId={videoId} isShuffle={isShuffle} isLoop={isLoop} toggleShuffle={toggleShuffle} toggleLoop={toggleLoop} onReorder={handlePlaylistReorder} />
                 )}
@@ -653,12 +707,11 @@ const VideoPlayerPage: React.FC = () => {
 
                 {/* Mobile Comments Fallback */}
                 <div className="block lg:hidden mt-8 border-t border-yt-spec-light-20 dark:border-yt-spec-20 pt-4">
-                    <h2 className="text-lg font-bold mb-4">{comments.length.toLocaleString()}件のコメント</h2>
-                    <div className="space-y-4">
-                        {comments.map(comment => (
-                            <CommentComponent key={comment.comment_id} comment={comment} />
-                        ))}
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-bold">{commentCountLabel}</h2>
+                        <CommentSortToggle sort={commentSort} onChange={setCommentSort} />
                     </div>
+                    <CommentList videoId={videoDetails.id} comments={comments} hasMore={hasMoreComments} isLoading={areCommentsLoading} onLoadMore={loadMoreComments} />
                 </div>
             </div>
             
@@ -670,6 +723,7 @@ const VideoPlayerPage: React.FC = () => {
             <DownloadModal 
                 isOpen={isDownloadModalOpen} 
                 onClose={() => setIsDownloadModalOpen(false)} 
+                videoId={videoDetails.id}
                 streamData={streamData}
                 isLoading={isStreamDataLoading}
                 onRetry={fetchStreamDataIfNeeded}
@@ -0,0 +1,158 @@
+// utils/apiContract.js の定義から /api/v2 の型付きクライアント (utils/apiClient.generated.ts) を生成する。
+// 使い方: npm run generate:api-client (--check を付けると、生成結果とファイルが一致しない場合に失敗する)
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { schemas, endpoints } from "../utils/apiContract.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, '..');
+const OUTPUT = path.join(ROOT, 'utils/apiClient.generated.ts');
+const TYPES_FILE = path.join(ROOT, 'types.ts');
+
+const dtoName = (name) => `${name}Dto`;
+const capitalize = (value) => value.charAt(0).toUpperCase() + value.slice(1);
+const indent = (text, depth) => text.split('\n').map(line => `${'  '.repeat(depth)}${line}`).join('\n');
+
+const toTsType = (schema, depth = 0) => {
+  switch (schema.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return schema.kind;
+    case 'enum':
+      return schema.values.map(value => JSON.stringify(value)).join(' | ');
+    case 'array': {
+      const item = toTsType(schema.item, depth);
+      return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      return `{\n${objectMembers(schema, depth + 1)}\n${'  '.repeat(depth)}}`;
+    case 'optional':
+      return toTsType(schema.schema, depth);
+    case 'nullable':
+      return `${toTsType(schema.schema, depth)} | null`;
+    case 'ref':
+      return dtoName(schema.name);
+    default:
+      throw new Error(`Unknown schema kind: ${schema.kind}`);
+  }
+};
+
+const objectMembers = (schema, depth) => Object.entries(schema.shape)
+  .map(([key, field]) => `${'  '.repeat(depth)}${key}${field.kind === 'optional' ? '?' : ''}: ${toTsType(field, depth)};`)
+  .join('\n');
+
+const pathParams = (endpointPath) => [...endpointPath.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+const generate = () => {
+  const typesSource = fs.readFileSync(TYPES_FILE, 'utf8');
+  // types.ts に同名の型があるスキーマだけを整合性チェックの対象にする
+  const sharedTypes = Object.keys(schemas).filter(name => new RegExp(`export (interface|type) ${name}\\b`).test(typesSource));
+
+  const dtos = Object.entries(schemas)
+    .map(([name, schema]) => `export interface ${dtoName(name)} {\n${objectMembers(schema, 1)}\n}`)
+    .join('\n\n');
+
+  const queries = Object.entries(endpoints)
+    .filter(([, endpoint]) => endpoint.query)
+    .map(([name, endpoint]) => `export interface ${capitalize(name)}Query {\n${objectMembers(endpoint.query, 1)}\n}`)
+    .join('\n\n');
+
+  const methods = Object.entries(endpoints).map(([name, endpoint]) => {
+    const params = pathParams(endpoint.path);
+    const queryRequired = endpoint.query && Object.values(endpoint.query.shape).some(field => field.kind !== 'optional');
+    const args = [
+      ...params.map(param => `${param}: string`),
+      ...(endpoint.query ? [`query: ${capitalize(name)}Query${queryRequired ? '' : ' = {}'}`] : []),
+      'init?: RequestInit',
+    ];
+    const urlPath = endpoint.path.replace(/:(\w+)/g, (_, param) => `\${encodeURIComponent(${param})}`);
+    return indent([
+      `${name}: (${args.join(', ')}): Promise<${dtoName(endpoint.response)}> =>`,
+      `  request('${endpoint.response}', \`${urlPath}\`, ${endpoint.query ? 'query' : 'undefined'}, init),`,
+    ].join('\n'), 1);
+  }).join('\n');
+
+  const checks = sharedTypes
+    .map(name => `  AssertTrue<Compatible<${dtoName(name)}, ${name}>>,`)
+    .join('\n');
+
+  return `// このファイルは scripts/generate-api-client.js が utils/apiContract.js から生成したものです。
+// 直接編集せず、契約を変更したら npm run generate:api-client で作り直してください。
+import type { ${sharedTypes.join(', ')} } from '../types';
+import { assertValid } from './apiContract.js';
+
+// --- DTOs ---
+
+${dtos}
+
+// --- Query parameters ---
+
+${queries}
+
+// --- types.ts との整合性 (形がずれると型チェックで失敗する) ---
+
+type Compatible<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type AssertTrue<T extends true> = T;
+
+export type ContractTypeChecks = [
+${checks}
+];
+
+// --- Client ---
+
+export class ApiV2Error extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiV2Error';
+    this.status = status;
+  }
+}
+
+const toSearchParams = (query: object | undefined) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search ? \`?\${search}\` : '';
+};
+
+// レスポンスはサーバーでも検証済みだが、サーバーとクライアントの版がずれた場合に備えてここでも検証する
+const request = async <T>(schemaName: string, path: string, query: object | undefined, init?: RequestInit): Promise<T> => {
+  const response = await fetch(\`/api/v2\${path}\${toSearchParams(query)}\`, init);
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ApiV2Error(response.status, \`Server returned a non-JSON response for \${path}\`);
+  }
+  if (!response.ok) throw new ApiV2Error(response.status, data?.error || \`Request failed for \${path} with status \${response.status}\`);
+  return assertValid(schemaName, data) as T;
+};
+
+export const apiV2 = {
+${methods}
+};
+`;
+};
+
+const output = generate();
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf8') : '';
+  if (current !== output) {
+    console.error(`${path.relative(ROOT, OUTPUT)} is out of date. Run npm run generate:api-client.`);
+    process.exit(1);
+  }
+} else {
+  fs.writeFileSync(OUTPUT, output);
+  console.log(`Wrote ${path.relative(ROOT, OUTPUT)}`);
+}
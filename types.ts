@@ -28,12 +28,57 @@ export interface Channel {
   badges?: ChannelBadge[];
 }
 
+export interface CaptionTrack {
+  languageCode: string;
+  name: string;
+  // asr = 自動生成字幕
+  kind: 'standard' | 'asr';
+  url: string;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  source: 'captions' | 'youtubei';
+  languageCode: string | null;
+  kind: CaptionTrack['kind'] | null;
+  segments: TranscriptSegment[];
+}
+
+export interface StoryboardLevel {
+  width: number;
+  height: number;
+  count: number;
+  columns: number;
+  rows: number;
+  framesPerSheet: number;
+  intervalMs: number;
+  // サムネイルプロキシ経由のスプライトシート URL (シート番号順)
+  sheets: string[];
+}
+
+export interface Storyboard {
+  duration: number;
+  levels: StoryboardLevel[];
+}
+
+export interface VideoChapter {
+  title: string;
+  startSeconds: number;
+  thumbnailUrl?: string;
+}
+
 export interface VideoDetails extends Video {
   description: string;
   likes: string;
   dislikes: string;
   channel: Channel;
   relatedVideos: Video[];
+  chapters: VideoChapter[];
 }
 
 export interface ChannelDetails {
@@ -73,6 +118,37 @@ export interface Playlist {
   authorId?: string;
 }
 
+// 視聴履歴の1件。watchedAt は視聴日時 (ISO 8601)。以前の履歴やインポート元に日時が無い場合は省略される
+export interface HistoryEntry extends Video {
+  watchedAt?: string;
+}
+
+// 他のサービスから取り込むデータ。インポート元の形式ごとに読み込み、このまとまりで各コンテキストに反映する
+export interface ImportedPlaylist {
+  name: string;
+  videoIds: string[];
+  createdAt?: string;
+}
+
+export interface ImportBundle {
+  subscriptions: Channel[];
+  history: HistoryEntry[];
+  playlists: ImportedPlaylist[];
+}
+
+// SponsorBlock と同じカテゴリ ID を使う
+export type SkipCategory = 'sponsor' | 'intro' | 'outro' | 'selfpromo' | 'music_offtopic';
+export type SkipMode = 'auto' | 'manual' | 'off';
+
+export interface SkipSegment {
+  id: string;
+  videoId: string;
+  category: SkipCategory;
+  start: number;
+  end: number;
+  createdAt: string;
+}
+
 export interface Notification {
   id: string;
   channel: {
@@ -103,6 +179,30 @@ export interface Comment {
   like_count: string;
   reply_count: string;
   is_pinned: boolean;
+  replies_token?: string | null; // 返信スレッド取得用 (/api/comments/:videoId/replies)
+}
+
+export type CommentSort = 'top' | 'newest';
+
+export interface CommentsPage {
+  comments: Comment[];
+  countText?: string | null;
+  nextPageToken?: string;
+}
+
+export type SearchUploadDate = 'all' | 'hour' | 'today' | 'week' | 'month' | 'year';
+export type SearchType = 'all' | 'video' | 'channel' | 'playlist' | 'movie';
+export type SearchDuration = 'all' | 'short' | 'medium' | 'long';
+export type SearchSortBy = 'relevance' | 'rating' | 'upload_date' | 'view_count';
+export type SearchFeature = 'hd' | 'subtitles' | 'creative_commons' | '3d' | 'live' | 'purchased' | '4k' | '360' | 'location' | 'hdr' | 'vr180';
+
+// 省略した項目はサーバー側で既定値 (all / relevance) として扱われる
+export interface SearchFilters {
+    upload_date?: SearchUploadDate;
+    type?: SearchType;
+    duration?: SearchDuration;
+    sort_by?: SearchSortBy;
+    features?: SearchFeature[];
 }
 
 export interface SearchResults {
@@ -146,15 +246,36 @@ export interface StreamFormat {
     quality: string;
     container: string;
     url: string;
+    itag?: number;
+    mimeType?: string;
+    bitrate?: number;
+    width?: number;
+    height?: number;
+    fps?: number;
+    hasVideo?: boolean;
+    hasAudio?: boolean;
+    audioLanguage?: string | null;
+    audioTrackName?: string | null;
+    isOriginalAudio?: boolean;
+    contentLength?: number;
+    initRange?: { start: number; end: number } | null;
+    indexRange?: { start: number; end: number } | null;
+    approxDurationMs?: number;
 }
 
 export interface StreamData {
+    source: 'native' | 'fallback';
+    provider?: string; // 実際に応答した上流プロバイダー名
+    title?: string | null;
     streamingUrl: string | null;
     streamType: string;
-    combinedFormats: StreamFormat[];
+    combinedFormats: StreamFormat[]; // 映像+音声 (muxed)
+    adaptiveFormats: StreamFormat[]; // 映像のみ / 音声のみ
     audioOnlyFormat: StreamFormat | null;
     separate1080p: {
         video: StreamFormat;
         audio: StreamFormat | null;
     } | null;
-}
\ No newline at end of file
+    expiresAt?: number;
+    dashManifestUrl?: string | null; // アダプティブ再生用 MPD (/api/dash/:videoId)
+}
@@ -0,0 +1,244 @@
+// このファイルは scripts/generate-api-client.js が utils/apiContract.js から生成したものです。
+// 直接編集せず、契約を変更したら npm run generate:api-client で作り直してください。
+import type { ChannelBadge, Channel, Video, VideoChapter, VideoDetails, ChannelDetails, ApiPlaylist, PlaylistDetails, SearchResults, CommentAuthor, Comment, CommentsPage } from '../types';
+import { assertValid } from './apiContract.js';
+
+// --- DTOs ---
+
+export interface ChannelBadgeDto {
+  type: string;
+  tooltip: string;
+}
+
+export interface ChannelDto {
+  id: string;
+  name: string;
+  avatarUrl: string;
+  subscriberCount: string;
+  badges?: ChannelBadgeDto[];
+}
+
+export interface VideoDto {
+  id: string;
+  thumbnailUrl: string;
+  duration: string;
+  isoDuration: string;
+  title: string;
+  channelName: string;
+  channelId: string;
+  channelAvatarUrl: string;
+  views: string;
+  uploadedAt: string;
+  descriptionSnippet?: string;
+  collaborators?: ChannelDto[];
+}
+
+export interface VideoChapterDto {
+  title: string;
+  startSeconds: number;
+  thumbnailUrl?: string;
+}
+
+export interface VideoDetailsDto {
+  id: string;
+  thumbnailUrl: string;
+  duration: string;
+  isoDuration: string;
+  title: string;
+  channelName: string;
+  channelId: string;
+  channelAvatarUrl: string;
+  views: string;
+  uploadedAt: string;
+  descriptionSnippet?: string;
+  collaborators?: ChannelDto[];
+  description: string;
+  likes: string;
+  dislikes: string;
+  channel: ChannelDto;
+  relatedVideos: VideoDto[];
+  chapters: VideoChapterDto[];
+}
+
+export interface ChannelDetailsDto {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  subscriberCount: string;
+  bannerUrl?: string;
+  description: string;
+  videoCount: number;
+  handle?: string;
+}
+
+export interface ApiPlaylistDto {
+  id: string;
+  title: string;
+  thumbnailUrl?: string;
+  videoCount: number;
+  author?: string;
+  authorId?: string;
+}
+
+export interface PlaylistDetailsDto {
+  title: string;
+  author: string;
+  authorId: string;
+  description: string;
+  videos: VideoDto[];
+}
+
+export interface SearchResultsDto {
+  videos: VideoDto[];
+  shorts: VideoDto[];
+  channels: ChannelDto[];
+  playlists: ApiPlaylistDto[];
+  nextPageToken?: string;
+}
+
+export interface CommentAuthorDto {
+  id: string;
+  name: string;
+  thumbnails: {
+    url: string;
+  }[];
+}
+
+export interface CommentDto {
+  comment_id: string;
+  text: string;
+  published_time: string;
+  author: CommentAuthorDto;
+  like_count: string;
+  reply_count: string;
+  is_pinned: boolean;
+  replies_token?: string | null;
+}
+
+export interface CommentsPageDto {
+  comments: CommentDto[];
+  countText?: string | null;
+  nextPageToken?: string;
+}
+
+export interface VideoListDto {
+  videos: VideoDto[];
+}
+
+export interface VideoPageDto {
+  videos: VideoDto[];
+  nextPageToken?: string;
+}
+
+export interface PlaylistListDto {
+  playlists: ApiPlaylistDto[];
+}
+
+// --- Query parameters ---
+
+export interface SearchQuery {
+  q: string;
+  continuation?: string;
+  upload_date?: "all" | "hour" | "today" | "week" | "month" | "year";
+  type?: "all" | "video" | "channel" | "playlist" | "movie";
+  duration?: "all" | "short" | "medium" | "long";
+  sort_by?: "relevance" | "rating" | "upload_date" | "view_count";
+  features?: ("hd" | "subtitles" | "creative_commons" | "3d" | "live" | "purchased" | "4k" | "360" | "location" | "hdr" | "vr180")[];
+}
+
+export interface GetCommentsQuery {
+  sort?: "top" | "newest";
+  continuation?: string;
+}
+
+export interface GetCommentRepliesQuery {
+  token: string;
+}
+
+export interface GetChannelVideosQuery {
+  continuation?: string;
+}
+
+// --- types.ts との整合性 (形がずれると型チェックで失敗する) ---
+
+type Compatible<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type AssertTrue<T extends true> = T;
+
+export type ContractTypeChecks = [
+  AssertTrue<Compatible<ChannelBadgeDto, ChannelBadge>>,
+  AssertTrue<Compatible<ChannelDto, Channel>>,
+  AssertTrue<Compatible<VideoDto, Video>>,
+  AssertTrue<Compatible<VideoChapterDto, VideoChapter>>,
+  AssertTrue<Compatible<VideoDetailsDto, VideoDetails>>,
+  AssertTrue<Compatible<ChannelDetailsDto, ChannelDetails>>,
+  AssertTrue<Compatible<ApiPlaylistDto, ApiPlaylist>>,
+  AssertTrue<Compatible<PlaylistDetailsDto, PlaylistDetails>>,
+  AssertTrue<Compatible<SearchResultsDto, SearchResults>>,
+  AssertTrue<Compatible<CommentAuthorDto, CommentAuthor>>,
+  AssertTrue<Compatible<CommentDto, Comment>>,
+  AssertTrue<Compatible<CommentsPageDto, CommentsPage>>,
+];
+
+// --- Client ---
+
+export class ApiV2Error extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiV2Error';
+    this.status = status;
+  }
+}
+
+const toSearchParams = (query: object | undefined) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// レスポンスはサーバーでも検証済みだが、サーバーとクライアントの版がずれた場合に備えてここでも検証する
+const request = async <T>(schemaName: string, path: string, query: object | undefined, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`/api/v2${path}${toSearchParams(query)}`, init);
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ApiV2Error(response.status, `Server returned a non-JSON response for ${path}`);
+  }
+  if (!response.ok) throw new ApiV2Error(response.status, data?.error || `Request failed for ${path} with status ${response.status}`);
+  return assertValid(schemaName, data) as T;
+};
+
+export const apiV2 = {
+  getHomeFeed: (init?: RequestInit): Promise<VideoListDto> =>
+    request('VideoList', `/home`, undefined, init),
+  search: (query: SearchQuery, init?: RequestInit): Promise<SearchResultsDto> =>
+    request('SearchResults', `/search`, query, init),
+  getVideo: (id: string, init?: RequestInit): Promise<VideoDetailsDto> =>
+    request('VideoDetails', `/videos/${encodeURIComponent(id)}`, undefined, init),
+  getRelatedVideos: (id: string, init?: RequestInit): Promise<VideoListDto> =>
+    request('VideoList', `/videos/${encodeURIComponent(id)}/related`, undefined, init),
+  getComments: (id: string, query: GetCommentsQuery = {}, init?: RequestInit): Promise<CommentsPageDto> =>
+    request('CommentsPage', `/videos/${encodeURIComponent(id)}/comments`, query, init),
+  getCommentReplies: (id: string, query: GetCommentRepliesQuery, init?: RequestInit): Promise<CommentsPageDto> =>
+    request('CommentsPage', `/videos/${encodeURIComponent(id)}/comments/replies`, query, init),
+  getChannel: (id: string, init?: RequestInit): Promise<ChannelDetailsDto> =>
+    request('ChannelDetails', `/channels/${encodeURIComponent(id)}`, undefined, init),
+  getChannelVideos: (id: string, query: GetChannelVideosQuery = {}, init?: RequestInit): Promise<VideoPageDto> =>
+    request('VideoPage', `/channels/${encodeURIComponent(id)}/videos`, query, init),
+  getChannelShorts: (id: string, init?: RequestInit): Promise<VideoListDto> =>
+    request('VideoList', `/channels/${encodeURIComponent(id)}/shorts`, undefined, init),
+  getChannelPlaylists: (id: string, init?: RequestInit): Promise<PlaylistListDto> =>
+    request('PlaylistList', `/channels/${encodeURIComponent(id)}/playlists`, undefined, init),
+  getPlaylist: (id: string, init?: RequestInit): Promise<PlaylistDetailsDto> =>
+    request('PlaylistDetails', `/playlists/${encodeURIComponent(id)}`, undefined, init),
+};
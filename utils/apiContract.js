@@ -0,0 +1,292 @@
+// -------------------------------------------------------------------
+// /api/v2 の契約 (レスポンスの DTO とエンドポイント)
+// サーバー (api/index.js) はこの定義でレスポンスを検証し、クライアント (utils/apiClient.generated.ts) は
+// scripts/generate-api-client.js がこの定義から生成する。DTO の形は types.ts の同名の型と一致させる
+// -------------------------------------------------------------------
+
+// --- Schema builders ---
+
+export const t = {
+  string: () => ({ kind: 'string' }),
+  number: () => ({ kind: 'number' }),
+  boolean: () => ({ kind: 'boolean' }),
+  enum: (values) => ({ kind: 'enum', values }),
+  array: (item) => ({ kind: 'array', item }),
+  object: (shape) => ({ kind: 'object', shape }),
+  optional: (schema) => ({ kind: 'optional', schema }),
+  nullable: (schema) => ({ kind: 'nullable', schema }),
+  // 名前付きスキーマへの参照 (schemas のキー)
+  ref: (name) => ({ kind: 'ref', name }),
+};
+
+// --- Shared enums ---
+
+export const SEARCH_UPLOAD_DATES = ['all', 'hour', 'today', 'week', 'month', 'year'];
+export const SEARCH_TYPES = ['all', 'video', 'channel', 'playlist', 'movie'];
+export const SEARCH_DURATIONS = ['all', 'short', 'medium', 'long'];
+export const SEARCH_SORTS = ['relevance', 'rating', 'upload_date', 'view_count'];
+export const SEARCH_FEATURES = ['hd', 'subtitles', 'creative_commons', '3d', 'live', 'purchased', '4k', '360', 'location', 'hdr', 'vr180'];
+export const COMMENT_SORT_VALUES = ['top', 'newest'];
+
+// --- DTOs ---
+
+const videoShape = {
+  id: t.string(),
+  thumbnailUrl: t.string(),
+  duration: t.string(),
+  isoDuration: t.string(),
+  title: t.string(),
+  channelName: t.string(),
+  channelId: t.string(),
+  channelAvatarUrl: t.string(),
+  views: t.string(),
+  uploadedAt: t.string(),
+  descriptionSnippet: t.optional(t.string()),
+  collaborators: t.optional(t.array(t.ref('Channel'))),
+};
+
+export const schemas = {
+  ChannelBadge: t.object({
+    type: t.string(),
+    tooltip: t.string(),
+  }),
+  Channel: t.object({
+    id: t.string(),
+    name: t.string(),
+    avatarUrl: t.string(),
+    subscriberCount: t.string(),
+    badges: t.optional(t.array(t.ref('ChannelBadge'))),
+  }),
+  Video: t.object(videoShape),
+  VideoChapter: t.object({
+    title: t.string(),
+    startSeconds: t.number(),
+    thumbnailUrl: t.optional(t.string()),
+  }),
+  VideoDetails: t.object({
+    ...videoShape,
+    description: t.string(),
+    likes: t.string(),
+    dislikes: t.string(),
+    channel: t.ref('Channel'),
+    relatedVideos: t.array(t.ref('Video')),
+    chapters: t.array(t.ref('VideoChapter')),
+  }),
+  ChannelDetails: t.object({
+    id: t.string(),
+    name: t.string(),
+    avatarUrl: t.optional(t.string()),
+    subscriberCount: t.string(),
+    bannerUrl: t.optional(t.string()),
+    description: t.string(),
+    videoCount: t.number(),
+    handle: t.optional(t.string()),
+  }),
+  ApiPlaylist: t.object({
+    id: t.string(),
+    title: t.string(),
+    thumbnailUrl: t.optional(t.string()),
+    videoCount: t.number(),
+    author: t.optional(t.string()),
+    authorId: t.optional(t.string()),
+  }),
+  PlaylistDetails: t.object({
+    title: t.string(),
+    author: t.string(),
+    authorId: t.string(),
+    description: t.string(),
+    videos: t.array(t.ref('Video')),
+  }),
+  SearchResults: t.object({
+    videos: t.array(t.ref('Video')),
+    shorts: t.array(t.ref('Video')),
+    channels: t.array(t.ref('Channel')),
+    playlists: t.array(t.ref('ApiPlaylist')),
+    nextPageToken: t.optional(t.string()),
+  }),
+  CommentAuthor: t.object({
+    id: t.string(),
+    name: t.string(),
+    thumbnails: t.array(t.object({ url: t.string() })),
+  }),
+  Comment: t.object({
+    comment_id: t.string(),
+    text: t.string(),
+    published_time: t.string(),
+    author: t.ref('CommentAuthor'),
+    like_count: t.string(),
+    reply_count: t.string(),
+    is_pinned: t.boolean(),
+    replies_token: t.optional(t.nullable(t.string())),
+  }),
+  CommentsPage: t.object({
+    comments: t.array(t.ref('Comment')),
+    countText: t.optional(t.nullable(t.string())),
+    nextPageToken: t.optional(t.string()),
+  }),
+  VideoList: t.object({
+    videos: t.array(t.ref('Video')),
+  }),
+  VideoPage: t.object({
+    videos: t.array(t.ref('Video')),
+    nextPageToken: t.optional(t.string()),
+  }),
+  PlaylistList: t.object({
+    playlists: t.array(t.ref('ApiPlaylist')),
+  }),
+};
+
+// --- Endpoints ---
+// path の :name はパスパラメーター (文字列)。query の配列はカンマ区切りで送る
+
+export const endpoints = {
+  getHomeFeed: {
+    path: '/home',
+    response: 'VideoList',
+  },
+  search: {
+    path: '/search',
+    query: t.object({
+      q: t.string(),
+      continuation: t.optional(t.string()),
+      upload_date: t.optional(t.enum(SEARCH_UPLOAD_DATES)),
+      type: t.optional(t.enum(SEARCH_TYPES)),
+      duration: t.optional(t.enum(SEARCH_DURATIONS)),
+      sort_by: t.optional(t.enum(SEARCH_SORTS)),
+      features: t.optional(t.array(t.enum(SEARCH_FEATURES))),
+    }),
+    response: 'SearchResults',
+  },
+  getVideo: {
+    path: '/videos/:id',
+    response: 'VideoDetails',
+  },
+  getRelatedVideos: {
+    path: '/videos/:id/related',
+    response: 'VideoList',
+  },
+  getComments: {
+    path: '/videos/:id/comments',
+    query: t.object({
+      sort: t.optional(t.enum(COMMENT_SORT_VALUES)),
+      continuation: t.optional(t.string()),
+    }),
+    response: 'CommentsPage',
+  },
+  getCommentReplies: {
+    path: '/videos/:id/comments/replies',
+    query: t.object({
+      token: t.string(),
+    }),
+    response: 'CommentsPage',
+  },
+  getChannel: {
+    path: '/channels/:id',
+    response: 'ChannelDetails',
+  },
+  getChannelVideos: {
+    path: '/channels/:id/videos',
+    query: t.object({
+      continuation: t.optional(t.string()),
+    }),
+    response: 'VideoPage',
+  },
+  getChannelShorts: {
+    path: '/channels/:id/shorts',
+    response: 'VideoList',
+  },
+  getChannelPlaylists: {
+    path: '/channels/:id/playlists',
+    response: 'PlaylistList',
+  },
+  getPlaylist: {
+    path: '/playlists/:id',
+    response: 'PlaylistDetails',
+  },
+};
+
+// --- Validation ---
+
+const describe = (value) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+// 問題点を { path, message } の配列で返す (空なら妥当)
+export const validate = (schema, value, path = '$') => {
+  switch (schema.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.kind || (schema.kind === 'number' && !Number.isFinite(value))) {
+        return [{ path, message: `expected ${schema.kind}, got ${describe(value)}` }];
+      }
+      return [];
+    case 'enum':
+      return schema.values.includes(value) ? [] : [{ path, message: `expected one of ${schema.values.join(', ')}, got ${JSON.stringify(value)}` }];
+    case 'array':
+      if (!Array.isArray(value)) return [{ path, message: `expected array, got ${describe(value)}` }];
+      return value.flatMap((item, i) => validate(schema.item, item, `${path}[${i}]`));
+    case 'object':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [{ path, message: `expected object, got ${describe(value)}` }];
+      return Object.entries(schema.shape).flatMap(([key, field]) => validate(field, value[key], `${path}.${key}`));
+    case 'optional':
+      return value === undefined ? [] : validate(schema.schema, value, path);
+    case 'nullable':
+      return value === null ? [] : validate(schema.schema, value, path);
+    case 'ref':
+      return validate(schemas[schema.name], value, path);
+    default:
+      throw new Error(`Unknown schema kind: ${schema.kind}`);
+  }
+};
+
+export class ContractError extends Error {
+  constructor(message, issues) {
+    super(message);
+    this.name = 'ContractError';
+    this.issues = issues;
+  }
+}
+
+// 名前付きスキーマで検証し、問題があれば ContractError を投げる
+export const assertValid = (schemaName, value) => {
+  const issues = validate(schemas[schemaName], value);
+  if (issues.length > 0) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    throw new ContractError(`Invalid ${schemaName} (${summary}${issues.length > 3 ? `; +${issues.length - 3} more` : ''})`, issues);
+  }
+  return value;
+};
+
+// レスポンスを検証する。外側の形が崩れていれば ContractError を投げるが、一覧 (配列のフィールド) の要素は
+// 1件ずつ検証し、合わない要素だけを取り除く。取り除いた要素の問題点は dropped で返す
+export const validateResponse = (schemaName, value) => {
+  const schema = schemas[schemaName];
+  const dropped = [];
+  let sanitized = value;
+  if (schema.kind === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+    sanitized = { ...value };
+    for (const [key, field] of Object.entries(schema.shape)) {
+      const list = field.kind === 'optional' ? field.schema : field;
+      if (list.kind !== 'array' || !Array.isArray(value[key])) continue;
+      sanitized[key] = value[key].filter((item, i) => {
+        const issues = validate(list.item, item, `$.${key}[${i}]`);
+        dropped.push(...issues);
+        return issues.length === 0;
+      });
+    }
+  }
+  return { value: assertValid(schemaName, sanitized), dropped };
+};
+
+// クエリ文字列 (値はすべて文字列) をスキーマに沿って変換する。空の値は省略扱い、配列はカンマ区切り
+export const parseQuery = (schema, rawQuery) => {
+  const query = {};
+  for (const [key, field] of Object.entries(schema.shape)) {
+    const raw = rawQuery[key];
+    if (raw === undefined || raw === '') continue;
+    const inner = field.kind === 'optional' ? field.schema : field;
+    query[key] = inner.kind === 'array' ? [...new Set(String(raw).split(',').filter(Boolean))] : String(raw);
+  }
+  const issues = validate(schema, query, 'query');
+  if (issues.length > 0) throw new ContractError(issues.map(issue => `${issue.path}: ${issue.message}`).join('; '), issues);
+  return query;
+};
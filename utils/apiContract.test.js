@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ContractError, validateResponse } from './apiContract.js';
+
+const video = (id) => ({
+  id,
+  thumbnailUrl: `https://i.ytimg.com/vi/${id}/mqdefault.jpg`,
+  duration: '1:23',
+  isoDuration: 'PT1M23S',
+  title: `Video ${id}`,
+  channelName: 'Channel',
+  channelId: 'UC123',
+  channelAvatarUrl: '',
+  views: '1回視聴',
+  uploadedAt: '1日前',
+});
+
+describe('validateResponse', () => {
+  it('drops list items that do not match and keeps the rest', () => {
+    const { value, dropped } = validateResponse('VideoPage', {
+      videos: [video('a'), { ...video('b'), title: null }, video('c')],
+      nextPageToken: 'next',
+    });
+
+    expect(value.videos.map(v => v.id)).toEqual(['a', 'c']);
+    expect(value.nextPageToken).toBe('next');
+    expect(dropped).toEqual([{ path: '$.videos[1].title', message: 'expected string, got null' }]);
+  });
+
+  it('still rejects a response whose outer shape is wrong', () => {
+    expect(() => validateResponse('VideoPage', { videos: null })).toThrow(ContractError);
+    expect(() => validateResponse('ChannelDetails', { id: 'UC123' })).toThrow(ContractError);
+  });
+});
@@ -0,0 +1,43 @@
+import type { Channel, HistoryEntry, Playlist } from '../types';
+import { buildFreeTubeHistoryDb, buildFreeTubePlaylistsDb, buildFreeTubeSubscriptionsDb } from './freetube';
+import { buildInvidiousExport } from './invidious';
+import { buildNewPipeSubscriptionsJson } from './newpipe';
+import { createZip } from './zip';
+
+// 登録チャンネル・再生履歴・再生リストを、他のサービスで読み込める形式で書き出す
+
+export type ExportService = 'newpipe' | 'freetube' | 'invidious';
+
+interface ExportData {
+  subscriptions: Channel[];
+  history: HistoryEntry[];
+  playlists: Playlist[];
+}
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportForService = (service: ExportService, { subscriptions, history, playlists }: ExportData) => {
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (service === 'newpipe') {
+    // NewPipe が読み込めるのは登録チャンネルだけ
+    download(new Blob([buildNewPipeSubscriptionsJson(subscriptions)], { type: 'application/json' }), `xeroxyt_newpipe_subscriptions_${date}.json`);
+  } else if (service === 'freetube') {
+    // FreeTube は種類ごとに別のファイルから読み込むので、3つのファイルを ZIP にまとめる
+    const knownVideos = new Map(history.map(video => [video.id, video]));
+    download(createZip([
+      { path: 'freetube-subscriptions.db', content: buildFreeTubeSubscriptionsDb(subscriptions) },
+      { path: 'freetube-history.db', content: buildFreeTubeHistoryDb(history) },
+      { path: 'freetube-playlists.db', content: buildFreeTubePlaylistsDb(playlists, knownVideos) },
+    ]), `xeroxyt_freetube_${date}.zip`);
+  } else {
+    download(new Blob([buildInvidiousExport(subscriptions, history, playlists)], { type: 'application/json' }), `xeroxyt_invidious_${date}.json`);
+  }
+};
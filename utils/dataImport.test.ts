@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { readImportFiles } from './dataImport';
+import { readFixture } from './fixtures';
+
+const CHANNEL_ID = `UC${'a'.repeat(22)}`;
+
+describe('readImportFiles', () => {
+  it('reads subscriptions, history and playlists from a NewPipe database', async () => {
+    const { bundle, sources } = await readImportFiles([new File([readFixture('newpipe.db')], 'newpipe.db')]);
+
+    expect(sources).toEqual([{ path: 'newpipe.db', format: 'NewPipe' }]);
+    // service_id が YouTube 以外の登録チャンネルは含めない
+    expect(bundle.subscriptions).toEqual([expect.objectContaining({ id: CHANNEL_ID, name: 'テストチャンネル' })]);
+    expect(bundle.history).toHaveLength(40);
+    expect(bundle.history.find(entry => entry.id === 'video000000')?.watchedAt).toBe(new Date(1800000000000).toISOString());
+    expect(bundle.history.find(entry => entry.id === 'video000001')).toMatchObject({ title: '動画 1', channelId: CHANNEL_ID });
+    expect(bundle.playlists).toEqual([expect.objectContaining({ name: 'お気に入り', videoIds: ['video000001', 'video000002'] })]);
+  });
+
+  it('does not let the NewPipe adapter claim an empty Invidious export', async () => {
+    const file = new File([JSON.stringify({ subscriptions: [], watch_history: [], playlists: [] })], 'invidious.json');
+    const { sources } = await readImportFiles([file]);
+
+    expect(sources).toEqual([{ path: 'invidious.json', format: 'Invidious' }]);
+  });
+
+  it('detects an empty NewPipe subscriptions export by its app_version', async () => {
+    const file = new File([JSON.stringify({ app_version: '0.27.0', app_version_int: 1000, subscriptions: [] })], 'subscriptions.json');
+    const { sources } = await readImportFiles([file]);
+
+    expect(sources).toEqual([{ path: 'subscriptions.json', format: 'NewPipe' }]);
+  });
+});
@@ -0,0 +1,109 @@
+import type { ImportBundle, ImportedPlaylist } from '../types';
+import { createImportSourceFile, type ImportAdapter, type ImportSourceFile } from './importBundle';
+import { readFreeTubeFile } from './freetube';
+import { readInvidiousFile } from './invidious';
+import { readNewPipeFile } from './newpipe';
+import { readTakeoutFile } from './takeout';
+import { readZipEntries } from './zip';
+
+// 他のサービスの書き出しファイル (ZIP の場合は中のファイル) を読み、形式を判定して1つの ImportBundle にまとめる
+
+export type ImportFormat = 'Google Takeout' | 'NewPipe' | 'FreeTube' | 'Invidious';
+
+export interface ImportProgress {
+  // 読み込み中のファイル (アーカイブ内のパス)
+  label: string;
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  bundle: ImportBundle;
+  // 読み込めたファイルと、その形式
+  sources: { path: string; format: ImportFormat }[];
+  // 読み込みに失敗したファイルなど
+  warnings: string[];
+}
+
+// 判定の順序に意味がある (NewPipe の newpipe.db と FreeTube の .db、NewPipe と Invidious の JSON を区別するため)
+const ADAPTERS: [ImportFormat, ImportAdapter][] = [
+  ['NewPipe', readNewPipeFile],
+  ['FreeTube', readFreeTubeFile],
+  ['Invidious', readInvidiousFile],
+  ['Google Takeout', readTakeoutFile],
+];
+
+// アーカイブ内で読む対象 (動画ファイルなどは開かない)
+const READABLE_EXTENSIONS = /\.(csv|json|html|db)$/i;
+
+interface PendingSource {
+  path: string;
+  load: () => Promise<ArrayBuffer>;
+}
+
+// 選択されたファイル (ZIP は展開して中のファイル) を、読み込む対象の一覧にする
+const listSources = async (files: File[]): Promise<PendingSource[]> => {
+  const sources: PendingSource[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      const entries = await readZipEntries(file);
+      sources.push(...entries.filter(entry => READABLE_EXTENSIONS.test(entry.path)).map(entry => ({ path: entry.path, load: entry.arrayBuffer })));
+    } else if (/\.(tgz|gz)$/i.test(file.name)) {
+      throw new Error(`${file.name}: .tgz 形式には対応していません。Takeout で .zip 形式を選んで書き出してください。`);
+    } else {
+      sources.push({ path: file.name, load: () => file.arrayBuffer() });
+    }
+  }
+  return sources;
+};
+
+const detect = (file: ImportSourceFile): [ImportFormat, Partial<ImportBundle>] | null => {
+  for (const [format, adapter] of ADAPTERS) {
+    const data = adapter(file);
+    if (data) return [format, data];
+  }
+  return null;
+};
+
+// 重複を除く (登録チャンネル・再生リストは複数のファイルやサービスから同じものが来ることがある)
+const dedupeBundle = (bundle: ImportBundle): ImportBundle => {
+  const playlists = new Map<string, ImportedPlaylist>();
+  for (const playlist of bundle.playlists) {
+    const existing = playlists.get(playlist.name);
+    if (existing) existing.videoIds = [...new Set([...existing.videoIds, ...playlist.videoIds])];
+    else playlists.set(playlist.name, { ...playlist });
+  }
+  return {
+    subscriptions: Array.from(new Map(bundle.subscriptions.map(c => [c.id, c])).values()),
+    // 同じ動画を何度も見た場合は、それぞれの視聴を残したまま履歴側で最新の1件にまとめる
+    history: bundle.history,
+    playlists: Array.from(playlists.values()),
+  };
+};
+
+export const readImportFiles = async (files: File[], onProgress?: (progress: ImportProgress) => void): Promise<ImportResult> => {
+  const bundle: ImportBundle = { subscriptions: [], history: [], playlists: [] };
+  const sources: ImportResult['sources'] = [];
+  const warnings: string[] = [];
+
+  const pending = await listSources(files);
+  for (let i = 0; i < pending.length; i++) {
+    const { path, load } = pending[i];
+    onProgress?.({ label: path, done: i, total: pending.length });
+    try {
+      const detected = detect(createImportSourceFile(path, await load()));
+      if (!detected) continue;
+      const [format, data] = detected;
+      bundle.subscriptions.push(...data.subscriptions ?? []);
+      bundle.history.push(...data.history ?? []);
+      bundle.playlists.push(...data.playlists ?? []);
+      sources.push({ path, format });
+    } catch (err: any) {
+      warnings.push(`${path}: ${err.message ?? '読み込みに失敗しました'}`);
+    }
+  }
+  onProgress?.({ label: '', done: pending.length, total: pending.length });
+
+  if (sources.length === 0) warnings.push('インポートできるファイルが見つかりませんでした。');
+  return { bundle: dedupeBundle(bundle), sources, warnings };
+};
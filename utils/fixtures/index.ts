@@ -0,0 +1,7 @@
+import { readFileSync } from 'fs';
+
+// テスト用のファイルを ArrayBuffer で読む
+export const readFixture = (name: string): ArrayBuffer => {
+  const buffer = readFileSync(new URL(`./${name}`, import.meta.url));
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+};
@@ -0,0 +1,128 @@
+import type { Channel, HistoryEntry, ImportBundle, Playlist } from '../types';
+import { DEFAULT_CHANNEL_AVATAR_URL, parseDuration } from './api';
+import { VIDEO_ID_PATTERN, CHANNEL_ID_PATTERN, createHistoryEntry, isRecord, stringOf, toIsoString, type ImportSourceFile, type JsonRecord } from './importBundle';
+
+// FreeTube の書き出し (profiles.db / history.db / playlists.db) を読み書きする。
+// どれも NeDB 形式 (1行に1件の JSON) で、同じ _id の行は後のものが優先され、{ "$$deleted": true } の行で削除される
+
+const readNedbRecords = (text: string): JsonRecord[] | null => {
+  const records = new Map<string, JsonRecord>();
+  let index = 0;
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return null;
+    }
+    if (!isRecord(record) || '$$indexCreated' in record) continue;
+    const key = typeof record._id === 'string' ? record._id : `#${index++}`;
+    if (record.$$deleted) records.delete(key);
+    else records.set(key, record);
+  }
+  return Array.from(records.values());
+};
+
+const isProfile = (record: JsonRecord): record is JsonRecord & { subscriptions: unknown[] } => Array.isArray(record.subscriptions);
+const isHistoryRecord = (record: JsonRecord): record is JsonRecord & { videoId: string } => typeof record.videoId === 'string' && 'timeWatched' in record;
+const isPlaylist = (record: JsonRecord): record is JsonRecord & { playlistName: string; videos: unknown[] } =>
+  typeof record.playlistName === 'string' && Array.isArray(record.videos);
+const isChannelRecord = (value: unknown): value is JsonRecord & { id: string } => isRecord(value) && typeof value.id === 'string' && CHANNEL_ID_PATTERN.test(value.id);
+const isVideoId = (value: unknown): value is string => typeof value === 'string' && VIDEO_ID_PATTERN.test(value);
+
+export const readFreeTubeFile = (file: ImportSourceFile): Partial<ImportBundle> | null => {
+  if (!/\.db$/i.test(file.path)) return null;
+  const records = readNedbRecords(file.text());
+  if (!records || !records.some(r => isProfile(r) || isHistoryRecord(r) || isPlaylist(r))) return null;
+
+  // プロファイルごとに登録チャンネルが分かれているので、すべてのプロファイルのものを合わせる
+  const subscriptions: Channel[] = records.filter(isProfile).flatMap(profile => profile.subscriptions)
+    .filter(isChannelRecord)
+    .map(channel => ({
+      id: channel.id,
+      name: stringOf(channel.name) || channel.id,
+      avatarUrl: stringOf(channel.thumbnail) || DEFAULT_CHANNEL_AVATAR_URL,
+      subscriberCount: '',
+    }));
+
+  const history: HistoryEntry[] = records.filter(isHistoryRecord)
+    .filter(record => VIDEO_ID_PATTERN.test(record.videoId))
+    .map(record => createHistoryEntry({
+      id: record.videoId,
+      title: stringOf(record.title),
+      channelName: stringOf(record.author),
+      channelId: stringOf(record.authorId),
+      lengthSeconds: Number(record.lengthSeconds) || undefined,
+      watchedAt: toIsoString(record.timeWatched),
+    }));
+
+  const playlists = records.filter(isPlaylist).map(record => ({
+    name: record.playlistName,
+    videoIds: [...new Set(record.videos.filter(isRecord).map(video => video.videoId).filter(isVideoId))],
+    createdAt: toIsoString(record.createdAt),
+  }));
+
+  return { subscriptions, history, playlists };
+};
+
+// --- Export ---
+
+const toNedb = (records: object[]) => records.map(record => JSON.stringify(record)).join('\n') + '\n';
+
+const lengthSecondsOf = (video: HistoryEntry | undefined) => video ? parseDuration(video.isoDuration, video.duration) : 0;
+
+// FreeTube の「登録チャンネルをインポート」で読み込める profiles.db
+export const buildFreeTubeSubscriptionsDb = (channels: Channel[]): string => toNedb([{
+  name: 'All Channels',
+  bgColor: '#000000',
+  textColor: '#FFFFFF',
+  subscriptions: channels.map(channel => ({ id: channel.id, name: channel.name, thumbnail: channel.avatarUrl })),
+  _id: 'allChannels',
+}]);
+
+export const buildFreeTubeHistoryDb = (history: HistoryEntry[]): string => {
+  const now = Date.now();
+  return toNedb(history.map((video, index) => ({
+    videoId: video.id,
+    title: video.title,
+    author: video.channelName,
+    authorId: video.channelId,
+    published: 0,
+    description: '',
+    viewCount: 0,
+    lengthSeconds: lengthSecondsOf(video),
+    watchProgress: 0,
+    // 視聴日時を記録していなかった頃の履歴は、並び順が保たれるよう現在時刻から1ミリ秒ずつ遡らせる
+    timeWatched: video.watchedAt ? Date.parse(video.watchedAt) : now - index,
+    isLive: false,
+    type: 'video',
+    _id: video.id,
+  })));
+};
+
+// 再生リストには動画IDしか保存していないため、タイトルなどは履歴にあればそれを使う
+export const buildFreeTubePlaylistsDb = (playlists: Playlist[], knownVideos: Map<string, HistoryEntry>): string => toNedb(playlists.map(playlist => {
+  const createdAt = Date.parse(playlist.createdAt) || Date.now();
+  return {
+    playlistName: playlist.name,
+    protected: false,
+    description: '',
+    videos: playlist.videoIds.map(videoId => {
+      const video = knownVideos.get(videoId);
+      return {
+        videoId,
+        title: video?.title ?? videoId,
+        author: video?.channelName ?? '',
+        authorId: video?.channelId ?? '',
+        lengthSeconds: lengthSecondsOf(video),
+        timeAdded: createdAt,
+        playlistItemId: `${playlist.id}-${videoId}`,
+        type: 'video',
+      };
+    }),
+    _id: playlist.id,
+    createdAt,
+    lastUpdatedAt: createdAt,
+  };
+}));
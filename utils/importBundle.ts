@@ -0,0 +1,87 @@
+import type { HistoryEntry, ImportBundle } from '../types';
+import { formatDuration } from './api';
+
+// 他のサービスの書き出しファイルを ImportBundle に変換する各アダプター (utils/takeout.ts など) で共有するもの
+
+export const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+export const CHANNEL_ID_PATTERN = /UC[A-Za-z0-9_-]{22}/;
+
+// 読み込むファイル (ZIP の中のファイルも含む)。text() と json() は何度呼んでも一度しか変換しない
+export interface ImportSourceFile {
+  path: string;
+  data: ArrayBuffer;
+  text: () => string;
+  // JSON として読めなければ undefined
+  json: () => unknown;
+}
+
+// 対応する形式のファイルなら読み取った内容を返し、対象外なら null を返す
+export type ImportAdapter = (file: ImportSourceFile) => Partial<ImportBundle> | null;
+
+export const createImportSourceFile = (path: string, data: ArrayBuffer): ImportSourceFile => {
+  let text: string | undefined;
+  let json: { value: unknown } | undefined;
+  const readText = () => text ??= new TextDecoder().decode(data);
+  return {
+    path,
+    data,
+    text: readText,
+    json: () => {
+      if (!json) {
+        try {
+          json = { value: JSON.parse(readText()) };
+        } catch {
+          json = { value: undefined };
+        }
+      }
+      return json.value;
+    },
+  };
+};
+
+// JSON から読んだ値 (unknown) を絞り込むためのもの
+export type JsonRecord = Record<string, unknown>;
+export const isRecord = (value: unknown): value is JsonRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+export const stringOf = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+export const fileNameOf = (path: string) => path.split('/').pop() ?? path;
+
+export const toIsoString = (value: unknown) => {
+  if ((typeof value !== 'string' && typeof value !== 'number') || value === '') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+export const getVideoIdFromUrl = (url: string | undefined | null) => {
+  try {
+    const parsed = new URL(url ?? '');
+    const id = parsed.searchParams.get('v') ?? (parsed.hostname === 'youtu.be' ? parsed.pathname.slice(1) : null);
+    return id && VIDEO_ID_PATTERN.test(id) ? id : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getChannelIdFromUrl = (url: string | undefined | null) => url?.match(CHANNEL_ID_PATTERN)?.[0] ?? null;
+
+// インポート元に無い情報 (再生回数・投稿日など) は空にし、サムネイルは動画IDから組み立てる
+export const createHistoryEntry = ({ id, title, channelName = '', channelId = '', lengthSeconds, watchedAt }: {
+  id: string;
+  title?: string;
+  channelName?: string;
+  channelId?: string;
+  lengthSeconds?: number;
+  watchedAt?: string;
+}): HistoryEntry => ({
+  id,
+  title: title || id,
+  thumbnailUrl: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+  duration: lengthSeconds ? formatDuration(lengthSeconds) : '',
+  isoDuration: lengthSeconds ? `PT${lengthSeconds}S` : '',
+  channelName,
+  channelId,
+  channelAvatarUrl: '',
+  views: '',
+  uploadedAt: '',
+  watchedAt,
+});
@@ -0,0 +1,50 @@
+import type { Channel, HistoryEntry, ImportBundle, Playlist } from '../types';
+import { DEFAULT_CHANNEL_AVATAR_URL } from './api';
+import { VIDEO_ID_PATTERN, CHANNEL_ID_PATTERN, createHistoryEntry, isRecord, type ImportSourceFile, type JsonRecord } from './importBundle';
+
+// Invidious の「データをエクスポート (JSON)」を読み書きする。
+// { "subscriptions": ["UC..."], "watch_history": ["動画ID"], "playlists": [{ "title", "description", "privacy", "videos": ["動画ID"] }] }
+// 登録チャンネルと履歴は ID しか含まないため、チャンネル名や動画タイトルは ID で代用する。
+// watch_history は古い順に並んでおり、視聴日時は含まれない
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isPlaylist = (value: unknown): value is JsonRecord & { title: string; videos: string[] } =>
+  isRecord(value) && typeof value.title === 'string' && isStringArray(value.videos);
+
+export const readInvidiousFile = (file: ImportSourceFile): Partial<ImportBundle> | null => {
+  if (!/\.json$/i.test(file.path)) return null;
+  const json = file.json();
+  if (!isRecord(json)) return null;
+  const rawPlaylists: unknown = json.playlists;
+  const importedPlaylists = Array.isArray(rawPlaylists) && rawPlaylists.every(isPlaylist) ? rawPlaylists : null;
+  if (!isStringArray(json.subscriptions) && !isStringArray(json.watch_history) && !importedPlaylists) return null;
+
+  const subscriptions: Channel[] = (isStringArray(json.subscriptions) ? json.subscriptions : [])
+    .filter(id => CHANNEL_ID_PATTERN.test(id))
+    .map(id => ({ id, name: id, avatarUrl: DEFAULT_CHANNEL_AVATAR_URL, subscriberCount: '' }));
+
+  const history: HistoryEntry[] = (isStringArray(json.watch_history) ? [...json.watch_history].reverse() : [])
+    .filter(id => VIDEO_ID_PATTERN.test(id))
+    .map(id => createHistoryEntry({ id }));
+
+  const playlists = (importedPlaylists ?? []).map(p => ({
+    name: p.title,
+    videoIds: [...new Set(p.videos.filter(id => VIDEO_ID_PATTERN.test(id)))],
+  }));
+
+  return { subscriptions, history, playlists };
+};
+
+// --- Export ---
+
+// Invidious の「データをインポート」→「Invidious JSON データ」で読み込める形式
+export const buildInvidiousExport = (channels: Channel[], history: HistoryEntry[], playlists: Playlist[]): string => JSON.stringify({
+  subscriptions: channels.map(channel => channel.id),
+  watch_history: history.map(video => video.id).reverse(),
+  playlists: playlists.map(playlist => ({
+    title: playlist.name,
+    description: '',
+    privacy: 'Private',
+    videos: playlist.videoIds,
+  })),
+}, null, 2);
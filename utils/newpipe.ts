@@ -0,0 +1,101 @@
+import type { Channel, HistoryEntry, ImportBundle, ImportedPlaylist } from '../types';
+import { DEFAULT_CHANNEL_AVATAR_URL } from './api';
+import { createHistoryEntry, getChannelIdFromUrl, getVideoIdFromUrl, isRecord, toIsoString, type ImportSourceFile, type JsonRecord } from './importBundle';
+import { isSqliteDatabase, openSqliteDatabase } from './sqlite';
+
+// NewPipe の書き出しを読み書きする。
+// 読み込みは「登録チャンネルをエクスポート」の JSON と、「データベースをエクスポート」の ZIP に入っている newpipe.db に対応する。
+// NewPipe は YouTube 以外のサービスも扱うため、service_id が YouTube (0) のものだけを取り込む
+
+const YOUTUBE_SERVICE_ID = 0;
+
+const toChannel = (url: unknown, name: unknown, avatarUrl?: unknown): Channel | null => {
+  const id = getChannelIdFromUrl(typeof url === 'string' ? url : '');
+  if (!id) return null;
+  return {
+    id,
+    name: typeof name === 'string' && name ? name : id,
+    avatarUrl: typeof avatarUrl === 'string' && avatarUrl ? avatarUrl : DEFAULT_CHANNEL_AVATAR_URL,
+    subscriberCount: '',
+  };
+};
+
+// { "subscriptions": [{ "service_id": 0, "url": "https://www.youtube.com/channel/UC...", "name": "..." }] }
+const isNewPipeItem = (item: unknown): item is JsonRecord & { url: string } => isRecord(item) && typeof item.url === 'string' && 'service_id' in item;
+
+const readSubscriptionsJson = (json: unknown): Partial<ImportBundle> | null => {
+  if (!isRecord(json) || !Array.isArray(json.subscriptions)) return null;
+  const items: unknown[] = json.subscriptions;
+  // 登録チャンネルが空の場合は Invidious の書き出しと区別できないので、NewPipe が付ける app_version で判定する
+  if (items.length === 0 ? !('app_version' in json) : !items.every(isNewPipeItem)) return null;
+  return {
+    subscriptions: items.filter(isNewPipeItem)
+      .filter(item => item.service_id === YOUTUBE_SERVICE_ID)
+      .map(item => toChannel(item.url, item.name))
+      .filter((channel): channel is Channel => !!channel),
+  };
+};
+
+const readDatabase = (data: ArrayBuffer): Partial<ImportBundle> | null => {
+  const db = openSqliteDatabase(data);
+  if (!db.hasTable('subscriptions') || !db.hasTable('streams')) return null;
+
+  const subscriptions = db.readTable('subscriptions')
+    .filter(row => row.service_id === YOUTUBE_SERVICE_ID)
+    .map(row => toChannel(row.url, row.name, row.avatar_url))
+    .filter((channel): channel is Channel => !!channel);
+
+  // streams.uid → 動画
+  const streams = new Map<number, { videoId: string; row: Record<string, unknown> }>();
+  for (const row of db.readTable('streams')) {
+    const videoId = row.service_id === YOUTUBE_SERVICE_ID ? getVideoIdFromUrl(String(row.url ?? '')) : null;
+    if (videoId) streams.set(row.uid as number, { videoId, row });
+  }
+
+  // 同じ動画を何度も見た場合は最後に見た日時を使う (access_date はミリ秒)
+  const lastAccess = new Map<number, number>();
+  for (const row of db.readTable('stream_history')) {
+    const streamId = row.stream_id as number;
+    const accessDate = Number(row.access_date);
+    if (streams.has(streamId) && accessDate > (lastAccess.get(streamId) ?? -Infinity)) lastAccess.set(streamId, accessDate);
+  }
+  const history: HistoryEntry[] = Array.from(lastAccess, ([streamId, accessDate]) => {
+    const { videoId, row } = streams.get(streamId)!;
+    return createHistoryEntry({
+      id: videoId,
+      title: String(row.title ?? ''),
+      channelName: String(row.uploader ?? ''),
+      channelId: getChannelIdFromUrl(String(row.uploader_url ?? '')) ?? '',
+      lengthSeconds: Number(row.duration) || undefined,
+      watchedAt: toIsoString(accessDate),
+    });
+  });
+
+  const joins = db.readTable('playlist_stream_join').sort((a, b) => Number(a.join_index) - Number(b.join_index));
+  const playlists: ImportedPlaylist[] = db.readTable('playlists').map(row => ({
+    name: String(row.name ?? ''),
+    videoIds: [...new Set(joins
+      .filter(join => join.playlist_id === row.uid)
+      .map(join => streams.get(join.stream_id as number)?.videoId)
+      .filter((id): id is string => !!id))],
+  })).filter(playlist => playlist.name);
+
+  return { subscriptions, history, playlists };
+};
+
+export const readNewPipeFile = (file: ImportSourceFile): Partial<ImportBundle> | null => {
+  if (isSqliteDatabase(file.data)) return readDatabase(file.data);
+  if (/\.json$/i.test(file.path)) return readSubscriptionsJson(file.json());
+  return null;
+};
+
+// --- Export ---
+
+// NewPipe の「登録チャンネルをインポート」→「前回のエクスポート」で読み込める形式
+export const buildNewPipeSubscriptionsJson = (channels: Channel[]): string => JSON.stringify({
+  subscriptions: channels.map(channel => ({
+    service_id: YOUTUBE_SERVICE_ID,
+    url: `https://www.youtube.com/channel/${channel.id}`,
+    name: channel.name,
+  })),
+}, null, 2);
@@ -0,0 +1,69 @@
+import type { Channel } from '../types';
+import { getChannelFeedUrl } from './api';
+
+const CHANNEL_ID_PATTERN = /UC[A-Za-z0-9_-]{22}/;
+
+export interface OpmlOutline {
+  // URL からチャンネルIDを特定できなかった項目は null
+  channelId: string | null;
+  title: string;
+  xmlUrl: string;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// YouTube (feeds/videos.xml?channel_id=)、Invidious (/feed/channel/)、XeroxYT (/api/feed/channel/) の
+// フィード URL や、チャンネルページの URL からチャンネルIDを取り出す
+export const extractChannelId = (url: string): string | null => url.match(CHANNEL_ID_PATTERN)?.[0] ?? null;
+
+// --- Export ---
+
+// 各チャンネルの xmlUrl はこのインスタンスの Atom フィードを指す
+export const buildSubscriptionsOpml = (channels: Channel[], origin: string): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<opml version="1.1">',
+  '  <head>',
+  '    <title>XeroxYT 登録チャンネル</title>',
+  `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+  '  </head>',
+  '  <body>',
+  '    <outline text="XeroxYT 登録チャンネル" title="XeroxYT 登録チャンネル">',
+  ...channels.map(channel => {
+    const name = escapeXml(channel.name);
+    const xmlUrl = escapeXml(`${origin}${getChannelFeedUrl(channel.id)}`);
+    const htmlUrl = escapeXml(`${origin}/channel/${channel.id}`);
+    return `      <outline text="${name}" title="${name}" type="rss" xmlUrl="${xmlUrl}" htmlUrl="${htmlUrl}" />`;
+  }),
+  '    </outline>',
+  '  </body>',
+  '</opml>',
+  '',
+].join('\n');
+
+// --- Import ---
+
+// フォルダー分けされた OPML も読めるよう、xmlUrl を持つ outline をすべて拾う (同じチャンネルは1件にまとめる)
+export const parseSubscriptionsOpml = (text: string): OpmlOutline[] => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.nodeName.toLowerCase() !== 'opml') {
+    throw new Error('OPML ファイルではありません。');
+  }
+
+  const seen = new Set<string>();
+  const outlines: OpmlOutline[] = [];
+  for (const element of Array.from(doc.getElementsByTagName('outline'))) {
+    const xmlUrl = element.getAttribute('xmlUrl') ?? '';
+    if (!xmlUrl) continue;
+    const channelId = extractChannelId(xmlUrl) ?? extractChannelId(element.getAttribute('htmlUrl') ?? '');
+    const key = channelId ?? xmlUrl;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    outlines.push({
+      channelId,
+      title: element.getAttribute('title') || element.getAttribute('text') || channelId || xmlUrl,
+      xmlUrl,
+    });
+  }
+  return outlines;
+};
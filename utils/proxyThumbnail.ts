@@ -1,4 +1,19 @@
-export const getProxyThumbnailUrl = (originalUrl: string): string => {
+// Optional server-side resize / re-encode (?w=320&fmt=webp)
+export interface ThumbnailVariant {
+  width?: number;
+  format?: 'webp' | 'avif' | 'jpeg';
+}
+
+const appendVariant = (url: string, variant?: ThumbnailVariant): string => {
+  if (!variant) return url;
+  const params = new URLSearchParams();
+  if (variant.width) params.set('w', String(variant.width));
+  if (variant.format) params.set('fmt', variant.format);
+  const query = params.toString();
+  return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+};
+
+export const getProxyThumbnailUrl = (originalUrl: string, variant?: ThumbnailVariant): string => {
   if (!originalUrl) return '';
   
   const videoIdMatch = originalUrl.match(/\/vi\/([a-zA-Z0-9_-]{11})\//);
@@ -6,12 +21,12 @@ export const getProxyThumbnailUrl = (originalUrl: string): string => {
     const videoId = videoIdMatch[1];
     const qualityMatch = originalUrl.match(/\/(maxresdefault|sddefault|hqdefault|mqdefault|default)\.jpg/);
     const quality = qualityMatch ? qualityMatch[1].replace('default', '') : 'hq';
-    return `/api/thumbnail/${videoId}?quality=${quality || 'hq'}`;
+    return appendVariant(`/api/thumbnail/${videoId}?quality=${quality || 'hq'}`, variant);
   }
   
-  return `/api/proxy-thumbnail?url=${encodeURIComponent(originalUrl)}`;
+  return appendVariant(`/api/proxy-thumbnail?url=${encodeURIComponent(originalUrl)}`, variant);
 };
 
-export const getDirectThumbnailUrl = (videoId: string, quality: 'maxres' | 'sd' | 'hq' | 'mq' | 'default' = 'hq'): string => {
-  return `/api/thumbnail/${videoId}?quality=${quality}`;
+export const getDirectThumbnailUrl = (videoId: string, quality: 'maxres' | 'sd' | 'hq' | 'mq' | 'default' = 'hq', variant?: ThumbnailVariant): string => {
+  return appendVariant(`/api/thumbnail/${videoId}?quality=${quality}`, variant);
 };
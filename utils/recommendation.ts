@@ -97,7 +97,7 @@ export const getXraiRecommendations = async (sources: RecommendationSource): Pro
     // 2. Fetch Content
     const trendingPromise = getRecommendedVideos().then(res => res.videos).catch(() => []);
     const searchPromises = personalizedSeeds.map(query => 
-        searchVideos(query, '1').then(res => ({ videos: res.videos, shorts: res.shorts })).catch(() => ({ videos: [], shorts: [] }))
+        searchVideos(query).then(res => ({ videos: res.videos, shorts: res.shorts })).catch(() => ({ videos: [], shorts: [] }))
     );
     
     const [trendingContent, personalizedResults] = await Promise.all([trendingPromise, Promise.all(searchPromises)]);
@@ -210,13 +210,13 @@ export const getXraiShorts = async (sources: RecommendationSource & { seenIds?:
     
     const popularPromise = Promise.all([
         getRecommendedVideos().then(res => res.videos.filter(isShortVideo)).catch(() => []),
-        ...selectedQueries.map(q => searchVideos(q, '1').then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => []))
+        ...selectedQueries.map(q => searchVideos(q).then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => []))
     ]).then(results => results.flat());
     
     const topKeywords = [...userVector.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(e => e[0]);
     const personalizedSeeds = topKeywords.length > 0 ? topKeywords.map(k => `${k} #shorts`) : ["音楽 #shorts"];
     const personalizedPromise = Promise.all(personalizedSeeds.map(query => 
-        searchVideos(query, '1').then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => [])
+        searchVideos(query).then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => [])
     )).then(results => results.flat());
 
     const [popularShortsRaw, personalizedShortsRaw] = await Promise.all([popularPromise, personalizedPromise]);
@@ -0,0 +1,77 @@
+import type { SkipCategory, SkipSegment } from '../types';
+import { isRecord } from './importBundle';
+
+// --- Categories ---
+
+export const SKIP_CATEGORIES: { value: SkipCategory; label: string; color: string }[] = [
+  { value: 'sponsor', label: 'スポンサー', color: '#00d400' },
+  { value: 'intro', label: 'イントロ', color: '#00ffff' },
+  { value: 'outro', label: 'エンドカード', color: '#0202ed' },
+  { value: 'selfpromo', label: '宣伝', color: '#ffff00' },
+  { value: 'music_offtopic', label: '音楽以外の部分', color: '#ff9900' },
+];
+
+export const getSkipCategory = (category: SkipCategory) =>
+  SKIP_CATEGORIES.find(c => c.value === category) ?? SKIP_CATEGORIES[0];
+
+const isSkipCategory = (value: unknown): value is SkipCategory =>
+  SKIP_CATEGORIES.some(c => c.value === value);
+
+const isVideoId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9_-]{11}$/.test(value);
+
+// --- Import ---
+
+export interface ImportedSegment {
+  videoId: string;
+  category: SkipCategory;
+  start: number;
+  end: number;
+  uuid?: string;
+}
+
+// SponsorBlock の各形式から 1 区間を読み取る:
+//   API (/api/skipSegments) の { segment: [start, end], category, UUID }
+//   データベースのダンプ (sponsorTimes) の { videoID, startTime, endTime, category, UUID }
+const parseSegment = (item: unknown, videoId: string | undefined): ImportedSegment | null => {
+  if (!isRecord(item)) return null;
+  const id = isVideoId(item.videoID) ? item.videoID : videoId;
+  if (!id || !isSkipCategory(item.category)) return null;
+  // スキップ以外の actionType (mute / chapter / poi など) は対象外
+  if (item.actionType && item.actionType !== 'skip') return null;
+
+  const [start, end] = Array.isArray(item.segment)
+    ? item.segment.map(Number)
+    : [Number(item.startTime), Number(item.endTime)];
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) return null;
+
+  return { videoId: id, category: item.category, start, end, uuid: typeof item.UUID === 'string' ? item.UUID : undefined };
+};
+
+// 動画ごとにまとめた配列 ([{ videoID, segments: [...] }]) と、区間を並べただけの配列のどちらも受け付ける。
+// 後者で videoID を含まない場合 (1 動画分の API レスポンス) は fallbackVideoId の区間として扱う
+export const parseSponsorBlockJson = (json: unknown, fallbackVideoId?: string): ImportedSegment[] => {
+  const items: unknown[] = Array.isArray(json) ? json : [json];
+  return items.flatMap(item => {
+    if (isRecord(item) && Array.isArray(item.segments)) {
+      const videoId = isVideoId(item.videoID) ? item.videoID : fallbackVideoId;
+      return item.segments.map((segment: unknown) => parseSegment(segment, videoId));
+    }
+    return [parseSegment(item, fallbackVideoId)];
+  }).filter((segment): segment is ImportedSegment => segment !== null);
+};
+
+// --- Export ---
+
+export const toSponsorBlockJson = (segmentsByVideo: Record<string, SkipSegment[]>) =>
+  Object.entries(segmentsByVideo)
+    .filter(([, segments]) => segments.length > 0)
+    .map(([videoId, segments]) => ({
+      videoID: videoId,
+      segments: segments.map(segment => ({
+        segment: [segment.start, segment.end],
+        category: segment.category,
+        actionType: 'skip',
+        UUID: segment.id,
+      })),
+    }));
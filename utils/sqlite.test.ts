@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { readFixture } from './fixtures';
+import { isSqliteDatabase, openSqliteDatabase } from './sqlite';
+
+// fixtures/newpipe.db は NewPipe と同じテーブル構成で python3 の sqlite3 から作ったもの (ページサイズ 512)。
+// streams は 40 行あり内部ページを持ち、uid 1 のタイトルはオーバーフローページにまたがる
+
+const PAGE_SIZE = 512;
+const INTERIOR_TABLE_PAGE = 0x05;
+
+// 最初に見つかったテーブルの内部ページの右端の子ページ番号を書き換える
+const corruptRightmostChild = (buffer: ArrayBuffer, childPage: (page: number) => number) => {
+  const view = new DataView(buffer);
+  for (let page = 2; page * PAGE_SIZE <= buffer.byteLength; page++) {
+    const header = (page - 1) * PAGE_SIZE;
+    if (view.getUint8(header) === INTERIOR_TABLE_PAGE) {
+      view.setUint32(header + 8, childPage(page));
+      return buffer;
+    }
+  }
+  throw new Error('no interior table page in fixture');
+};
+
+describe('sqlite', () => {
+  it('reads every row of a multi-page table, including overflow payloads', () => {
+    const db = openSqliteDatabase(readFixture('newpipe.db'));
+    const streams = db.readTable('streams');
+
+    expect(db.hasTable('streams')).toBe(true);
+    expect(db.hasTable('missing')).toBe(false);
+    expect(streams).toHaveLength(40);
+    expect(streams.map(row => row.uid)).toEqual(Array.from({ length: 40 }, (_, i) => i + 1));
+    expect(streams[0].title).toBe('とても長いタイトル'.repeat(40));
+    expect(streams[1]).toMatchObject({ title: '動画 1', duration: 61, url: 'https://www.youtube.com/watch?v=video000001' });
+  });
+
+  it('rejects files that are not SQLite databases', () => {
+    const buffer = new TextEncoder().encode('{"subscriptions":[]}'.padEnd(200)).buffer;
+    expect(isSqliteDatabase(buffer)).toBe(false);
+    expect(() => openSqliteDatabase(buffer)).toThrow('SQLite データベースではありません。');
+  });
+
+  it('throws instead of looping when a page refers back to itself', () => {
+    const db = openSqliteDatabase(corruptRightmostChild(readFixture('newpipe.db'), page => page));
+    expect(() => db.readTable('streams')).toThrow(/循環/);
+  });
+
+  it('throws on page numbers outside the file', () => {
+    const db = openSqliteDatabase(corruptRightmostChild(readFixture('newpipe.db'), () => 9999));
+    expect(() => db.readTable('streams')).toThrow(/範囲外/);
+  });
+});
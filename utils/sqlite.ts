@@ -0,0 +1,205 @@
+// SQLite データベースのテーブルを読むだけの最小限のリーダー (NewPipe のバックアップに含まれる newpipe.db 用)。
+// 書き込み・インデックス・WITHOUT ROWID テーブルには対応せず、テーブルの B-tree を順に辿って全行を返す
+
+export type SqliteValue = number | string | Uint8Array | null;
+export type SqliteRow = Record<string, SqliteValue>;
+
+const HEADER_MAGIC = 'SQLite format 3\0';
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+
+export const isSqliteDatabase = (buffer: ArrayBuffer) =>
+  buffer.byteLength >= 100 && new TextDecoder().decode(new Uint8Array(buffer, 0, 16)) === HEADER_MAGIC;
+
+// 可変長整数 (最大 9 バイト)。[値, バイト数] を返す
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+interface TableSchema {
+  rootPage: number;
+  columns: string[];
+  // INTEGER PRIMARY KEY の列は rowid の別名で、レコードには NULL が入っている
+  rowidColumn: number;
+}
+
+// CREATE TABLE 文から列名を取り出す (テーブル制約の行は除く)
+const parseColumns = (sql: string) => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current.trim());
+
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const definition of definitions) {
+    if (/^(primary|foreign|unique|check|constraint)\b/i.test(definition)) continue;
+    const name = definition.match(/^(?:`([^`]+)`|"([^"]+)"|\[([^\]]+)\]|(\S+))/);
+    if (!name) continue;
+    if (/^\S+\s+integer\s+primary\s+key/i.test(definition)) rowidColumn = columns.length;
+    columns.push(name[1] ?? name[2] ?? name[3] ?? name[4]);
+  }
+  return { columns, rowidColumn };
+};
+
+export const openSqliteDatabase = (buffer: ArrayBuffer) => {
+  if (!isSqliteDatabase(buffer)) throw new Error('SQLite データベースではありません。');
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usableSize = pageSize - view.getUint8(20);
+  const encoding = view.getUint32(56);
+  const decoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8');
+
+  const pageCount = Math.floor(buffer.byteLength / pageSize);
+
+  // 壊れたファイルで範囲外を読んだり、同じページを巡回し続けたりしないよう、ページ番号はすべてここを通す
+  const pageOffset = (page: number) => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new Error(`SQLite のページ番号 ${page} が範囲外です (全 ${pageCount} ページ)。ファイルが壊れている可能性があります。`);
+    }
+    return (page - 1) * pageSize;
+  };
+
+  // オーバーフローページに続くペイロードも含めて、セルのペイロード全体を返す
+  const readPayload = (offset: number, size: number) => {
+    const maxLocal = usableSize - 35;
+    if (size <= maxLocal) return bytes.subarray(offset, offset + size);
+
+    const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+    const surplus = minLocal + ((size - minLocal) % (usableSize - 4));
+    const localSize = surplus <= maxLocal ? surplus : minLocal;
+    const payload = new Uint8Array(size);
+    payload.set(bytes.subarray(offset, offset + localSize));
+
+    let written = localSize;
+    let overflowPage = view.getUint32(offset + localSize);
+    const visited = new Set<number>();
+    while (written < size) {
+      if (visited.has(overflowPage)) throw new Error(`SQLite のオーバーフローページ ${overflowPage} が循環しています。ファイルが壊れている可能性があります。`);
+      visited.add(overflowPage);
+      const start = pageOffset(overflowPage);
+      const chunk = Math.min(usableSize - 4, size - written);
+      payload.set(bytes.subarray(start + 4, start + 4 + chunk), written);
+      written += chunk;
+      overflowPage = view.getUint32(start);
+    }
+    return payload;
+  };
+
+  const readSignedInt = (data: DataView, offset: number, length: number) => {
+    if (length === 8) return Number(data.getBigInt64(offset));
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + data.getUint8(offset + i);
+    const limit = 2 ** (length * 8);
+    return value >= limit / 2 ? value - limit : value;
+  };
+
+  const decodeRecord = (payload: Uint8Array): SqliteValue[] => {
+    const data = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerLength] = readVarint(payload, 0);
+    const types: number[] = [];
+    for (let pos = headerLength; pos < headerSize;) {
+      const [type, length] = readVarint(payload, pos);
+      types.push(type);
+      pos += length;
+    }
+
+    const values: SqliteValue[] = [];
+    let pos = headerSize;
+    for (const type of types) {
+      if (type === 0) values.push(null);
+      else if (type >= 1 && type <= 6) {
+        const length = [0, 1, 2, 3, 4, 6, 8][type];
+        values.push(readSignedInt(data, pos, length));
+        pos += length;
+      } else if (type === 7) {
+        values.push(data.getFloat64(pos));
+        pos += 8;
+      } else if (type === 8 || type === 9) {
+        values.push(type - 8);
+      } else if (type >= 12) {
+        const length = Math.floor((type - 12) / 2);
+        const content = payload.subarray(pos, pos + length);
+        values.push(type % 2 === 0 ? content.slice() : decoder.decode(content));
+        pos += length;
+      }
+    }
+    return values;
+  };
+
+  // テーブルの B-tree を左から順に辿り、[rowid, レコード] を返す
+  const scanTable = (rootPage: number): [number, SqliteValue[]][] => {
+    const rows: [number, SqliteValue[]][] = [];
+    const stack = [rootPage];
+    const visited = new Set<number>();
+    while (stack.length > 0) {
+      const page = stack.pop()!;
+      if (visited.has(page)) throw new Error(`SQLite のページ ${page} が循環して参照されています。ファイルが壊れている可能性があります。`);
+      visited.add(page);
+      const start = pageOffset(page);
+      // 1ページ目はファイルヘッダー (100 バイト) の後にページヘッダーがある
+      const header = page === 1 ? 100 : start;
+      const type = bytes[header];
+      const cellCount = view.getUint16(header + 3);
+
+      if (type === INTERIOR_TABLE_PAGE) {
+        const children: number[] = [];
+        for (let i = 0; i < cellCount; i++) {
+          children.push(view.getUint32(start + view.getUint16(header + 12 + i * 2)));
+        }
+        children.push(view.getUint32(header + 8));
+        // スタックなので逆順に積む
+        stack.push(...children.reverse());
+      } else if (type === LEAF_TABLE_PAGE) {
+        for (let i = 0; i < cellCount; i++) {
+          let cell = start + view.getUint16(header + 8 + i * 2);
+          const [payloadSize, sizeLength] = readVarint(bytes, cell);
+          cell += sizeLength;
+          const [rowid, rowidLength] = readVarint(bytes, cell);
+          cell += rowidLength;
+          rows.push([rowid, decodeRecord(readPayload(cell, payloadSize))]);
+        }
+      } else {
+        throw new Error(`SQLite のページ ${page} を読めません。`);
+      }
+    }
+    return rows;
+  };
+
+  const tables = new Map<string, TableSchema>();
+  for (const [, [type, name, , rootPage, sql]] of scanTable(1)) {
+    if (type !== 'table' || typeof name !== 'string' || typeof rootPage !== 'number' || typeof sql !== 'string') continue;
+    if (/without\s+rowid\s*$/i.test(sql)) continue;
+    tables.set(name, { rootPage, ...parseColumns(sql) });
+  }
+
+  return {
+    hasTable: (name: string) => tables.has(name),
+    readTable: (name: string): SqliteRow[] => {
+      const schema = tables.get(name);
+      if (!schema) return [];
+      return scanTable(schema.rootPage).map(([rowid, values]) => Object.fromEntries(
+        schema.columns.map((column, i) => [column, i === schema.rowidColumn ? rowid : values[i] ?? null]),
+      ));
+    },
+  };
+};
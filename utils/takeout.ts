@@ -0,0 +1,164 @@
+import type { Channel, HistoryEntry, ImportBundle, ImportedPlaylist } from '../types';
+import { DEFAULT_CHANNEL_AVATAR_URL } from './api';
+import {
+  VIDEO_ID_PATTERN,
+  createHistoryEntry,
+  fileNameOf,
+  getChannelIdFromUrl,
+  getVideoIdFromUrl,
+  isRecord,
+  stringOf,
+  toIsoString,
+  type ImportSourceFile,
+  type JsonRecord,
+} from './importBundle';
+
+// Google Takeout (YouTube と YouTube Music) の書き出しを読み込む。
+// subscriptions.csv / watch-history.json / watch-history.html / 再生リストの CSV に対応する。
+// ファイル名は書き出し時の言語で変わる (例: 登録チャンネル.csv、再生履歴.json) ため、形式は中身から判定する
+
+// --- CSV ---
+
+// RFC 4180 形式 (ダブルクォートで囲んだ値の中のカンマ・改行・"" に対応)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') { value += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else value += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows.map(r => r.map(cell => cell.trim()));
+};
+
+const isChannelIdHeader = (cell: string | undefined) => /channel\s*id|チャンネル\s*id/i.test(cell ?? '');
+const isVideoIdHeader = (cell: string | undefined) => /video\s*id|動画\s*id/i.test(cell ?? '');
+
+// 登録チャンネル: "Channel Id,Channel Url,Channel Title"
+const parseSubscriptionsCsv = (rows: string[][]): Channel[] => rows.slice(1).flatMap(([id, , title]) => {
+  const channelId = getChannelIdFromUrl(id);
+  return channelId ? [{ id: channelId, name: title || channelId, avatarUrl: DEFAULT_CHANNEL_AVATAR_URL, subscriberCount: '' }] : [];
+});
+
+// 再生リスト: 現在の形式は "<名前>-videos.csv" に "Video ID,Playlist Video Creation Timestamp"、
+// 以前の形式は "<名前>.csv" の先頭に再生リストの情報 (Title を含む) があり、空行のあとに "Video Id,Time Added" が続く
+const parsePlaylistCsv = (path: string, rows: string[][]): ImportedPlaylist | null => {
+  const headerIndex = rows.findIndex(row => isVideoIdHeader(row[0]));
+  if (headerIndex < 0) return null;
+
+  let name = fileNameOf(path).replace(/(-videos)?\.csv$/i, '');
+  let createdAt: string | undefined;
+  if (headerIndex >= 2) {
+    const titleColumn = rows[0].findIndex(cell => /^(title|タイトル)$/i.test(cell));
+    const createdColumn = rows[0].findIndex(cell => /time created|作成日時/i.test(cell));
+    if (titleColumn >= 0 && rows[1][titleColumn]) name = rows[1][titleColumn];
+    if (createdColumn >= 0) createdAt = toIsoString(rows[1][createdColumn]);
+  }
+
+  const videoIds = [...new Set(rows.slice(headerIndex + 1).map(row => row[0]).filter(id => VIDEO_ID_PATTERN.test(id ?? '')))];
+  return { name, videoIds, createdAt };
+};
+
+// --- Watch history ---
+
+// 「Watched 〜」「〜 を視聴しました」の定型文を外して動画タイトルだけにする
+const stripWatchedPrefix = (title: string) => title.replace(/^Watched\s+/, '').replace(/\s*を視聴しました$/, '');
+
+// 広告として再生されたもの (details に "From Google Ads" / "Google 広告" が入る) は履歴に含めない
+const isAdActivity = (item: JsonRecord) => Array.isArray(item.details) && item.details.some((d: unknown) => isRecord(d) && /google ads|google 広告/i.test(stringOf(d.name) ?? ''));
+
+const hasTitleUrl = (item: unknown): item is JsonRecord & { titleUrl: string } => isRecord(item) && typeof item.titleUrl === 'string';
+
+const parseWatchHistoryJson = (json: unknown): HistoryEntry[] => {
+  if (!Array.isArray(json)) return [];
+  return json.filter(hasTitleUrl).flatMap(item => {
+    const videoId = getVideoIdFromUrl(item.titleUrl);
+    if (!videoId || isAdActivity(item)) return [];
+    const channel = Array.isArray(item.subtitles) && isRecord(item.subtitles[0]) ? item.subtitles[0] : undefined;
+    return [createHistoryEntry({
+      id: videoId,
+      title: stripWatchedPrefix(stringOf(item.title) ?? ''),
+      channelName: stringOf(channel?.name) ?? '',
+      channelId: getChannelIdFromUrl(stringOf(channel?.url)) ?? '',
+      watchedAt: toIsoString(item.time),
+    })];
+  });
+};
+
+// "Jan 1, 2024, 12:00:00 AM JST" / "2024/01/01 12:00:00 JST" (タイムゾーンの略称は Date が解釈できないので外す)
+const parseHtmlTimestamp = (text: string) => toIsoString(text.replace(/\s+[A-Z]{2,5}$/, '').replace(/[\u202F\u00A0]/g, ' '));
+
+const parseWatchHistoryHtml = (html: string): HistoryEntry[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('.content-cell')).flatMap(cell => {
+    const links = Array.from(cell.querySelectorAll('a'));
+    const videoLink = links.find(a => getVideoIdFromUrl(a.getAttribute('href')));
+    if (!videoLink) return [];
+    const channelLink = links.find(a => getChannelIdFromUrl(a.getAttribute('href')));
+    // 最後のテキストノードが視聴日時
+    const texts = Array.from(cell.childNodes).filter(node => node.nodeType === Node.TEXT_NODE).map(node => node.textContent?.trim() ?? '').filter(Boolean);
+    return [createHistoryEntry({
+      id: getVideoIdFromUrl(videoLink.getAttribute('href'))!,
+      title: stripWatchedPrefix(videoLink.textContent ?? ''),
+      channelName: channelLink?.textContent ?? '',
+      channelId: getChannelIdFromUrl(channelLink?.getAttribute('href')) ?? '',
+      watchedAt: parseHtmlTimestamp(texts[texts.length - 1] ?? ''),
+    })];
+  });
+};
+
+// --- Adapter ---
+
+export const readTakeoutFile = (file: ImportSourceFile): Partial<ImportBundle> | null => {
+  const name = fileNameOf(file.path).toLowerCase();
+
+  if (name.endsWith('.json')) {
+    const json = file.json();
+    if (!Array.isArray(json) || !json.some(hasTitleUrl)) return null;
+    return { history: parseWatchHistoryJson(json) };
+  }
+
+  if (name.endsWith('.html')) {
+    const text = file.text();
+    if (!text.includes('content-cell')) return null;
+    const history = parseWatchHistoryHtml(text);
+    // 検索履歴 (search-history.html) など、動画へのリンクを含まない履歴は対象外
+    return history.length > 0 ? { history } : null;
+  }
+
+  if (name.endsWith('.csv')) {
+    const rows = parseCsv(file.text());
+    const header = rows[0] ?? [];
+    // チャンネル情報の channel.csv も Channel ID で始まるため、2列目が URL のものだけを登録チャンネルとみなす
+    if (isChannelIdHeader(header[0]) && /url/i.test(header[1] ?? '')) {
+      return { subscriptions: parseSubscriptionsCsv(rows) };
+    }
+    const playlist = parsePlaylistCsv(file.path, rows);
+    return playlist ? { playlists: [playlist] } : null;
+  }
+  return null;
+};
@@ -0,0 +1,61 @@
+import type { TranscriptSegment } from '../types';
+import { formatDuration } from './api';
+
+export type TranscriptExportFormat = 'txt' | 'srt' | 'md';
+
+// --- Formatting ---
+
+// SRT のタイムスタンプ (00:01:02,345)
+const formatSrtTimestamp = (seconds: number): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')},${String(ms % 1000).padStart(3, '0')}`;
+};
+
+export const formatTranscriptTime = (seconds: number): string => formatDuration(Math.floor(seconds));
+
+const toPlainText = (segments: TranscriptSegment[]): string =>
+  segments.map(segment => `[${formatTranscriptTime(segment.start)}] ${segment.text}`).join('\n');
+
+const toSrt = (segments: TranscriptSegment[]): string =>
+  segments.map((segment, index) =>
+    `${index + 1}\n${formatSrtTimestamp(segment.start)} --> ${formatSrtTimestamp(segment.end)}\n${segment.text}\n`
+  ).join('\n');
+
+// 各行のタイムスタンプは動画のその位置へのリンクにする
+const toMarkdown = (segments: TranscriptSegment[], title: string, videoId: string): string => [
+  `# ${title}`,
+  '',
+  ...segments.map(segment => {
+    const time = formatTranscriptTime(segment.start);
+    return `- [${time}](https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(segment.start)}s) ${segment.text.replace(/\n/g, ' ')}`;
+  }),
+  '',
+].join('\n');
+
+export const formatTranscript = (segments: TranscriptSegment[], format: TranscriptExportFormat, title: string, videoId: string): string => {
+  if (format === 'srt') return toSrt(segments);
+  if (format === 'md') return toMarkdown(segments, title, videoId);
+  return toPlainText(segments);
+};
+
+// --- Export ---
+
+const MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  txt: 'text/plain',
+  srt: 'application/x-subrip',
+  md: 'text/markdown',
+};
+
+export const downloadTranscript = (segments: TranscriptSegment[], format: TranscriptExportFormat, title: string, videoId: string) => {
+  const blob = new Blob([formatTranscript(segments, format, title, videoId)], { type: `${MIME_TYPES[format]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  // ファイル名に使えない文字を除く
+  a.download = `${title.replace(/[\\/:*?"<>|]/g, '_').slice(0, 100) || videoId}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
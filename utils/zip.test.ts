@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZipEntries } from './zip';
+
+describe('zip', () => {
+  it('reads back what createZip writes', async () => {
+    const files = [
+      { path: 'freetube-subscriptions.db', content: '{"name":"All Channels"}\n' },
+      { path: 'フォルダ/日本語.json', content: JSON.stringify({ title: '再生リスト' }) },
+      { path: 'empty.txt', content: '' },
+    ];
+    const entries = await readZipEntries(createZip(files));
+
+    expect(entries.map(entry => entry.path)).toEqual(files.map(file => file.path));
+    for (const [i, entry] of entries.entries()) {
+      expect(new TextDecoder().decode(await entry.arrayBuffer())).toBe(files[i].content);
+      expect(entry.size).toBe(new TextEncoder().encode(files[i].content).byteLength);
+    }
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    await expect(readZipEntries(new Blob(['not a zip']))).rejects.toThrow('ZIP ファイルではありません。');
+  });
+});
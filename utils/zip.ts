@@ -0,0 +1,169 @@
+// ブラウザだけで ZIP を読み書きする最小限の実装。
+// 読み込みは無圧縮と deflate に対応 (ZIP64 も可)。Takeout のアーカイブは動画を含むと数 GB になるため、
+// 全体は読み込まず、中央ディレクトリと必要なエントリだけを File.slice で読む。書き出しは無圧縮のみ
+
+export interface ZipEntry {
+  path: string;
+  size: number;
+  arrayBuffer: () => Promise<ArrayBuffer>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// EOCD (22 バイト) + 最大長のコメント
+const EOCD_SEARCH_BYTES = 22 + 0xffff;
+
+const readBytes = async (file: Blob, start: number, end: number) => new DataView(await file.slice(start, end).arrayBuffer());
+
+const findEndOfCentralDirectory = async (file: Blob) => {
+  const start = Math.max(0, file.size - EOCD_SEARCH_BYTES);
+  const view = await readBytes(file, start, file.size);
+  for (let i = view.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return { view, offset: i, absoluteOffset: start + i };
+  }
+  throw new Error('ZIP ファイルではありません。');
+};
+
+const readCentralDirectoryLocation = async (file: Blob) => {
+  const { view, offset, absoluteOffset } = await findEndOfCentralDirectory(file);
+  let entryCount = view.getUint16(offset + 10, true);
+  let size = view.getUint32(offset + 12, true);
+  let start = view.getUint32(offset + 16, true);
+
+  if (entryCount === 0xffff || size === 0xffffffff || start === 0xffffffff) {
+    // ZIP64: EOCD の直前にあるロケーターから ZIP64 EOCD を読む
+    const locator = await readBytes(file, absoluteOffset - 20, absoluteOffset);
+    if (locator.getUint32(0, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) throw new Error('ZIP64 の情報が見つかりません。');
+    const zip64Offset = Number(locator.getBigUint64(8, true));
+    const zip64 = await readBytes(file, zip64Offset, zip64Offset + 56);
+    entryCount = Number(zip64.getBigUint64(32, true));
+    size = Number(zip64.getBigUint64(40, true));
+    start = Number(zip64.getBigUint64(48, true));
+  }
+  return { entryCount, start, size };
+};
+
+const inflate = async (data: Blob) => {
+  const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return await new Response(stream).arrayBuffer();
+};
+
+export const readZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const { entryCount, start, size } = await readCentralDirectoryLocation(file);
+  const view = await readBytes(file, start, start + size);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  for (let i = 0; i < entryCount && pos + 46 <= view.byteLength; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('ZIP の中央ディレクトリが壊れています。');
+    const method = view.getUint16(pos + 10, true);
+    let compressedSize = view.getUint32(pos + 20, true);
+    let uncompressedSize = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    let localOffset = view.getUint32(pos + 42, true);
+    const path = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + pos + 46, nameLength));
+
+    // ZIP64 拡張フィールド (0x0001) には 0xffffffff になっている値だけが順に入っている
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = view.getUint16(extra, true);
+      const length = view.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (uncompressedSize === 0xffffffff) { uncompressedSize = Number(view.getBigUint64(field, true)); field += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = Number(view.getBigUint64(field, true)); field += 8; }
+        if (localOffset === 0xffffffff) localOffset = Number(view.getBigUint64(field, true));
+      }
+      extra += 4 + length;
+    }
+    pos = extraEnd + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (method !== 0 && method !== 8) continue;
+
+    const dataOffset = localOffset;
+    const dataSize = compressedSize;
+    entries.push({
+      path,
+      size: uncompressedSize,
+      arrayBuffer: async () => {
+        // ローカルヘッダーのファイル名・拡張フィールドの長さは中央ディレクトリと異なることがある
+        const header = await readBytes(file, dataOffset, dataOffset + 30);
+        if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`${path} のヘッダーが壊れています。`);
+        const bodyStart = dataOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const body = file.slice(bodyStart, bodyStart + dataSize);
+        return method === 8 ? await inflate(body) : await body.arrayBuffer();
+      },
+    });
+  }
+  return entries;
+};
+
+// --- Write ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// テキストファイルをまとめた無圧縮の ZIP を作る (書き出すのは数 MB 程度なので ZIP64 には対応しない)
+export const createZip = (files: { path: string; content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true);
+    // ファイル名は UTF-8
+    local.setUint16(6, 0x0800, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, EOCD_SIGNATURE, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};